@@ -2,8 +2,13 @@ import * as THREE from 'three';
 import { SceneManager } from './scene/SceneManager';
 import { Car } from './vehicle/Car';
 import { CarControls } from './vehicle/CarControls';
+import { Navigator } from './navigation/Navigator';
+import { RouteRenderer } from './scene/RouteRenderer';
+import { TrafficManager } from './traffic/TrafficManager';
+import { RuleEngine } from './rules/RuleEngine';
+import { RoundaboutLayout } from './network/RoundaboutLayout';
 import { CityManager } from '@/utils/cityManager';
-import type { SpeedUpdateCallback, LoadCompleteCallback } from '@/types';
+import type { SpeedUpdateCallback, LoadCompleteCallback, LoadProgressCallback, NavigationUpdateCallback, RouteMode, DestinationPickResult, CollisionCallback, DriverWarning, WarningsUpdateCallback, DrivingSide, ViolationCallback, SpeedLimitUpdateCallback, RoundaboutInfo } from '@/types';
 
 export class DrivingSimulator {
     private scene: THREE.Scene;
@@ -17,6 +22,7 @@ export class DrivingSimulator {
     private animationId: number | null = null;
     private speedUpdateCallbacks: SpeedUpdateCallback[] = [];
     private loadCompleteCallbacks: LoadCompleteCallback[] = [];
+    private loadProgressCallbacks: LoadProgressCallback[] = [];
     private fpsUpdateCallbacks: SpeedUpdateCallback[] = [];
     private headingUpdateCallbacks: SpeedUpdateCallback[] = [];
     private boostUpdateCallbacks: SpeedUpdateCallback[] = [];
@@ -26,6 +32,27 @@ export class DrivingSimulator {
     private positionSaveInterval: number | null = null;
     private lastSavedPosition: { lat: number; lon: number; } | null = null;
     private coordinateUpdateCallbacks: Array<(lat: number, lon: number) => void> = [];
+    private navigationUpdateCallbacks: NavigationUpdateCallback[] = [];
+    private navigator: Navigator | null = null;
+    private routeRenderer: RouteRenderer;
+    private routeMode: RouteMode = 'fastest';
+    private destinationPickResolver: ((result: DestinationPickResult) => void) | null = null;
+    private pickPointerStart: { x: number; y: number; } | null = null;
+    private lastPickHoverTime: number = 0;
+    private collisionCallbacks: CollisionCallback[] = [];
+    private wasColliding: boolean = false;
+    private collisionCooldown: number = 0;
+    private readonly collisionEventInterval = 0.5; // seconds between reported impacts
+    private trafficManager: TrafficManager | null = null;
+    private trafficDensity: number = 20; // Maximum number of AI vehicles
+    private ruleEngine: RuleEngine | null = null;
+    private violationCallbacks: ViolationCallback[] = [];
+    private warningsUpdateCallbacks: WarningsUpdateCallback[] = [];
+    private activeWarningsKey: string = '';
+    private speedLimitUpdateCallbacks: SpeedLimitUpdateCallback[] = [];
+    private currentSpeedLimit: number | null = null;
+    private againstRoundaboutTime: number = 0;
+    private readonly roundaboutWarningDelay = 0.3; // seconds against the flow before warning
 
     constructor(private container: HTMLElement) {
         // Initialize Three.js core
@@ -46,6 +73,10 @@ export class DrivingSimulator {
         this.container.appendChild(this.renderer.domElement);
 
         this.sceneManager = new SceneManager(this.scene);
+        this.routeRenderer = new RouteRenderer(
+            this.scene,
+            (position, nearHeight) => this.sceneManager.getRoadHeightAt(position, nearHeight)
+        );
         this.clock = new THREE.Clock();
 
         this.setupEventListeners();
@@ -76,8 +107,44 @@ export class DrivingSimulator {
             // Add fog for depth
             this.scene.fog = new THREE.Fog(0x87CEEB, 500, 2000);
 
+            // Stop navigating in the previous city
+            this.clearNavigation();
+
+            // Remove the previous city's traffic
+            if (this.trafficManager) {
+                this.trafficManager.dispose();
+                this.trafficManager = null;
+            }
+
             // Load city map with saved position
-            await this.sceneManager.loadCityMap(city, savedPosition);
+            await this.sceneManager.loadCityMap(city, savedPosition, progress => {
+                this.loadProgressCallbacks.forEach(callback => callback(progress));
+            });
+
+            // Set up navigation over the new road network
+            const roadNetwork = this.sceneManager.getRoadNetwork();
+            this.navigator = roadNetwork ? new Navigator(roadNetwork) : null;
+            if (this.navigator) {
+                this.navigator.setMode(this.routeMode);
+                this.navigator.onRouteChange(route => this.routeRenderer.setRoute(route ? route.points : null));
+            }
+
+            // Populate the roads with AI traffic on the city's side of the road
+            const drivingSide = this.sceneManager.getDrivingSide();
+            if (roadNetwork) {
+                this.trafficManager = new TrafficManager(
+                    this.scene,
+                    roadNetwork,
+                    { maxVehicles: this.trafficDensity, drivingSide },
+                    (position, nearHeight) => this.sceneManager.getRoadHeightAt(position, nearHeight)
+                );
+            }
+
+            // Check the driver against the traffic rules of the new city
+            const countryCode = this.sceneManager.getCountryCode();
+            this.ruleEngine = roadNetwork ? new RuleEngine(roadNetwork, { drivingSide, countryCode }, this.sceneManager.getTrafficSignals(), this.sceneManager.getTrafficControls()) : null;
+            this.publishWarnings([]);
+            this.publishSpeedLimit(null);
 
             // Clean up old car and controls if they exist
             if (this.carControls) {
@@ -94,6 +161,11 @@ export class DrivingSimulator {
             const startPosition = this.sceneManager.getStartPosition();
             this.car = new Car(this.scene);
             this.car.setPosition(startPosition.x, startPosition.y, startPosition.z);
+            // Follow slopes and bridge decks
+            this.car.setSurfaceHeightProvider(
+                (position, nearHeight) => this.sceneManager.getRoadHeightAt(position, nearHeight),
+                this.sceneManager.getCarHeight()
+            );
 
             if (!this.car) {
                 throw new Error('Car initialization failed');
@@ -175,6 +247,7 @@ export class DrivingSimulator {
             const surface = this.sceneManager.getRoadSurfaceAtPosition(preUpdatePosition);
             this.carControls.setRoadSurface(surface);
             this.carControls.update(delta);
+            this.resolveCollisions(delta);
 
             // Update camera to follow car smoothly
             const carPosition = this.car.getPosition();
@@ -235,6 +308,61 @@ export class DrivingSimulator {
             // Update coordinate callbacks
             const coords = this.sceneManager.localToLatLon(carPosition.x, carPosition.z);
             this.coordinateUpdateCallbacks.forEach(callback => callback(coords.lat, coords.lon));
+
+            // Drive AI traffic around the player
+            if (this.trafficManager) {
+                this.trafficManager.update(delta, {
+                    position: { x: carPosition.x, z: carPosition.z },
+                    heading: { x: carDirection.x, z: carDirection.z },
+                    speed: this.car.getSpeed()
+                });
+            }
+
+            // Build the tiles the car is heading into and drop the ones left behind
+            this.sceneManager.updateStreaming(carPosition);
+
+            // Advance the traffic signal cycles
+            this.sceneManager.updateTrafficSignals(delta);
+
+            // Evaluate traffic rules and update driver warnings
+            const warnings: DriverWarning[] = [];
+            if (this.ruleEngine) {
+                const evaluation = this.ruleEngine.update({
+                    position: { x: carPosition.x, z: carPosition.z },
+                    heading: { x: carDirection.x, z: carDirection.z },
+                    speed: this.car.getSpeed()
+                }, delta);
+                this.publishSpeedLimit(evaluation.speedLimit);
+                evaluation.violations.forEach(violation => {
+                    this.violationCallbacks.forEach(callback => callback(violation));
+                });
+
+                const againstRoundabout = this.checkRoundaboutFlow(carPosition, carDirection, delta);
+                if (againstRoundabout) {
+                    warnings.push({
+                        type: 'roundabout-wrong-way',
+                        message: 'Wrong way',
+                        detail: `Traffic on this roundabout circulates ${againstRoundabout.circulation === 'clockwise' ? 'clockwise' : 'anticlockwise'}`
+                    });
+                } else if (evaluation.active.includes('wrong-way')) {
+                    warnings.push({ type: 'wrong-way', message: 'Wrong way', detail: 'This is a one-way street, turn around' });
+                } else if (evaluation.active.includes('wrong-side')) {
+                    warnings.push(this.ruleEngine.getDrivingSide() === 'left'
+                        ? { type: 'keep-left', message: 'Keep left', detail: 'You are on the wrong side of the road' }
+                        : { type: 'keep-right', message: 'Keep right', detail: 'You are on the wrong side of the road' });
+                }
+            }
+            this.publishWarnings(warnings);
+
+            // Update turn-by-turn navigation
+            if (this.navigator && this.navigator.isActive()) {
+                const navigationState = this.navigator.update(
+                    { x: carPosition.x, z: carPosition.z },
+                    { x: carDirection.x, z: carDirection.z },
+                    delta
+                );
+                this.navigationUpdateCallbacks.forEach(callback => callback(navigationState));
+            }
         }
 
         // Calculate FPS
@@ -250,6 +378,85 @@ export class DrivingSimulator {
         this.renderer.render(this.scene, this.camera);
     };
 
+    /**
+     * Keep the car out of buildings and trees, and report new impacts
+     */
+    private resolveCollisions(delta: number): void {
+        if (!this.car || !this.carControls) return;
+        this.collisionCooldown = Math.max(0, this.collisionCooldown - delta);
+
+        const position = this.car.getPosition();
+        const direction = this.car.getDirection();
+        const speed = this.car.getSpeed();
+        const collision = this.sceneManager.getCollisionSystem().resolveVehicle({
+            x: position.x,
+            z: position.z,
+            heading: { x: direction.x, z: direction.z },
+            speed
+        });
+
+        if (!collision) {
+            this.wasColliding = false;
+            return;
+        }
+
+        this.car.applyCollision(collision.correction.x, collision.correction.z, collision.speedFactor, collision.yawDelta);
+
+        // Only report the first contact, not continuous scraping
+        if (!this.wasColliding && this.collisionCooldown <= 0 && Math.abs(speed) > 1) {
+            const impactSpeed = Math.abs(speed);
+            this.carControls.playImpactSound(impactSpeed);
+            this.collisionCallbacks.forEach(callback => callback({
+                obstacle: collision.obstacle,
+                position: collision.contactPoint,
+                impactSpeed,
+                impactAngle: collision.impactAngle
+            }));
+            this.collisionCooldown = this.collisionEventInterval;
+        }
+        this.wasColliding = true;
+    }
+
+    /**
+     * Notify listeners when the set of active warnings changes
+     */
+    private publishWarnings(warnings: DriverWarning[]): void {
+        const key = warnings.map(warning => warning.type).join(',');
+        if (key === this.activeWarningsKey) return;
+        this.activeWarningsKey = key;
+        this.warningsUpdateCallbacks.forEach(callback => callback(warnings));
+    }
+
+    /**
+     * Track how long the car has been driving around a roundabout against its circulation.
+     * Returns the roundabout once that has lasted longer than the warning delay.
+     */
+    private checkRoundaboutFlow(position: THREE.Vector3, heading: THREE.Vector3, delta: number): RoundaboutInfo | null {
+        const speed = this.car?.getSpeed() ?? 0;
+        const roundabout = Math.abs(speed) > 3 ? this.sceneManager.getRoundaboutAt({ x: position.x, z: position.z }) : null;
+        // Reversing travels opposite to the heading
+        const sign = speed < 0 ? -1 : 1;
+        const circulation = roundabout
+            ? RoundaboutLayout.getCirculationOf(roundabout.center, { x: position.x, z: position.z }, { x: heading.x * sign, z: heading.z * sign })
+            : null;
+
+        if (!roundabout || circulation === null || circulation === roundabout.circulation) {
+            this.againstRoundaboutTime = 0;
+            return null;
+        }
+        this.againstRoundaboutTime += delta;
+        return this.againstRoundaboutTime >= this.roundaboutWarningDelay ? roundabout : null;
+    }
+
+    /**
+     * Notify listeners when the speed limit of the road under the car changes
+     */
+    private publishSpeedLimit(speedLimit: number | null): void {
+        if (speedLimit === this.currentSpeedLimit) return;
+        this.currentSpeedLimit = speedLimit;
+        this.speedLimitUpdateCallbacks.forEach(callback => callback(speedLimit));
+    }
+
     onSpeedUpdate(callback: SpeedUpdateCallback): void {
         this.speedUpdateCallbacks.push(callback);
     }
@@ -258,6 +465,10 @@ export class DrivingSimulator {
         this.loadCompleteCallbacks.push(callback);
     }
 
+    onLoadProgress(callback: LoadProgressCallback): void {
+        this.loadProgressCallbacks.push(callback);
+    }
+
     onFpsUpdate(callback: SpeedUpdateCallback): void {
         this.fpsUpdateCallbacks.push(callback);
     }
@@ -274,6 +485,117 @@ export class DrivingSimulator {
         this.coordinateUpdateCallbacks.push(callback);
     }
 
+    onNavigationUpdate(callback: NavigationUpdateCallback): void {
+        this.navigationUpdateCallbacks.push(callback);
+    }
+
+    onCollision(callback: CollisionCallback): void {
+        this.collisionCallbacks.push(callback);
+    }
+
+    onWarningsUpdate(callback: WarningsUpdateCallback): void {
+        this.warningsUpdateCallbacks.push(callback);
+    }
+
+    onViolation(callback: ViolationCallback): void {
+        this.violationCallbacks.push(callback);
+    }
+
+    onSpeedLimitUpdate(callback: SpeedLimitUpdateCallback): void {
+        this.speedLimitUpdateCallbacks.push(callback);
+    }
+
+    /**
+     * Street names that can be used as navigation destinations
+     */
+    getStreetNames(): string[] {
+        return this.navigator ? this.navigator.getStreetNames() : [];
+    }
+
+    /**
+     * Start navigating to a named street. Returns false if no route could be found.
+     */
+    navigateToStreet(name: string): boolean {
+        if (!this.navigator || !this.car) return false;
+        const position = this.car.getPosition();
+        const direction = this.car.getDirection();
+        return this.navigator.setDestinationByName(name, { x: position.x, z: position.z }, { x: direction.x, z: direction.z });
+    }
+
+    /**
+     * Start navigating to a local map position. Returns false if no route could be found.
+     */
+    navigateToPoint(x: number, z: number): boolean {
+        if (!this.navigator || !this.car) return false;
+        const roadNetwork = this.sceneManager.getRoadNetwork();
+        const nearest = roadNetwork?.findNearestEdge(x, z);
+        const name = nearest?.edge.properties.name ?? 'selected point';
+        const position = this.car.getPosition();
+        const direction = this.car.getDirection();
+        return this.navigator.setDestination({ x, z }, name, { x: position.x, z: position.z }, { x: direction.x, z: direction.z });
+    }
+
+    /**
+     * Let the user click a destination on the map.
+     * Resolves once a point has been clicked (with whether a route to it was found) or the pick is cancelled.
+     */
+    startDestinationPick(): Promise<DestinationPickResult> {
+        this.cancelDestinationPick();
+        return new Promise(resolve => {
+            this.destinationPickResolver = resolve;
+        });
+    }
+
+    cancelDestinationPick(): void {
+        if (this.destinationPickResolver) {
+            this.destinationPickResolver('cancelled');
+            this.destinationPickResolver = null;
+            this.sceneManager.highlightFeature(null);
+        }
+    }
+
+    setRouteMode(mode: RouteMode): void {
+        this.routeMode = mode;
+        if (this.navigator && this.car) {
+            const position = this.car.getPosition();
+            const direction = this.car.getDirection();
+            this.navigator.setMode(mode, { x: position.x, z: position.z }, { x: direction.x, z: direction.z });
+        }
+    }
+
+    /**
+     * Stop navigating and remove the route from the map
+     */
+    clearNavigation(): void {
+        this.cancelDestinationPick();
+        if (this.navigator) {
+            this.navigator.clear();
+        }
+        this.routeRenderer.setRoute(null);
+        this.navigationUpdateCallbacks.forEach(callback => callback(null));
+    }
+
+    /**
+     * Set the maximum number of AI vehicles around the player (0 disables traffic)
+     */
+    setTrafficDensity(count: number): void {
+        this.trafficDensity = Math.max(0, Math.floor(count));
+        if (this.trafficManager) {
+            this.trafficManager.setMaxVehicles(this.trafficDensity);
+        }
+    }
+
+    getTrafficDensity(): number {
+        return this.trafficDensity;
+    }
+
+    /**
+     * Side of the road traffic keeps to in the current city
+     */
+    getDrivingSide(): DrivingSide {
+        return this.sceneManager.getDrivingSide();
+    }
+
     getCarHeading(): number {
         if (!this.car) return 0;
         const direction = this.car.getDirection();
@@ -306,17 +628,20 @@ export class DrivingSimulator {
     }
 
     /**
-     * Reset car to map center position (default spawn location)
+     * Reset car to the road nearest the map center, in the correct lane for the city's driving side
      */
     resetCarPosition(): void {
         if (!this.car || !this.sceneManager) return;
 
-        // Use map center position (default spawn location when no saved position)
-        const centerPosition = this.sceneManager.getCenterPosition();
-        this.car.setPosition(centerPosition.x, centerPosition.y, centerPosition.z);
+        // Use the spawn pose near the map center (default spawn location when no saved position)
+        const spawn = this.sceneManager.getSpawnPose();
+        this.car.setPosition(spawn.position.x, spawn.position.y, spawn.position.z);
 
-        // Reset car rotation to default (facing forward/North)
-        this.car.setRotation(0);
+        // Face along the road
+        this.car.setRotation(spawn.heading);
+        if (this.ruleEngine) {
+            this.ruleEngine.reset();
+        }
 
         // Reset car physics (speed, steering, etc.)
         this.car.resetPhysics();
@@ -332,8 +657,61 @@ export class DrivingSimulator {
     setupEventListeners(): void {
         window.addEventListener('resize', this.handleResize);
         this.renderer.domElement.addEventListener('contextmenu', (e) => e.preventDefault());
+        this.renderer.domElement.addEventListener('pointerdown', this.handlePickPointerDown);
+        this.renderer.domElement.addEventListener('pointerup', this.handlePickPointerUp);
+        this.renderer.domElement.addEventListener('pointermove', this.handlePickPointerMove);
     }
 
+    private handlePickPointerDown = (e: PointerEvent): void => {
+        this.pickPointerStart = { x: e.clientX, y: e.clientY };
+    };
+
+    /**
+     * Highlight the road under the pointer while picking a destination
+     */
+    private handlePickPointerMove = (e: PointerEvent): void => {
+        if (!this.destinationPickResolver) return;
+        // Raycasting the merged meshes is costly, so follow the pointer at most every 50 ms
+        const now = performance.now();
+        if (now - this.lastPickHoverTime < 50) return;
+        this.lastPickHoverTime = now;
+        const feature = this.sceneManager.pickFeature(this.getPointerRay(e));
+        this.sceneManager.highlightFeature(feature?.layer === 'roads' ? feature : null);
+    };
+
+    /**
+     * Ray from the camera through the pointer
+     */
+    private getPointerRay(e: PointerEvent): THREE.Raycaster {
+        const rect = this.renderer.domElement.getBoundingClientRect();
+        const pointer = new THREE.Vector2(
+            ((e.clientX - rect.left) / rect.width) * 2 - 1,
+            -((e.clientY - rect.top) / rect.height) * 2 + 1
+        );
+        const raycaster = new THREE.Raycaster();
+        raycaster.setFromCamera(pointer, this.camera);
+        return raycaster;
+    }
+
+    /**
+     * Treat a click (not a camera drag) as a destination pick while picking is active
+     */
+    private handlePickPointerUp = (e: PointerEvent): void => {
+        const start = this.pickPointerStart;
+        this.pickPointerStart = null;
+        if (!this.destinationPickResolver || !start) return;
+        if (Math.hypot(e.clientX - start.x, e.clientY - start.y) > 5) return;
+
+        // The road or ground actually under the pointer, which on hills and bridges is far from y = 0
+        const hit = this.sceneManager.pickSurface(this.getPointerRay(e));
+        if (!hit) return;
+
+        const resolve = this.destinationPickResolver;
+        this.destinationPickResolver = null;
+        this.sceneManager.highlightFeature(null);
+        resolve(this.navigateToPoint(hit.x, hit.z) ? 'routed' : 'no-route');
+    };
+
     private handleResize = (): void => {
         this.camera.aspect = window.innerWidth / window.innerHeight;
         this.camera.updateProjectionMatrix();
@@ -342,6 +720,15 @@ export class DrivingSimulator {
 
     dispose(): void {
         window.removeEventListener('resize', this.handleResize);
+        this.renderer.domElement.removeEventListener('pointerdown', this.handlePickPointerDown);
+        this.renderer.domElement.removeEventListener('pointerup', this.handlePickPointerUp);
+        this.renderer.domElement.removeEventListener('pointermove', this.handlePickPointerMove);
+        this.cancelDestinationPick();
+        this.routeRenderer.clear();
+        if (this.trafficManager) {
+            this.trafficManager.dispose();
+            this.trafficManager = null;
+        }
         if (this.positionSaveInterval) {
             clearInterval(this.positionSaveInterval);
         }
@@ -352,6 +739,7 @@ export class DrivingSimulator {
         if (this.carControls) {
             this.carControls.dispose();
         }
+        this.sceneManager.dispose();
         this.renderer.dispose();
     }
 }
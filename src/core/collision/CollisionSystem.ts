@@ -0,0 +1,264 @@
+import { SpatialGrid } from '@/utils/SpatialGrid';
+import { LocalProjection } from '@/utils/LocalProjection';
+import type { GeoJSON, RoadPoint, ObstacleType } from '@/types';
+
+interface BuildingFootprint {
+    type: 'building';
+    ring: RoadPoint[]; // Outer ring in local coordinates (not closed)
+}
+
+interface TreeTrunk {
+    type: 'tree';
+    x: number;
+    z: number;
+    radius: number;
+}
+
+type Obstacle = BuildingFootprint | TreeTrunk;
+
+export interface VehicleCollisionState {
+    x: number;
+    z: number;
+    heading: RoadPoint; // Unit forward direction
+    speed: number; // km/h, negative when reversing
+}
+
+export interface CollisionResult {
+    obstacle: ObstacleType;
+    correction: RoadPoint; // Translation that moves the vehicle out of the obstacle
+    normal: RoadPoint; // Unit contact normal, pointing away from the obstacle
+    contactPoint: RoadPoint;
+    impactAngle: number; // Degrees between travel direction and the obstacle surface normal (0 = head-on)
+    speedFactor: number; // Multiplier applied to the vehicle speed
+    yawDelta: number; // Heading change (radians) that deflects the vehicle along the obstacle
+}
+
+/**
+ * 2D collision world built from building footprints and tree trunks.
+ * The vehicle is approximated by circles along its length; obstacles are stored in a spatial grid.
+ */
+export class CollisionSystem {
+    private grid: SpatialGrid<Obstacle> = new SpatialGrid(25);
+
+    // Vehicle collider: circles placed along the car's centreline
+    private readonly vehicleRadius = 0.65;
+    private readonly vehicleCircleOffsets = [-0.7, 0, 0.7];
+    private readonly treeTrunkRadius = 0.3;
+
+    // Impacts steeper than this (cosine of angle to the normal) stop the car outright
+    private readonly headOnThreshold = 0.8;
+    // Fraction of speed kept while scraping along an obstacle
+    private readonly scrapeFriction = 0.9;
+
+    /**
+     * Add building footprints from a buildings GeoJSON (Polygon and MultiPolygon features)
+     */
+    addBuildingsFromGeoJSON(geoJSON: GeoJSON, centerLat: number, centerLon: number): number {
+        let added = 0;
+        for (const feature of geoJSON.features) {
+            const geometry = feature.geometry;
+            let polygons: Array<Array<Array<[number, number]>>>;
+            if (geometry.type === 'Polygon') {
+                polygons = [geometry.coordinates];
+            } else if (geometry.type === 'MultiPolygon') {
+                polygons = geometry.coordinates;
+            } else {
+                continue;
+            }
+
+            // Holes are ignored: the car can't get into a courtyard through the walls
+            polygons.forEach(([outerRing]) => {
+                const ring = LocalProjection.ringToLocal(outerRing, centerLat, centerLon);
+                if (ring.length < 3) return;
+                this.grid.insert({ type: 'building', ring }, this.ringBounds(ring));
+                added++;
+            });
+        }
+        return added;
+    }
+
+    /**
+     * Add tree trunks from a trees GeoJSON (Point features)
+     */
+    addTreesFromGeoJSON(geoJSON: GeoJSON, centerLat: number, centerLon: number): number {
+        let added = 0;
+        for (const feature of geoJSON.features) {
+            if (feature.geometry.type !== 'Point' || feature.geometry.coordinates.length < 2) continue;
+            const [lon, lat] = feature.geometry.coordinates;
+            const { x, z } = LocalProjection.toLocal(lat, lon, centerLat, centerLon);
+            const radius = this.treeTrunkRadius;
+
+            this.grid.insert({ type: 'tree', x, z, radius }, { minX: x - radius, minZ: z - radius, maxX: x + radius, maxZ: z + radius });
+            added++;
+        }
+        return added;
+    }
+
+    clear(): void {
+        this.grid.clear();
+    }
+
+    getObstacleCount(): number {
+        return this.grid.size;
+    }
+
+    /**
+     * Resolve penetration between a vehicle and nearby obstacles.
+     * Returns null when the vehicle is clear of all obstacles.
+     */
+    resolveVehicle(state: VehicleCollisionState): CollisionResult | null {
+        let totalX = 0;
+        let totalZ = 0;
+        let deepest: { depth: number; normal: RoadPoint; point: RoadPoint; obstacle: ObstacleType; } | null = null;
+
+        // Resolve each collider circle, accumulating the correction so later circles see the moved car
+        for (const offset of this.vehicleCircleOffsets) {
+            const cx = state.x + totalX + state.heading.x * offset;
+            const cz = state.z + totalZ + state.heading.z * offset;
+            const contact = this.resolveCircle(cx, cz, this.vehicleRadius);
+            if (!contact) continue;
+
+            totalX += contact.normal.x * contact.depth;
+            totalZ += contact.normal.z * contact.depth;
+            if (!deepest || contact.depth > deepest.depth) {
+                deepest = contact;
+            }
+        }
+
+        if (!deepest) return null;
+
+        // How directly the car is driving into the obstacle (1 = head-on, 0 = parallel)
+        const travelSign = state.speed < 0 ? -1 : 1;
+        const travelX = state.heading.x * travelSign;
+        const travelZ = state.heading.z * travelSign;
+        const approach = Math.max(0, -(travelX * deepest.normal.x + travelZ * deepest.normal.z));
+        const impactAngle = Math.acos(Math.min(1, approach)) * 180 / Math.PI;
+
+        let speedFactor = 1;
+        let yawDelta = 0;
+        if (approach >= this.headOnThreshold) {
+            speedFactor = 0;
+        } else if (approach > 0) {
+            // Glancing blow: keep the tangential part of the speed and turn the car along the surface
+            speedFactor = (1 - approach) * this.scrapeFriction;
+            // Positive yaw turns the heading from +z towards +x; pick the side that reduces the approach
+            const turnSide = travelZ * deepest.normal.x - travelX * deepest.normal.z;
+            yawDelta = Math.sign(turnSide) * Math.asin(Math.min(1, approach)) * 0.5;
+        }
+
+        return {
+            obstacle: deepest.obstacle,
+            correction: { x: totalX, z: totalZ },
+            normal: deepest.normal,
+            contactPoint: deepest.point,
+            impactAngle,
+            speedFactor,
+            yawDelta
+        };
+    }
+
+    /**
+     * Find the deepest contact between a circle and the obstacles around it
+     */
+    private resolveCircle(x: number, z: number, radius: number): { depth: number; normal: RoadPoint; point: RoadPoint; obstacle: ObstacleType; } | null {
+        let best: { depth: number; normal: RoadPoint; point: RoadPoint; obstacle: ObstacleType; } | null = null;
+
+        for (const obstacle of this.grid.queryRadius(x, z, radius)) {
+            const contact = obstacle.type === 'tree'
+                ? this.circleVsTree(x, z, radius, obstacle)
+                : this.circleVsBuilding(x, z, radius, obstacle);
+            if (contact && (!best || contact.depth > best.depth)) {
+                best = { ...contact, obstacle: obstacle.type };
+            }
+        }
+
+        return best;
+    }
+
+    private circleVsTree(x: number, z: number, radius: number, tree: TreeTrunk): { depth: number; normal: RoadPoint; point: RoadPoint; } | null {
+        const dx = x - tree.x;
+        const dz = z - tree.z;
+        const distance = Math.hypot(dx, dz);
+        const depth = radius + tree.radius - distance;
+        if (depth <= 0) return null;
+
+        const normal = distance > 1e-6 ? { x: dx / distance, z: dz / distance } : { x: 1, z: 0 };
+        return {
+            depth,
+            normal,
+            point: { x: tree.x + normal.x * tree.radius, z: tree.z + normal.z * tree.radius }
+        };
+    }
+
+    private circleVsBuilding(x: number, z: number, radius: number, building: BuildingFootprint): { depth: number; normal: RoadPoint; point: RoadPoint; } | null {
+        const ring = building.ring;
+        let closest: RoadPoint | null = null;
+        let closestDistanceSq = Infinity;
+
+        for (let i = 0; i < ring.length; i++) {
+            const a = ring[i];
+            const b = ring[(i + 1) % ring.length];
+            const dx = b.x - a.x;
+            const dz = b.z - a.z;
+            const lengthSq = dx * dx + dz * dz;
+            const t = lengthSq > 1e-12 ? Math.max(0, Math.min(1, ((x - a.x) * dx + (z - a.z) * dz) / lengthSq)) : 0;
+            const px = a.x + dx * t;
+            const pz = a.z + dz * t;
+            const distanceSq = (x - px) * (x - px) + (z - pz) * (z - pz);
+            if (distanceSq < closestDistanceSq) {
+                closestDistanceSq = distanceSq;
+                closest = { x: px, z: pz };
+            }
+        }
+
+        if (!closest) return null;
+
+        const distance = Math.sqrt(closestDistanceSq);
+        const inside = this.pointInRing(x, z, ring);
+        if (!inside && distance >= radius) return null;
+
+        // Outside: push away from the closest edge point. Inside: push through the closest edge.
+        let nx = (x - closest.x) / (distance || 1);
+        let nz = (z - closest.z) / (distance || 1);
+        if (inside) {
+            nx = -nx;
+            nz = -nz;
+        }
+        if (distance < 1e-6) {
+            nx = 1;
+            nz = 0;
+        }
+
+        return {
+            depth: inside ? distance + radius : radius - distance,
+            normal: { x: nx, z: nz },
+            point: closest
+        };
+    }
+
+    private pointInRing(x: number, z: number, ring: RoadPoint[]): boolean {
+        let inside = false;
+        for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+            const a = ring[i];
+            const b = ring[j];
+            if ((a.z > z) !== (b.z > z) && x < (b.x - a.x) * (z - a.z) / (b.z - a.z) + a.x) {
+                inside = !inside;
+            }
+        }
+        return inside;
+    }
+
+    private ringBounds(ring: RoadPoint[]): { minX: number; minZ: number; maxX: number; maxZ: number; } {
+        let minX = Infinity;
+        let minZ = Infinity;
+        let maxX = -Infinity;
+        let maxZ = -Infinity;
+        ring.forEach(point => {
+            minX = Math.min(minX, point.x);
+            minZ = Math.min(minZ, point.z);
+            maxX = Math.max(maxX, point.x);
+            maxZ = Math.max(maxZ, point.z);
+        });
+        return { minX, minZ, maxX, maxZ };
+    }
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { CollisionSystem } from '../CollisionSystem';
+import { LocalProjection } from '@/utils/LocalProjection';
+import type { GeoJSON } from '@/types';
+
+const centerLat = 35.9;
+const centerLon = 14.4;
+
+/**
+ * Closed [lon, lat] ring of a square about 10 m across, west edge at a longitude
+ */
+function square(lon: number): Array<[number, number]> {
+    return [[lon, 35.9], [lon + 0.0001, 35.9], [lon + 0.0001, 35.8999], [lon, 35.8999], [lon, 35.9]];
+}
+
+const buildings: GeoJSON = {
+    type: 'FeatureCollection',
+    features: [
+        {
+            type: 'Feature',
+            properties: { building: 'yes' },
+            geometry: { type: 'Polygon', coordinates: [square(14.4)] }
+        },
+        {
+            type: 'Feature',
+            properties: { building: 'yes' },
+            geometry: { type: 'MultiPolygon', coordinates: [[square(14.401)], [square(14.402)]] }
+        }
+    ]
+};
+
+/**
+ * Local position of the middle of a square
+ */
+function middle(lon: number) {
+    return LocalProjection.toLocal(35.89995, lon + 0.00005, centerLat, centerLon);
+}
+
+describe('CollisionSystem', () => {
+    it('adds a footprint for every part of a building', () => {
+        const collisions = new CollisionSystem();
+
+        expect(collisions.addBuildingsFromGeoJSON(buildings, centerLat, centerLon)).toBe(3);
+        expect(collisions.getObstacleCount()).toBe(3);
+    });
+
+    it('pushes the car out of each part of a multipolygon building', () => {
+        const collisions = new CollisionSystem();
+        collisions.addBuildingsFromGeoJSON(buildings, centerLat, centerLon);
+
+        [14.401, 14.402].forEach(lon => {
+            const { x, z } = middle(lon);
+            const result = collisions.resolveVehicle({ x: x - 5, z, heading: { x: 1, z: 0 }, speed: 20 });
+            expect(result?.obstacle).toBe('building');
+            expect(result!.correction.x).toBeLessThan(0);
+        });
+        const { x, z } = middle(14.4015);
+        expect(collisions.resolveVehicle({ x, z, heading: { x: 1, z: 0 }, speed: 20 })).toBeNull();
+    });
+});
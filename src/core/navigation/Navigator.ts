@@ -0,0 +1,279 @@
+import { RoutePlanner } from './RoutePlanner';
+import type { PlannedRoute, RouteManoeuvre } from './RoutePlanner';
+import type { RoadNetwork } from '../network/RoadNetwork';
+import type { RoadPoint, RouteMode, NavigationState } from '@/types';
+
+export type RouteChangeCallback = (route: PlannedRoute | null) => void;
+
+/**
+ * Turn-by-turn navigation: tracks the driver's progress along a planned route,
+ * produces the next instruction and re-plans when the driver leaves the route.
+ */
+export class Navigator {
+    private planner: RoutePlanner;
+    private route: PlannedRoute | null = null;
+    private destination: RoadPoint | null = null;
+    private destinationName: string = '';
+    private mode: RouteMode = 'fastest';
+    private progress: number = 0; // Distance travelled along the current route (meters)
+    private offRouteTime: number = 0;
+    private timeSinceReroute: number = 0;
+    private arrived: boolean = false;
+    private routeChangeCallbacks: RouteChangeCallback[] = [];
+
+    private readonly offRouteDistance = 25; // meters from the route before counting as off-route
+    private readonly offRouteDelay = 1.5; // seconds off-route before re-planning
+    private readonly minRerouteInterval = 3; // seconds between re-plans
+    private readonly arrivalDistance = 15; // meters
+
+    constructor(private network: RoadNetwork) {
+        this.planner = new RoutePlanner(network);
+    }
+
+    /**
+     * Plan a route to a destination point. Returns false when no route exists.
+     */
+    setDestination(destination: RoadPoint, name: string, position: RoadPoint, heading: RoadPoint): boolean {
+        const route = this.planner.planRoute(position, destination, this.mode, heading);
+        if (!route) return false;
+
+        this.destination = { ...destination };
+        this.destinationName = name;
+        this.arrived = false;
+        this.setRoute(route);
+        return true;
+    }
+
+    /**
+     * Plan a route to the middle of a named street
+     */
+    setDestinationByName(name: string, position: RoadPoint, heading: RoadPoint): boolean {
+        const destination = this.findStreetPoint(name);
+        return destination ? this.setDestination(destination, name, position, heading) : false;
+    }
+
+    setMode(mode: RouteMode, position?: RoadPoint, heading?: RoadPoint): void {
+        this.mode = mode;
+        if (this.destination && position && heading && !this.arrived) {
+            this.reroute(position, heading);
+        }
+    }
+
+    getMode(): RouteMode {
+        return this.mode;
+    }
+
+    getRoute(): PlannedRoute | null {
+        return this.route;
+    }
+
+    isActive(): boolean {
+        return this.destination !== null;
+    }
+
+    clear(): void {
+        this.destination = null;
+        this.destinationName = '';
+        this.arrived = false;
+        this.setRoute(null);
+    }
+
+    onRouteChange(callback: RouteChangeCallback): void {
+        this.routeChangeCallbacks.push(callback);
+    }
+
+    /**
+     * Sorted list of distinct street names in the network
+     */
+    getStreetNames(): string[] {
+        const names = new Set<string>();
+        this.network.getEdges().forEach(edge => {
+            if (edge.properties.name) names.add(edge.properties.name);
+        });
+        return [...names].sort((a, b) => a.localeCompare(b));
+    }
+
+    /**
+     * Advance navigation for the current car position and heading
+     */
+    update(position: RoadPoint, heading: RoadPoint, delta: number): NavigationState | null {
+        if (!this.destination) return null;
+        this.timeSinceReroute += delta;
+
+        if (this.arrived || !this.route) {
+            return this.buildState(null, 0);
+        }
+
+        const { distance, along } = this.projectOntoRoute(position);
+        this.progress = along;
+
+        // Re-plan after the driver has been away from the route for a while
+        if (distance > this.offRouteDistance) {
+            this.offRouteTime += delta;
+            if (this.offRouteTime >= this.offRouteDelay && this.timeSinceReroute >= this.minRerouteInterval) {
+                this.reroute(position, heading);
+                return this.buildState(this.getNextManoeuvre(), distance);
+            }
+        } else {
+            this.offRouteTime = 0;
+        }
+
+        const remaining = this.route.length - this.progress;
+        const distanceToDestination = Math.hypot(position.x - this.route.destination.x, position.z - this.route.destination.z);
+        if (remaining <= this.arrivalDistance && distanceToDestination <= this.arrivalDistance * 2) {
+            this.arrived = true;
+            this.setRoute(null);
+            return this.buildState(null, 0);
+        }
+
+        return this.buildState(this.getNextManoeuvre(), distance);
+    }
+
+    private reroute(position: RoadPoint, heading: RoadPoint): void {
+        if (!this.destination) return;
+        this.timeSinceReroute = 0;
+        this.offRouteTime = 0;
+        const route = this.planner.planRoute(position, this.destination, this.mode, heading);
+        if (route) {
+            this.setRoute(route);
+        }
+    }
+
+    private setRoute(route: PlannedRoute | null): void {
+        this.route = route;
+        this.progress = 0;
+        this.offRouteTime = 0;
+        this.routeChangeCallbacks.forEach(callback => callback(route));
+    }
+
+    /**
+     * First manoeuvre that is still ahead of the driver
+     */
+    private getNextManoeuvre(): RouteManoeuvre | null {
+        if (!this.route) return null;
+        // Skip the departure instruction; a starting U-turn stays until the driver is under way
+        return this.route.manoeuvres.find(manoeuvre =>
+            manoeuvre.type !== 'depart' &&
+            (manoeuvre.distance > this.progress + 1 || (manoeuvre.type === 'u-turn' && this.progress < 5))
+        ) ?? this.route.manoeuvres[this.route.manoeuvres.length - 1];
+    }
+
+    /**
+     * Project a position onto the route polyline, favouring points near the previous progress
+     */
+    private projectOntoRoute(position: RoadPoint): { distance: number; along: number; } {
+        const route = this.route!;
+        let bestDistance = Infinity;
+        let bestAlong = this.progress;
+
+        for (let i = 0; i < route.points.length - 1; i++) {
+            // Ignore sections well behind the driver so overlapping routes don't jump backwards
+            if (route.cumulativeDistances[i + 1] < this.progress - 30) continue;
+
+            const a = route.points[i];
+            const b = route.points[i + 1];
+            const dx = b.x - a.x;
+            const dz = b.z - a.z;
+            const lengthSq = dx * dx + dz * dz;
+            if (lengthSq < 1e-9) continue;
+
+            const t = Math.max(0, Math.min(1, ((position.x - a.x) * dx + (position.z - a.z) * dz) / lengthSq));
+            const distance = Math.hypot(position.x - (a.x + dx * t), position.z - (a.z + dz * t));
+            if (distance < bestDistance - 0.5) {
+                bestDistance = distance;
+                bestAlong = route.cumulativeDistances[i] + Math.sqrt(lengthSq) * t;
+            }
+        }
+
+        return { distance: bestDistance, along: bestAlong };
+    }
+
+    private buildState(manoeuvre: RouteManoeuvre | null, distanceFromRoute: number): NavigationState {
+        const route = this.route;
+        const remainingDistance = route ? Math.max(0, route.length - this.progress) : 0;
+        const remainingTime = route && route.length > 0 ? route.duration * (remainingDistance / route.length) : 0;
+        const distanceToManoeuvre = manoeuvre ? Math.max(0, manoeuvre.distance - this.progress) : 0;
+
+        return {
+            destinationName: this.destinationName,
+            mode: this.mode,
+            instruction: this.arrived
+                ? `You have arrived at ${this.destinationName}`
+                : Navigator.formatInstruction(manoeuvre, distanceToManoeuvre),
+            manoeuvre: this.arrived ? 'arrive' : manoeuvre?.type ?? 'continue',
+            roadName: manoeuvre?.roadName,
+            distanceToManoeuvre,
+            remainingDistance,
+            remainingTime,
+            offRoute: distanceFromRoute > this.offRouteDistance,
+            arrived: this.arrived
+        };
+    }
+
+    /**
+     * Find a representative point on a named street (the point closest to its centroid)
+     */
+    private findStreetPoint(name: string): RoadPoint | null {
+        const edges = this.network.getEdges().filter(edge => edge.properties.name === name);
+        if (edges.length === 0) return null;
+
+        let sumX = 0;
+        let sumZ = 0;
+        let count = 0;
+        edges.forEach(edge => edge.points.forEach(point => {
+            sumX += point.x;
+            sumZ += point.z;
+            count++;
+        }));
+        const centroid = { x: sumX / count, z: sumZ / count };
+
+        let best: RoadPoint | null = null;
+        let bestDistance = Infinity;
+        edges.forEach(edge => {
+            const hit = this.network.projectOntoEdge(edge, centroid.x, centroid.z);
+            if (hit.distance < bestDistance) {
+                bestDistance = hit.distance;
+                best = hit.point;
+            }
+        });
+        return best;
+    }
+
+    /**
+     * Format a distance for spoken-style instructions ("120 m", "1.4 km")
+     */
+    static formatDistance(meters: number): string {
+        if (meters >= 1000) {
+            return `${(meters / 1000).toFixed(1)} km`;
+        }
+        const step = meters >= 100 ? 50 : 10;
+        return `${Math.max(step, Math.round(meters / step) * step)} m`;
+    }
+
+    /**
+     * Build the instruction text for a manoeuvre, e.g. "In 120 m turn left onto Triq il-Kbira"
+     */
+    static formatInstruction(manoeuvre: RouteManoeuvre | null, distance: number): string {
+        if (!manoeuvre) return 'Follow the route';
+
+        const onto = manoeuvre.roadName ? ` onto ${manoeuvre.roadName}` : '';
+        let action: string;
+        switch (manoeuvre.type) {
+            case 'slight-left': action = `bear left${onto}`; break;
+            case 'left': action = `turn left${onto}`; break;
+            case 'sharp-left': action = `turn sharp left${onto}`; break;
+            case 'slight-right': action = `bear right${onto}`; break;
+            case 'right': action = `turn right${onto}`; break;
+            case 'sharp-right': action = `turn sharp right${onto}`; break;
+            case 'u-turn': action = 'make a U-turn'; break;
+            case 'arrive': action = 'arrive at your destination'; break;
+            case 'depart': action = `head along${manoeuvre.roadName ? ` ${manoeuvre.roadName}` : ' the road'}`; break;
+            default: action = `continue${onto}`;
+        }
+
+        if (distance < 20) {
+            return action.charAt(0).toUpperCase() + action.slice(1);
+        }
+        return `In ${Navigator.formatDistance(distance)} ${action}`;
+    }
+}
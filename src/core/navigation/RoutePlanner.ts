@@ -0,0 +1,371 @@
+import { SpeedLimits } from '../rules/SpeedLimits';
+import type { RoadNetwork, RoadEdge } from '../network/RoadNetwork';
+import type { RoadPoint, RouteMode, ManoeuvreType } from '@/types';
+
+export interface RouteManoeuvre {
+    type: ManoeuvreType;
+    distance: number; // Distance from the route start, in meters
+    point: RoadPoint;
+    roadName?: string;
+}
+
+export interface PlannedRoute {
+    mode: RouteMode;
+    edges: RoadEdge[];
+    points: RoadPoint[]; // Route polyline in local coordinates
+    cumulativeDistances: number[]; // Distance from the start to each point
+    length: number; // meters
+    duration: number; // seconds
+    manoeuvres: RouteManoeuvre[];
+    destination: RoadPoint;
+}
+
+interface RouteEndpoint {
+    edge: RoadEdge;
+    distanceAlong: number;
+    uTurn?: boolean; // Starting endpoint that requires turning around
+}
+
+interface SearchEntry {
+    priority: number;
+    cost: number;
+    nodeId: number; // -1 for a finished route
+    finish?: RouteEndpoint;
+    start?: RouteEndpoint; // Set when start and finish lie on the same edge
+}
+
+/**
+ * Minimal binary min-heap keyed on entry priority
+ */
+class SearchQueue {
+    private heap: SearchEntry[] = [];
+
+    get size(): number {
+        return this.heap.length;
+    }
+
+    push(entry: SearchEntry): void {
+        this.heap.push(entry);
+        let i = this.heap.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (this.heap[parent].priority <= this.heap[i].priority) break;
+            [this.heap[parent], this.heap[i]] = [this.heap[i], this.heap[parent]];
+            i = parent;
+        }
+    }
+
+    pop(): SearchEntry | undefined {
+        const top = this.heap[0];
+        const last = this.heap.pop();
+        if (this.heap.length > 0 && last) {
+            this.heap[0] = last;
+            let i = 0;
+            for (; ;) {
+                const left = i * 2 + 1;
+                const right = left + 1;
+                let smallest = i;
+                if (left < this.heap.length && this.heap[left].priority < this.heap[smallest].priority) smallest = left;
+                if (right < this.heap.length && this.heap[right].priority < this.heap[smallest].priority) smallest = right;
+                if (smallest === i) break;
+                [this.heap[smallest], this.heap[i]] = [this.heap[i], this.heap[smallest]];
+                i = smallest;
+            }
+        }
+        return top;
+    }
+}
+
+/**
+ * A* route planning over the road network, respecting one-way restrictions
+ */
+export class RoutePlanner {
+    // Maximum distance (meters) between a requested point and the road it snaps to
+    private readonly maxSnapDistance = 200;
+    // Cost added for starting with a U-turn, in meters (or seconds for the fastest mode)
+    private readonly uTurnPenalty = 50;
+
+    // Typical travel speeds (km/h) used when a road has no maxspeed tag
+    private readonly defaultSpeeds: Record<string, number> = {
+        motorway: 100,
+        trunk: 80,
+        primary: 60,
+        secondary: 50,
+        tertiary: 45,
+        unclassified: 40,
+        residential: 30,
+        living_street: 15
+    };
+
+    // Fastest speed (m/s) on any road, so the fastest-mode heuristic never overestimates
+    private readonly maxSpeed: number;
+
+    constructor(private network: RoadNetwork) {
+        this.maxSpeed = network.getEdges().reduce((max, edge) => Math.max(max, this.getTravelSpeed(edge)), 30) / 3.6;
+    }
+
+    /**
+     * Plan a route from a position (optionally with a heading) to a destination point
+     */
+    planRoute(from: RoadPoint, to: RoadPoint, mode: RouteMode, heading?: RoadPoint): PlannedRoute | null {
+        const startHit = this.network.findNearestEdge(from.x, from.z, this.maxSnapDistance, heading);
+        const destinationHit = this.network.findNearestEdge(to.x, to.z, this.maxSnapDistance);
+        if (!startHit || !destinationHit) return null;
+
+        // Starting candidates: continue along the snapped edge, or turn around onto its twin
+        const starts: RouteEndpoint[] = [
+            { edge: startHit.edge, distanceAlong: startHit.distanceAlong }
+        ];
+        const startTwin = this.getTwin(startHit.edge);
+        if (startTwin) {
+            starts.push({ edge: startTwin, distanceAlong: startTwin.length - startHit.distanceAlong, uTurn: true });
+        }
+
+        // Destination candidates: the snapped edge in either legal direction
+        const finishes: RouteEndpoint[] = [{ edge: destinationHit.edge, distanceAlong: destinationHit.distanceAlong }];
+        const destinationTwin = this.getTwin(destinationHit.edge);
+        if (destinationTwin) {
+            finishes.push({ edge: destinationTwin, distanceAlong: destinationTwin.length - destinationHit.distanceAlong });
+        }
+        const finishesByNode = new Map<number, RouteEndpoint[]>();
+        finishes.forEach(finish => {
+            const list = finishesByNode.get(finish.edge.from) ?? [];
+            list.push(finish);
+            finishesByNode.set(finish.edge.from, list);
+        });
+
+        const target = destinationHit.point;
+        const heuristic = (nodeId: number): number => {
+            const node = this.network.getNode(nodeId)!;
+            const distance = Math.hypot(node.x - target.x, node.z - target.z);
+            return mode === 'fastest' ? distance / this.maxSpeed : distance;
+        };
+
+        const queue = new SearchQueue();
+        const bestCost = new Map<number, number>();
+        const cameFrom = new Map<number, { edge: RoadEdge; start?: RouteEndpoint; }>();
+
+        starts.forEach(start => {
+            const penalty = start.uTurn ? this.uTurnPenalty : 0;
+
+            // Destination further along the same edge: no graph search needed
+            const sameEdgeFinish = finishes.find(finish => finish.edge.id === start.edge.id && finish.distanceAlong >= start.distanceAlong);
+            if (sameEdgeFinish) {
+                const cost = this.edgeCost(start.edge, sameEdgeFinish.distanceAlong - start.distanceAlong, mode) + penalty;
+                queue.push({ priority: cost, cost, nodeId: -1, finish: sameEdgeFinish, start });
+            }
+
+            const cost = this.edgeCost(start.edge, start.edge.length - start.distanceAlong, mode) + penalty;
+            const nodeId = start.edge.to;
+            if (cost < (bestCost.get(nodeId) ?? Infinity)) {
+                bestCost.set(nodeId, cost);
+                cameFrom.set(nodeId, { edge: start.edge, start });
+                queue.push({ priority: cost + heuristic(nodeId), cost, nodeId });
+            }
+        });
+
+        while (queue.size > 0) {
+            const entry = queue.pop()!;
+
+            if (entry.finish) {
+                return this.buildRoute(entry.finish, entry.start, cameFrom, mode);
+            }
+            if (entry.cost > (bestCost.get(entry.nodeId) ?? Infinity)) continue;
+
+            // Reaching the start of a destination edge lets us finish the route
+            (finishesByNode.get(entry.nodeId) ?? []).forEach(finish => {
+                const cost = entry.cost + this.edgeCost(finish.edge, finish.distanceAlong, mode);
+                queue.push({ priority: cost, cost, nodeId: -1, finish });
+            });
+
+            for (const edge of this.network.getOutgoingEdges(entry.nodeId)) {
+                const cost = entry.cost + this.edgeCost(edge, edge.length, mode);
+                if (cost < (bestCost.get(edge.to) ?? Infinity)) {
+                    bestCost.set(edge.to, cost);
+                    cameFrom.set(edge.to, { edge });
+                    queue.push({ priority: cost + heuristic(edge.to), cost, nodeId: edge.to });
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Reconstruct the edge sequence and derive the route geometry and manoeuvres
+     */
+    private buildRoute(
+        finish: RouteEndpoint,
+        start: RouteEndpoint | undefined,
+        cameFrom: Map<number, { edge: RoadEdge; start?: RouteEndpoint; }>,
+        mode: RouteMode
+    ): PlannedRoute | null {
+        // Walk back from the destination edge to the starting edge (unless both are the same edge)
+        const middle: RoadEdge[] = [];
+        let nodeId = finish.edge.from;
+        while (!start) {
+            const step = cameFrom.get(nodeId);
+            if (!step) return null;
+            if (step.start) {
+                start = step.start;
+            } else {
+                middle.unshift(step.edge);
+                nodeId = step.edge.from;
+            }
+        }
+
+        const points: RoadPoint[] = [];
+        const transitions: number[] = []; // Point index where each following edge begins
+        const appendSection = (section: RoadPoint[]): void => {
+            section.forEach(point => {
+                const last = points[points.length - 1];
+                if (!last || Math.hypot(last.x - point.x, last.z - point.z) > 0.01) {
+                    points.push(point);
+                }
+            });
+        };
+
+        let edges: RoadEdge[];
+        let duration: number;
+        if (middle.length === 0 && start.edge.id === finish.edge.id && finish.distanceAlong >= start.distanceAlong) {
+            edges = [start.edge];
+            appendSection(this.network.getEdgeSection(start.edge, start.distanceAlong, finish.distanceAlong));
+            duration = this.edgeCost(start.edge, finish.distanceAlong - start.distanceAlong, 'fastest');
+        } else {
+            edges = [start.edge, ...middle, finish.edge];
+            appendSection(this.network.getEdgeSection(start.edge, start.distanceAlong, start.edge.length));
+            duration = this.edgeCost(start.edge, start.edge.length - start.distanceAlong, 'fastest');
+            middle.forEach(edge => {
+                transitions.push(points.length - 1);
+                appendSection(edge.points);
+                duration += this.edgeCost(edge, edge.length, 'fastest');
+            });
+            transitions.push(points.length - 1);
+            appendSection(this.network.getEdgeSection(finish.edge, 0, finish.distanceAlong));
+            duration += this.edgeCost(finish.edge, finish.distanceAlong, 'fastest');
+        }
+
+        if (points.length < 2) {
+            points.push({ ...points[0] });
+        }
+
+        const cumulativeDistances: number[] = [0];
+        for (let i = 1; i < points.length; i++) {
+            cumulativeDistances.push(cumulativeDistances[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].z - points[i - 1].z));
+        }
+
+        return {
+            mode,
+            edges,
+            points,
+            cumulativeDistances,
+            length: cumulativeDistances[cumulativeDistances.length - 1],
+            duration,
+            manoeuvres: this.buildManoeuvres(edges, points, cumulativeDistances, transitions, start.uTurn === true),
+            destination: points[points.length - 1]
+        };
+    }
+
+    /**
+     * Derive turn instructions from the change of direction between consecutive edges
+     */
+    private buildManoeuvres(
+        edges: RoadEdge[],
+        points: RoadPoint[],
+        cumulativeDistances: number[],
+        transitions: number[],
+        startsWithUTurn: boolean
+    ): RouteManoeuvre[] {
+        const manoeuvres: RouteManoeuvre[] = [];
+        const firstName = edges[0]?.properties.name;
+
+        manoeuvres.push({
+            type: startsWithUTurn ? 'u-turn' : 'depart',
+            distance: 0,
+            point: points[0],
+            roadName: firstName
+        });
+
+        let currentName = firstName;
+        transitions.forEach((pointIndex, i) => {
+            const incoming = edges[i];
+            const outgoing = edges[i + 1];
+            if (!incoming || !outgoing) return;
+
+            const inDirection = this.segmentDirection(incoming.points, incoming.points.length - 2);
+            const outDirection = this.segmentDirection(outgoing.points, 0);
+            // Positive angle turns left (left of (dx, dz) is (dz, -dx))
+            const cross = outDirection.x * inDirection.z - outDirection.z * inDirection.x;
+            const dot = outDirection.x * inDirection.x + outDirection.z * inDirection.z;
+            const angle = Math.atan2(cross, dot) * 180 / Math.PI;
+
+            const nextName = outgoing.properties.name;
+            const nameChanged = nextName !== undefined && nextName !== currentName;
+            const isJunction = this.network.getNodeDegree(incoming.to) > 2;
+            const type = this.classifyTurn(angle);
+
+            if ((type !== 'continue' && (isJunction || Math.abs(angle) >= 60)) || (nameChanged && isJunction)) {
+                manoeuvres.push({
+                    type,
+                    distance: cumulativeDistances[pointIndex],
+                    point: points[pointIndex],
+                    roadName: nextName
+                });
+            }
+            if (nextName !== undefined) {
+                currentName = nextName;
+            }
+        });
+
+        manoeuvres.push({
+            type: 'arrive',
+            distance: cumulativeDistances[cumulativeDistances.length - 1] ?? 0,
+            point: points[points.length - 1],
+            roadName: edges[edges.length - 1]?.properties.name
+        });
+
+        return manoeuvres;
+    }
+
+    private classifyTurn(angle: number): ManoeuvreType {
+        const magnitude = Math.abs(angle);
+        const left = angle > 0;
+        if (magnitude < 25) return 'continue';
+        if (magnitude < 60) return left ? 'slight-left' : 'slight-right';
+        if (magnitude < 120) return left ? 'left' : 'right';
+        if (magnitude < 165) return left ? 'sharp-left' : 'sharp-right';
+        return 'u-turn';
+    }
+
+    private segmentDirection(points: RoadPoint[], index: number): RoadPoint {
+        const i = Math.max(0, Math.min(points.length - 2, index));
+        const dx = points[i + 1].x - points[i].x;
+        const dz = points[i + 1].z - points[i].z;
+        const length = Math.hypot(dx, dz) || 1;
+        return { x: dx / length, z: dz / length };
+    }
+
+    private getTwin(edge: RoadEdge): RoadEdge | null {
+        return edge.twinId !== null ? this.network.getEdge(edge.twinId) ?? null : null;
+    }
+
+    /**
+     * Cost of travelling a distance along an edge: meters, or seconds in the fastest mode
+     */
+    private edgeCost(edge: RoadEdge, distance: number, mode: RouteMode): number {
+        if (mode === 'shortest') return distance;
+        return distance / (this.getTravelSpeed(edge) / 3.6);
+    }
+
+    /**
+     * Expected travel speed (km/h) on an edge from its maxspeed tag or highway type
+     */
+    getTravelSpeed(edge: RoadEdge): number {
+        const maxspeed = SpeedLimits.parseMaxSpeed(edge.properties.maxspeed);
+        if (maxspeed !== null) {
+            return maxspeed;
+        }
+        const highway = edge.properties.highway.replace('_link', '');
+        return this.defaultSpeeds[highway] ?? 30;
+    }
+}
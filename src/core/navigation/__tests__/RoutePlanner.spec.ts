@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { RoutePlanner } from '../RoutePlanner';
+import { RoadNetwork } from '../../network/RoadNetwork';
+import type { GeoJSON, RoadPoint } from '@/types';
+import fixture from '../../network/__tests__/fixtures/roads.json';
+
+// A --- B --- C    Two 90 m blocks wide and 111 m deep; B-E is one-way southbound
+// |     |     |    and A-D a footway
+// D --- E --- F
+const network = RoadNetwork.fromGeoJSON(fixture as unknown as GeoJSON, 35.9, 14.4);
+const planner = new RoutePlanner(network);
+
+const point = (lon: number, lat: number): RoadPoint => {
+    const node = network.getNodeAtCoordinate(lon, lat)!;
+    return { x: node.x, z: node.z };
+};
+const between = (a: RoadPoint, b: RoadPoint): RoadPoint => ({ x: (a.x + b.x) / 2, z: (a.z + b.z) / 2 });
+
+const A = point(14.4, 35.9);
+const B = point(14.401, 35.9);
+const D = point(14.4, 35.899);
+const E = point(14.401, 35.899);
+const east = { x: 1, z: 0 };
+
+const blockWidth = Math.hypot(B.x - A.x, B.z - A.z);
+const blockDepth = Math.hypot(E.x - B.x, E.z - B.z);
+
+describe('RoutePlanner', () => {
+    it('takes the shortest path through the network', () => {
+        const route = planner.planRoute(between(A, B), between(D, E), 'shortest', east)!;
+
+        // Down the one-way street rather than round the block
+        expect(route.edges.map(edge => edge.wayId)).toEqual(['way/1', 'way/2', 'way/3']);
+        expect(route.length).toBeCloseTo(blockWidth / 2 + blockDepth + blockWidth / 2, 0);
+        expect(route.manoeuvres[0].type).toBe('depart');
+        expect(route.manoeuvres[route.manoeuvres.length - 1].type).toBe('arrive');
+    });
+
+    it('does not drive against a one-way street', () => {
+        const route = planner.planRoute(between(D, E), between(A, B), 'shortest', east)!;
+
+        // Round by C and F, since B-E only runs south and A-D is a footway
+        expect(route.edges.map(edge => edge.wayId)).not.toContain('way/2');
+        expect(route.edges.map(edge => edge.wayId)).toContain('way/4');
+        expect(route.length).toBeCloseTo(blockWidth / 2 + blockWidth + blockDepth + blockWidth + blockWidth / 2, 0);
+    });
+
+    it('stays on the edge when the destination is further along it', () => {
+        const route = planner.planRoute(A, B, 'shortest', east)!;
+
+        expect(route.edges).toHaveLength(1);
+        expect(route.length).toBeCloseTo(blockWidth, 0);
+    });
+
+    it('finds no route to a point far from any road', () => {
+        expect(planner.planRoute(A, { x: A.x + 5000, z: A.z }, 'shortest')).toBeNull();
+    });
+});
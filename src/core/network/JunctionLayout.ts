@@ -0,0 +1,265 @@
+import type { RoadPoint } from '@/types';
+import type { OneWayDirection } from './RoadNetwork';
+
+/**
+ * A rendered road way as seen by the junction layout
+ */
+export interface JunctionWay {
+    points: RoadPoint[]; // Local coordinates
+    keys: string[]; // Coordinate keys (RoadNetwork.coordinateKey) matching `points`
+    highway: string;
+    halfWidth: number; // meters
+    oneway: OneWayDirection;
+    roundabout?: boolean; // Part of a roundabout's circulating carriageway
+}
+
+/**
+ * One road leaving a junction
+ */
+export interface JunctionArm {
+    wayIndex: number;
+    vertexIndex: number; // Index of the junction coordinate in the way
+    forward: boolean; // True if the arm follows the way's coordinate order away from the junction
+    direction: RoadPoint; // Unit vector from the junction centre along the arm
+    halfWidth: number;
+    highway: string;
+    rank: number; // Position in the highway hierarchy (higher = more important)
+    inbound: boolean; // Traffic on this arm may drive into the junction
+    twoWay: boolean; // Traffic flows both ways (the approach uses only the driving-side half)
+    roundabout: boolean; // Circulating carriageway of a roundabout (has priority over entries)
+    trim: number; // Distance along the way from the centre to the junction boundary
+    boundary: RoadPoint; // Point on the way's centreline at the junction boundary
+    boundaryDirection: RoadPoint; // Unit direction of the way at the boundary, pointing away from the junction
+}
+
+export interface Junction {
+    key: string;
+    center: RoadPoint;
+    arms: JunctionArm[]; // Sorted counter-clockwise by angle (atan2(z, x))
+    majorRank: number; // Highest rank among the arms
+    roundabout: boolean; // An entry or exit of a roundabout
+}
+
+/**
+ * Finds the junctions where three or more road arms meet and works out how far each
+ * arm's road strip must stop short of the centre so the strips don't overlap. The road
+ * renderer fills the space inside the arm boundaries with a single junction polygon.
+ * Pure geometry, no Three.js dependency.
+ */
+export class JunctionLayout {
+    // Highway hierarchy used to decide which arms must give way
+    private static readonly HIGHWAY_RANKS: Record<string, number> = {
+        motorway: 6,
+        trunk: 5,
+        primary: 4,
+        secondary: 3,
+        tertiary: 2,
+        unclassified: 1,
+        residential: 1,
+        road: 1,
+        living_street: 0
+    };
+
+    private static readonly directionLookAhead = 6; // meters along an arm used to measure its direction
+    private static readonly trimMargin = 0.5; // meters added beyond where neighbouring strips separate
+    private static readonly maxTrimFraction = 0.45; // of the way section next to the junction
+    private static readonly maxTrim = 12; // meters; sharper merges are left to overlap
+
+    private junctions: Map<string, Junction> = new Map();
+    private arms: Map<string, JunctionArm> = new Map();
+    private sections: Map<JunctionArm, { points: RoadPoint[]; length: number; }> = new Map(); // Only while laying out
+
+    private constructor() { }
+
+    /**
+     * Find the junctions between a set of ways
+     */
+    static build(ways: JunctionWay[]): JunctionLayout {
+        const layout = new JunctionLayout();
+
+        // Count the arms meeting at each coordinate (a way passing through contributes two)
+        const armCounts = new Map<string, number>();
+        ways.forEach(way => {
+            way.keys.forEach((key, index) => {
+                const arms = (index > 0 ? 1 : 0) + (index < way.keys.length - 1 ? 1 : 0);
+                armCounts.set(key, (armCounts.get(key) ?? 0) + arms);
+            });
+        });
+        const isJunction = (key: string) => (armCounts.get(key) ?? 0) >= 3;
+
+        ways.forEach((way, wayIndex) => {
+            way.keys.forEach((key, vertexIndex) => {
+                if (!isJunction(key)) return;
+                let junction = layout.junctions.get(key);
+                if (!junction) {
+                    junction = { key, center: { ...way.points[vertexIndex] }, arms: [], majorRank: 0, roundabout: false };
+                    layout.junctions.set(key, junction);
+                }
+                if (vertexIndex > 0) junction.arms.push(layout.createArm(way, wayIndex, vertexIndex, false, isJunction));
+                if (vertexIndex < way.points.length - 1) junction.arms.push(layout.createArm(way, wayIndex, vertexIndex, true, isJunction));
+            });
+        });
+
+        layout.junctions.forEach(junction => layout.layOut(junction));
+        return layout;
+    }
+
+    /**
+     * Rank of a highway type in the hierarchy (links rank with their road)
+     */
+    static getRank(highway: string): number {
+        return JunctionLayout.HIGHWAY_RANKS[highway.replace('_link', '')] ?? 0;
+    }
+
+    getJunctions(): Junction[] {
+        return [...this.junctions.values()];
+    }
+
+    getJunction(key: string): Junction | undefined {
+        return this.junctions.get(key);
+    }
+
+    isJunction(key: string): boolean {
+        return this.junctions.has(key);
+    }
+
+    /**
+     * Distance a way's strip stops short of the junction at one of its coordinates
+     * (0 if the coordinate is not a junction). `forward` selects the arm that follows
+     * the way's coordinate order away from the junction.
+     */
+    getTrim(wayIndex: number, vertexIndex: number, forward: boolean): number {
+        return this.arms.get(JunctionLayout.armKey(wayIndex, vertexIndex, forward))?.trim ?? 0;
+    }
+
+    private createArm(way: JunctionWay, wayIndex: number, vertexIndex: number, forward: boolean, isJunction: (key: string) => boolean): JunctionArm {
+        // The way section from this junction to the next junction (or the way's end)
+        const section: RoadPoint[] = [way.points[vertexIndex]];
+        const step = forward ? 1 : -1;
+        for (let i = vertexIndex + step; i >= 0 && i < way.points.length; i += step) {
+            section.push(way.points[i]);
+            if (isJunction(way.keys[i])) break;
+        }
+
+        const sectionLength = JunctionLayout.polylineLength(section);
+        const ahead = JunctionLayout.pointAtDistance(section, Math.min(JunctionLayout.directionLookAhead, sectionLength)).point;
+        const center = way.points[vertexIndex];
+        const direction = JunctionLayout.normalize({ x: ahead.x - center.x, z: ahead.z - center.z });
+
+        // Traffic drives into the junction along this arm unless the way is one-way away from it
+        const inbound = way.oneway === 'no' || way.oneway === 'reversible' ||
+            (forward ? way.oneway === 'backward' : way.oneway === 'forward');
+
+        const arm: JunctionArm = {
+            wayIndex,
+            vertexIndex,
+            forward,
+            direction,
+            halfWidth: way.halfWidth,
+            highway: way.highway,
+            rank: JunctionLayout.getRank(way.highway),
+            inbound,
+            twoWay: way.oneway === 'no',
+            roundabout: way.roundabout === true,
+            trim: 0,
+            boundary: { ...center },
+            boundaryDirection: direction
+        };
+        this.sections.set(arm, { points: section, length: sectionLength });
+        this.arms.set(JunctionLayout.armKey(wayIndex, vertexIndex, forward), arm);
+        return arm;
+    }
+
+    /**
+     * Sort the arms around the centre and trim each one back to where it no longer
+     * overlaps its neighbours
+     */
+    private layOut(junction: Junction): void {
+        const angle = (arm: JunctionArm) => Math.atan2(arm.direction.z, arm.direction.x);
+        junction.arms.sort((a, b) => angle(a) - angle(b));
+        junction.majorRank = Math.max(...junction.arms.map(arm => arm.rank));
+        junction.roundabout = junction.arms.some(arm => arm.roundabout);
+
+        const count = junction.arms.length;
+        junction.arms.forEach((arm, index) => {
+            const neighbours = [junction.arms[(index + count - 1) % count], junction.arms[(index + 1) % count]];
+            let required = arm.halfWidth * 0.5;
+            neighbours.forEach(neighbour => {
+                const gap = JunctionLayout.angleBetween(arm.direction, neighbour.direction);
+                // Nearly straight continuations never overlap beyond the centre
+                if (gap > Math.PI * 0.95) return;
+                const sin = Math.max(Math.sin(gap), 0.05);
+                // Distance along this arm where its edge meets the neighbour's facing edge
+                required = Math.max(required, (neighbour.halfWidth + arm.halfWidth * Math.cos(gap)) / sin);
+            });
+
+            const section = this.sections.get(arm)!;
+            arm.trim = Math.min(required + JunctionLayout.trimMargin, JunctionLayout.maxTrim, section.length * JunctionLayout.maxTrimFraction);
+            const { point, direction } = JunctionLayout.pointAtDistance(section.points, arm.trim);
+            arm.boundary = point;
+            arm.boundaryDirection = direction;
+        });
+
+        junction.arms.forEach(arm => this.sections.delete(arm));
+    }
+
+    private static armKey(wayIndex: number, vertexIndex: number, forward: boolean): string {
+        return `${wayIndex}:${vertexIndex}:${forward ? 'f' : 'b'}`;
+    }
+
+    private static angleBetween(a: RoadPoint, b: RoadPoint): number {
+        return Math.acos(Math.max(-1, Math.min(1, a.x * b.x + a.z * b.z)));
+    }
+
+    private static normalize(vector: RoadPoint): RoadPoint {
+        const length = Math.hypot(vector.x, vector.z);
+        return length > 0 ? { x: vector.x / length, z: vector.z / length } : { x: 1, z: 0 };
+    }
+
+    static polylineLength(points: RoadPoint[]): number {
+        let length = 0;
+        for (let i = 0; i < points.length - 1; i++) {
+            length += Math.hypot(points[i + 1].x - points[i].x, points[i + 1].z - points[i].z);
+        }
+        return length;
+    }
+
+    /**
+     * Point and direction at a distance along a polyline (clamped to its ends)
+     */
+    static pointAtDistance(points: RoadPoint[], distance: number): { point: RoadPoint; direction: RoadPoint; } {
+        let remaining = Math.max(0, distance);
+        for (let i = 0; i < points.length - 1; i++) {
+            const a = points[i];
+            const b = points[i + 1];
+            const length = Math.hypot(b.x - a.x, b.z - a.z);
+            if (length === 0) continue;
+            const direction = { x: (b.x - a.x) / length, z: (b.z - a.z) / length };
+            if (remaining <= length || i === points.length - 2) {
+                const t = Math.min(remaining, length);
+                return { point: { x: a.x + direction.x * t, z: a.z + direction.z * t }, direction };
+            }
+            remaining -= length;
+        }
+        return { point: { ...points[points.length - 1] }, direction: { x: 1, z: 0 } };
+    }
+
+    /**
+     * Part of a polyline between two distances from its start
+     */
+    static slicePolyline(points: RoadPoint[], fromDistance: number, toDistance: number): RoadPoint[] {
+        const section: RoadPoint[] = [JunctionLayout.pointAtDistance(points, fromDistance).point];
+        let travelled = 0;
+        for (let i = 0; i < points.length - 1; i++) {
+            travelled += Math.hypot(points[i + 1].x - points[i].x, points[i + 1].z - points[i].z);
+            if (travelled > fromDistance && travelled < toDistance) {
+                section.push({ ...points[i + 1] });
+            }
+        }
+        section.push(JunctionLayout.pointAtDistance(points, toDistance).point);
+
+        // Drop points that landed on top of their predecessor at the cuts
+        return section.filter((point, index) =>
+            index === 0 || Math.hypot(point.x - section[index - 1].x, point.z - section[index - 1].z) > 0.01);
+    }
+}
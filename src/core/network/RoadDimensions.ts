@@ -0,0 +1,68 @@
+import type { DrivingSide } from '@/types';
+
+/**
+ * Cross-section dimensions of rendered roads. Shared by the road renderer and by
+ * everything that needs to know where the carriageway and lanes are (traffic, rules).
+ */
+export class RoadDimensions {
+    /**
+     * Get road width based on highway type and number of lanes
+     * Each lane must be at least car width (1.9m) + 20% = 2.28m, rounded to 2.5m for comfort
+     */
+    static getRoadWidth(highwayType: string, lanesCount: number = 1): number {
+        // Car width is 1.9 units, so minimum lane width is 1.9 * 1.2 = 2.28
+        // We'll use 2.5 as a comfortable minimum lane width
+        const carWidth = 1.9;
+        const minLaneWidth = carWidth * 1.2; // At least car width + 20%
+        const comfortableLaneWidth = 2.5; // Comfortable lane width for navigation
+
+        // Minimum road widths per highway type (for single-lane roads)
+        const minWidths: Record<string, number> = {
+            'motorway': 5.2,
+            'trunk': 4.5,
+            'primary': 4.2,
+            'secondary': 3.9,
+            'tertiary': 3.75,
+            'residential': 3.6,
+            'service': 3.4,
+            'unclassified': 3.6
+        };
+
+        // Get minimum width for this highway type
+        let minRoadWidth = minWidths['residential']; // Default
+        for (const [type, width] of Object.entries(minWidths)) {
+            if (highwayType.toLowerCase().includes(type)) {
+                minRoadWidth = width;
+                break;
+            }
+        }
+
+        // Calculate lane width - use comfortable width for multi-lane roads, 
+        // but ensure minimum is respected
+        const laneWidth = Math.max(minLaneWidth, comfortableLaneWidth);
+
+        // For single-lane roads, use the highway-specific minimum width
+        // For multi-lane roads, use lane width * number of lanes
+        if (lanesCount === 1) {
+            return Math.max(minRoadWidth, laneWidth);
+        } else {
+            return lanesCount * laneWidth;
+        }
+    }
+
+    /**
+     * Lateral offset (meters, positive to the right of travel) of the centre of the lane
+     * a vehicle keeps to: the lane next to the centre line on the driving side for two-way
+     * roads, and the middle of the road (or the lane beside it on even lane counts) for one-way roads
+     */
+    static getLaneOffset(highwayType: string, lanesCount: number, twoWay: boolean, drivingSide: DrivingSide): number {
+        const lanes = Math.max(1, lanesCount);
+        const roadWidth = RoadDimensions.getRoadWidth(highwayType, lanes);
+        const sideSign = drivingSide === 'right' ? 1 : -1;
+
+        if (!twoWay) {
+            return lanes % 2 === 0 ? sideSign * roadWidth / lanes / 2 : 0;
+        }
+        return sideSign * roadWidth / Math.max(2, lanes) / 2;
+    }
+}
@@ -0,0 +1,93 @@
+import type { RoadPoint } from '@/types';
+
+/**
+ * A road way as seen by the elevation model
+ */
+export interface ElevationWay {
+    points: RoadPoint[]; // Local coordinates
+    keys: string[]; // Coordinate keys (RoadNetwork.coordinateKey) matching `points`
+    layer: number; // OSM layer tag (0 when untagged)
+    bridge: boolean;
+    tunnel: boolean;
+}
+
+/**
+ * Height of the road surface above the ground at every road coordinate. Bridges and ways
+ * on a positive layer are lifted to a deck height set by their layer; the roads joining
+ * them climb to meet the deck at a limited grade, so approach ramps run along whatever
+ * roads lead onto the bridge. Tunnels and underground ways stay at ground level.
+ * Pure geometry, no Three.js dependency.
+ */
+export class RoadElevation {
+    static readonly layerHeight = 6; // meters of clearance per layer
+    static readonly maxGrade = 0.08; // Rise per meter on approach ramps
+
+    private heights: Map<string, number> = new Map();
+
+    private constructor() { }
+
+    /**
+     * Work out the surface height at every coordinate of a set of ways
+     */
+    static build(ways: ElevationWay[]): RoadElevation {
+        const elevation = new RoadElevation();
+
+        // Neighbouring coordinates along the ways, with the distance between them
+        const neighbours = new Map<string, Array<{ key: string; distance: number; }>>();
+        const link = (from: string, to: string, distance: number) => {
+            const list = neighbours.get(from) ?? [];
+            list.push({ key: to, distance });
+            neighbours.set(from, list);
+        };
+        ways.forEach(way => {
+            for (let i = 0; i < way.points.length - 1; i++) {
+                const distance = Math.hypot(way.points[i + 1].x - way.points[i].x, way.points[i + 1].z - way.points[i].z);
+                link(way.keys[i], way.keys[i + 1], distance);
+                link(way.keys[i + 1], way.keys[i], distance);
+            }
+        });
+
+        // Decks are fixed at their layer height; tunnels and underground ways are held at the ground
+        const fixed = new Set<string>();
+        ways.forEach(way => {
+            const deck = RoadElevation.getDeckHeight(way);
+            if (deck <= 0 && !way.tunnel && way.layer >= 0) return;
+            way.keys.forEach(key => {
+                fixed.add(key);
+                elevation.heights.set(key, Math.max(elevation.heights.get(key) ?? 0, deck));
+            });
+        });
+
+        // Let every deck height run down the connected roads at the maximum grade
+        const queue = [...elevation.heights.keys()].filter(key => (elevation.heights.get(key) ?? 0) > 0);
+        while (queue.length > 0) {
+            const key = queue.pop()!;
+            const height = elevation.heights.get(key)!;
+            (neighbours.get(key) ?? []).forEach(neighbour => {
+                if (fixed.has(neighbour.key)) return;
+                const ramp = height - neighbour.distance * RoadElevation.maxGrade;
+                if (ramp <= (elevation.heights.get(neighbour.key) ?? 0) + 1e-3) return;
+                elevation.heights.set(neighbour.key, ramp);
+                queue.push(neighbour.key);
+            });
+        }
+
+        return elevation;
+    }
+
+    /**
+     * Deck height of a way from its bridge and layer tags (0 for roads at ground level)
+     */
+    static getDeckHeight(way: Pick<ElevationWay, 'layer' | 'bridge' | 'tunnel'>): number {
+        if (way.tunnel) return 0;
+        if (way.layer > 0) return way.layer * RoadElevation.layerHeight;
+        return way.bridge && way.layer === 0 ? RoadElevation.layerHeight : 0;
+    }
+
+    /**
+     * Surface height at a road coordinate (0 for coordinates at ground level)
+     */
+    getHeight(key: string): number {
+        return this.heights.get(key) ?? 0;
+    }
+}
@@ -0,0 +1,106 @@
+import { SpatialGrid } from '@/utils/SpatialGrid';
+import type { RoadHit, RoadInfo } from '@/types';
+
+// A centreline segment of a road, with its surface heights at either end
+interface RoadSegment {
+    ax: number;
+    ay: number;
+    az: number;
+    bx: number;
+    by: number;
+    bz: number;
+    halfWidth: number;
+    road: RoadInfo;
+    elevated: boolean;
+}
+
+/**
+ * Spatial index over road centreline segments, for the per-frame road queries (the road
+ * under a point, the nearest road, on or off road). Segments are kept in a uniform grid,
+ * so a query only looks at the few segments near the point. Pure data, no Three.js dependency.
+ */
+export class RoadIndex {
+    private grid: SpatialGrid<RoadSegment> = new SpatialGrid(25);
+
+    get size(): number {
+        return this.grid.size;
+    }
+
+    /**
+     * Index a road's centreline: consecutive points form its segments, and the last point
+     * also covers a disc, rounding off the end (a single point, as at junctions, is just the disc)
+     */
+    addRoad(points: Array<{ x: number; y: number; z: number; }>, halfWidth: number, road: RoadInfo, elevated: boolean = false): void {
+        for (let i = 0; i < points.length; i++) {
+            const a = points[i];
+            const b = points[Math.min(i + 1, points.length - 1)];
+            const segment: RoadSegment = { ax: a.x, ay: a.y, az: a.z, bx: b.x, by: b.y, bz: b.z, halfWidth, road, elevated };
+            this.grid.insert(segment, {
+                minX: Math.min(a.x, b.x) - halfWidth,
+                minZ: Math.min(a.z, b.z) - halfWidth,
+                maxX: Math.max(a.x, b.x) + halfWidth,
+                maxZ: Math.max(a.z, b.z) + halfWidth
+            });
+        }
+    }
+
+    /**
+     * Every road surface covering a point, one hit per covering segment (so a road may
+     * appear more than once where its segments meet). Where roads cross at different
+     * levels, all levels are returned.
+     */
+    getRoadsAt(x: number, z: number): RoadHit[] {
+        const hits: RoadHit[] = [];
+        this.grid.queryRadius(x, z, 0).forEach(segment => {
+            const hit = this.measure(segment, x, z);
+            if (hit.distance <= segment.halfWidth) hits.push(hit);
+        });
+        return hits;
+    }
+
+    /**
+     * The road under a point: of the surfaces covering it, the one whose centreline is
+     * nearest; null when the point is off road
+     */
+    getRoadAt(x: number, z: number): RoadHit | null {
+        return this.getRoadsAt(x, z).reduce<RoadHit | null>((best, hit) => !best || hit.distance < best.distance ? hit : best, null);
+    }
+
+    isOnRoad(x: number, z: number): boolean {
+        return this.getRoadAt(x, z) !== null;
+    }
+
+    /**
+     * The road whose centreline passes nearest a point, within a maximum distance
+     */
+    findNearest(x: number, z: number, maxDistance: number = 50): RoadHit | null {
+        let best: RoadHit | null = null;
+        for (const segment of this.grid.queryRadius(x, z, maxDistance)) {
+            const hit = this.measure(segment, x, z);
+            if (hit.distance <= maxDistance && (!best || hit.distance < best.distance)) best = hit;
+        }
+        return best;
+    }
+
+    clear(): void {
+        this.grid.clear();
+    }
+
+    /**
+     * Closest point of a segment's centreline to a position, with the surface height there
+     */
+    private measure(segment: RoadSegment, x: number, z: number): RoadHit {
+        const dx = segment.bx - segment.ax;
+        const dz = segment.bz - segment.az;
+        const lengthSq = dx * dx + dz * dz;
+        const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((x - segment.ax) * dx + (z - segment.az) * dz) / lengthSq)) : 0;
+        const point = { x: segment.ax + dx * t, z: segment.az + dz * t };
+        return {
+            road: segment.road,
+            distance: Math.hypot(x - point.x, z - point.z),
+            point,
+            height: segment.ay + (segment.by - segment.ay) * t,
+            elevated: segment.elevated
+        };
+    }
+}
@@ -0,0 +1,477 @@
+import { LocalProjection } from '@/utils/LocalProjection';
+import type { GeoJSON, GeoJSONFeature, RoadPoint } from '@/types';
+
+/**
+ * Direction of travel permitted on a way, relative to the order of its coordinates
+ */
+export type OneWayDirection = 'no' | 'forward' | 'backward' | 'reversible';
+
+export interface RoadEdgeProperties {
+    highway: string;
+    lanes: number;
+    oneway: OneWayDirection;
+    maxspeed?: string;
+    maxspeedForward?: string; // maxspeed:forward, applies in the way's direction
+    maxspeedBackward?: string; // maxspeed:backward
+    maxspeedType?: string; // Implied limit zone from maxspeed:type or source:maxspeed (e.g. "MT:urban")
+    surface: string;
+    name?: string;
+    layer: number; // OSM layer tag (0 when untagged)
+    bridge: boolean;
+    tunnel: boolean;
+}
+
+export interface RoadNode {
+    id: number;
+    x: number;
+    z: number;
+    lat: number;
+    lon: number;
+    outgoing: number[]; // Edge IDs leaving this node
+    incoming: number[]; // Edge IDs arriving at this node
+}
+
+export interface RoadEdge {
+    id: number;
+    wayId: string;
+    from: number;
+    to: number;
+    points: RoadPoint[]; // Local coordinates from `from` to `to`
+    length: number; // meters
+    reversed: boolean; // True if the edge runs against the way's coordinate order
+    twinId: number | null; // Opposite-direction edge over the same geometry, if any
+    properties: RoadEdgeProperties;
+}
+
+export interface EdgeQueryResult {
+    edge: RoadEdge;
+    distance: number; // Distance from the query point to the edge centreline
+    point: RoadPoint; // Closest point on the centreline
+    distanceAlong: number; // Distance from the edge start to the closest point
+    lateralOffset: number; // Signed offset from the centreline, positive to the left of travel
+}
+
+interface EdgeBounds {
+    minX: number;
+    maxX: number;
+    minZ: number;
+    maxZ: number;
+}
+
+/**
+ * Directed graph of the drivable road network.
+ * Nodes sit at way endpoints and at coordinates shared by more than one way (intersections);
+ * edges are the way sections between them, one per permitted direction of travel.
+ * The class has no Three.js dependency so it can be built and queried from plain JSON.
+ */
+export class RoadNetwork {
+    // Highway types that are not drivable (or are skipped by the road renderer)
+    static readonly EXCLUDED_HIGHWAYS = new Set(['service', 'footway', 'path', 'steps', 'pedestrian', 'cycleway', 'track', 'bridleway', 'corridor', 'proposed', 'construction']);
+
+    private nodes: RoadNode[] = [];
+    private edges: RoadEdge[] = [];
+    private edgeBounds: EdgeBounds[] = [];
+    private nodeIdsByKey: Map<string, number> = new Map();
+
+    private constructor(private centerLat: number, private centerLon: number) { }
+
+    /**
+     * Build a road network from a roads GeoJSON FeatureCollection
+     */
+    static fromGeoJSON(geoJSON: GeoJSON, centerLat: number, centerLon: number): RoadNetwork {
+        const network = new RoadNetwork(centerLat, centerLon);
+        const roadFeatures = (geoJSON?.features ?? []).filter(feature => RoadNetwork.isDrivableFeature(feature));
+
+        // Count how often each coordinate is used so shared coordinates become nodes
+        const usage = new Map<string, number>();
+        roadFeatures.forEach(feature => {
+            const coordinates = feature.geometry.coordinates as Array<[number, number]>;
+            coordinates.forEach(([lon, lat]) => {
+                const key = RoadNetwork.coordinateKey(lon, lat);
+                usage.set(key, (usage.get(key) ?? 0) + 1);
+            });
+        });
+
+        roadFeatures.forEach(feature => network.addWay(feature, usage));
+
+        console.log(`Road network: ${network.nodes.length} nodes, ${network.edges.length} edges`);
+        return network;
+    }
+
+    /**
+     * Whether a feature is a drivable road way
+     */
+    static isDrivableFeature(feature: GeoJSONFeature): boolean {
+        if (feature.geometry?.type !== 'LineString' || feature.geometry.coordinates.length < 2) {
+            return false;
+        }
+        const highway = feature.properties?.highway;
+        return typeof highway === 'string' && !RoadNetwork.EXCLUDED_HIGHWAYS.has(highway);
+    }
+
+    /**
+     * Key used to match coordinates shared between ways (~1 cm precision)
+     */
+    static coordinateKey(lon: number, lat: number): string {
+        return `${lon.toFixed(7)},${lat.toFixed(7)}`;
+    }
+
+    /**
+     * Parse the OSM oneway tag (plus implied one-way highways and roundabouts)
+     */
+    static parseOneWay(properties: GeoJSONFeature['properties']): OneWayDirection {
+        const oneway = typeof properties.oneway === 'string' ? properties.oneway.toLowerCase() : undefined;
+        switch (oneway) {
+            case 'yes':
+            case 'true':
+            case '1':
+                return 'forward';
+            case '-1':
+            case 'reverse':
+                return 'backward';
+            case 'reversible':
+            case 'alternating':
+                return 'reversible';
+            case 'no':
+            case 'false':
+            case '0':
+                return 'no';
+        }
+
+        // Implied one-way: roundabouts and motorways follow the way direction
+        if (properties.junction === 'roundabout' || properties.junction === 'circular' ||
+            properties.highway === 'motorway' || properties.highway === 'motorway_link') {
+            return 'forward';
+        }
+        return 'no';
+    }
+
+    private addWay(feature: GeoJSONFeature, usage: Map<string, number>): void {
+        const coordinates = feature.geometry.coordinates as Array<[number, number]>;
+        const properties = this.parseProperties(feature);
+        const wayId = String(feature.properties['@id'] ?? feature.id ?? `way/${this.edges.length}`);
+
+        // Split the way at every coordinate that is a node (endpoints and shared coordinates)
+        let sectionStart = 0;
+        let startNode = this.getOrCreateNode(coordinates[0]);
+        for (let i = 1; i < coordinates.length; i++) {
+            const [lon, lat] = coordinates[i];
+            const isLast = i === coordinates.length - 1;
+            const isShared = (usage.get(RoadNetwork.coordinateKey(lon, lat)) ?? 0) > 1;
+            if (!isLast && !isShared) continue;
+
+            const endNode = this.getOrCreateNode(coordinates[i]);
+            const points = coordinates.slice(sectionStart, i + 1).map(([pLon, pLat]) => LocalProjection.toLocal(pLat, pLon, this.centerLat, this.centerLon));
+            this.addSection(wayId, startNode, endNode, points, properties);
+
+            sectionStart = i;
+            startNode = endNode;
+        }
+    }
+
+    private addSection(wayId: string, from: number, to: number, points: RoadPoint[], properties: RoadEdgeProperties): void {
+        const length = RoadNetwork.polylineLength(points);
+        if (length < 0.01) return;
+
+        const allowsForward = properties.oneway !== 'backward';
+        const allowsBackward = properties.oneway !== 'forward';
+
+        const forward = allowsForward ? this.addEdge(wayId, from, to, points, length, false, properties) : null;
+        const backward = allowsBackward ? this.addEdge(wayId, to, from, [...points].reverse(), length, true, properties) : null;
+
+        if (forward && backward) {
+            forward.twinId = backward.id;
+            backward.twinId = forward.id;
+        }
+    }
+
+    private addEdge(
+        wayId: string,
+        from: number,
+        to: number,
+        points: RoadPoint[],
+        length: number,
+        reversed: boolean,
+        properties: RoadEdgeProperties
+    ): RoadEdge {
+        const edge: RoadEdge = {
+            id: this.edges.length,
+            wayId,
+            from,
+            to,
+            points,
+            length,
+            reversed,
+            twinId: null,
+            properties
+        };
+        this.edges.push(edge);
+        this.edgeBounds.push(RoadNetwork.computeBounds(points));
+        this.nodes[from].outgoing.push(edge.id);
+        this.nodes[to].incoming.push(edge.id);
+        return edge;
+    }
+
+    private getOrCreateNode([lon, lat]: [number, number]): number {
+        const key = RoadNetwork.coordinateKey(lon, lat);
+        const existing = this.nodeIdsByKey.get(key);
+        if (existing !== undefined) return existing;
+
+        const local = LocalProjection.toLocal(lat, lon, this.centerLat, this.centerLon);
+        const node: RoadNode = {
+            id: this.nodes.length,
+            x: local.x,
+            z: local.z,
+            lat,
+            lon,
+            outgoing: [],
+            incoming: []
+        };
+        this.nodes.push(node);
+        this.nodeIdsByKey.set(key, node.id);
+        return node.id;
+    }
+
+    private parseProperties(feature: GeoJSONFeature): RoadEdgeProperties {
+        const tags = feature.properties;
+        const lanes = typeof tags.lanes === 'string' ? parseInt(tags.lanes, 10) : NaN;
+        const layer = typeof tags.layer === 'string' ? parseInt(tags.layer, 10) : NaN;
+        return {
+            highway: String(tags.highway),
+            lanes: !isNaN(lanes) && lanes > 0 ? lanes : 1,
+            oneway: RoadNetwork.parseOneWay(tags),
+            maxspeed: typeof tags.maxspeed === 'string' ? tags.maxspeed : undefined,
+            maxspeedForward: typeof tags['maxspeed:forward'] === 'string' ? tags['maxspeed:forward'] : undefined,
+            maxspeedBackward: typeof tags['maxspeed:backward'] === 'string' ? tags['maxspeed:backward'] : undefined,
+            maxspeedType: typeof tags['maxspeed:type'] === 'string' ? tags['maxspeed:type']
+                : typeof tags['source:maxspeed'] === 'string' ? tags['source:maxspeed'] : undefined,
+            surface: typeof tags.surface === 'string' ? tags.surface.toLowerCase() : 'asphalt',
+            name: typeof tags.name === 'string' ? tags.name : undefined,
+            layer: !isNaN(layer) ? layer : 0,
+            bridge: typeof tags.bridge === 'string' && tags.bridge !== 'no',
+            tunnel: tags.tunnel === 'yes' || tags.tunnel === 'building_passage'
+        };
+    }
+
+    getNodes(): readonly RoadNode[] {
+        return this.nodes;
+    }
+
+    getEdges(): readonly RoadEdge[] {
+        return this.edges;
+    }
+
+    getNode(id: number): RoadNode | undefined {
+        return this.nodes[id];
+    }
+
+    getEdge(id: number): RoadEdge | undefined {
+        return this.edges[id];
+    }
+
+    /**
+     * Get the node at a [lon, lat] coordinate, if one exists
+     */
+    getNodeAtCoordinate(lon: number, lat: number): RoadNode | undefined {
+        const id = this.nodeIdsByKey.get(RoadNetwork.coordinateKey(lon, lat));
+        return id !== undefined ? this.nodes[id] : undefined;
+    }
+
+    getOutgoingEdges(nodeId: number): RoadEdge[] {
+        return (this.nodes[nodeId]?.outgoing ?? []).map(id => this.edges[id]);
+    }
+
+    getIncomingEdges(nodeId: number): RoadEdge[] {
+        return (this.nodes[nodeId]?.incoming ?? []).map(id => this.edges[id]);
+    }
+
+    /**
+     * Nodes reachable from a node by a single legal edge
+     */
+    getNeighbours(nodeId: number): RoadNode[] {
+        const neighbourIds = new Set(this.getOutgoingEdges(nodeId).map(edge => edge.to));
+        return [...neighbourIds].map(id => this.nodes[id]);
+    }
+
+    /**
+     * Number of distinct ways meeting at a node (1 = dead end, 2 = continuation, 3+ = junction)
+     */
+    getNodeDegree(nodeId: number): number {
+        const node = this.nodes[nodeId];
+        if (!node) return 0;
+        const neighbours = new Set<number>();
+        node.outgoing.forEach(id => neighbours.add(this.edges[id].to));
+        node.incoming.forEach(id => neighbours.add(this.edges[id].from));
+        return neighbours.size;
+    }
+
+    /**
+     * Find the closest edge to a local position.
+     * When a heading is given, the edge best aligned with it wins between twin edges.
+     */
+    findNearestEdge(x: number, z: number, maxDistance: number = Infinity, heading?: RoadPoint): EdgeQueryResult | null {
+        let best: EdgeQueryResult | null = null;
+
+        for (let i = 0; i < this.edges.length; i++) {
+            if (!this.boundsWithin(this.edgeBounds[i], x, z, Math.min(maxDistance, best?.distance ?? Infinity))) continue;
+
+            const result = this.projectOntoEdge(this.edges[i], x, z);
+            if (result.distance > maxDistance) continue;
+
+            if (!best || result.distance < best.distance - 1e-6) {
+                best = result;
+            } else if (heading && Math.abs(result.distance - best.distance) <= 1e-6 &&
+                this.alignment(result, heading) > this.alignment(best, heading)) {
+                best = result;
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Find all edges whose centreline passes within a radius of a local position, closest first
+     */
+    findEdgesWithinRadius(x: number, z: number, radius: number): EdgeQueryResult[] {
+        const results: EdgeQueryResult[] = [];
+        for (let i = 0; i < this.edges.length; i++) {
+            if (!this.boundsWithin(this.edgeBounds[i], x, z, radius)) continue;
+            const result = this.projectOntoEdge(this.edges[i], x, z);
+            if (result.distance <= radius) {
+                results.push(result);
+            }
+        }
+        return results.sort((a, b) => a.distance - b.distance);
+    }
+
+    /**
+     * Find the closest node to a local position
+     */
+    findNearestNode(x: number, z: number, maxDistance: number = Infinity): RoadNode | null {
+        let best: RoadNode | null = null;
+        let bestDistance = maxDistance;
+        for (const node of this.nodes) {
+            if (node.outgoing.length === 0 && node.incoming.length === 0) continue;
+            const distance = Math.hypot(node.x - x, node.z - z);
+            if (distance <= bestDistance) {
+                best = node;
+                bestDistance = distance;
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Project a local position onto an edge centreline
+     */
+    projectOntoEdge(edge: RoadEdge, x: number, z: number): EdgeQueryResult {
+        let bestDistanceSq = Infinity;
+        let bestPoint: RoadPoint = edge.points[0];
+        let bestAlong = 0;
+        let bestLateral = 0;
+        let travelled = 0;
+
+        for (let i = 0; i < edge.points.length - 1; i++) {
+            const a = edge.points[i];
+            const b = edge.points[i + 1];
+            const dx = b.x - a.x;
+            const dz = b.z - a.z;
+            const segmentLength = Math.hypot(dx, dz);
+            if (segmentLength < 1e-9) continue;
+
+            const t = Math.max(0, Math.min(1, ((x - a.x) * dx + (z - a.z) * dz) / (segmentLength * segmentLength)));
+            const px = a.x + dx * t;
+            const pz = a.z + dz * t;
+            const distanceSq = (x - px) * (x - px) + (z - pz) * (z - pz);
+
+            if (distanceSq < bestDistanceSq) {
+                bestDistanceSq = distanceSq;
+                bestPoint = { x: px, z: pz };
+                bestAlong = travelled + segmentLength * t;
+                // Left of travel direction (dx, dz) is (dz, -dx) with Y up and Z pointing south
+                bestLateral = ((x - px) * dz - (z - pz) * dx) / segmentLength;
+            }
+            travelled += segmentLength;
+        }
+
+        return {
+            edge,
+            distance: Math.sqrt(bestDistanceSq),
+            point: bestPoint,
+            distanceAlong: bestAlong,
+            lateralOffset: bestLateral
+        };
+    }
+
+    /**
+     * Get the point and unit direction at a distance along an edge
+     */
+    getPointAlongEdge(edge: RoadEdge, distance: number): { point: RoadPoint; direction: RoadPoint; } {
+        let remaining = Math.max(0, Math.min(edge.length, distance));
+        for (let i = 0; i < edge.points.length - 1; i++) {
+            const a = edge.points[i];
+            const b = edge.points[i + 1];
+            const segmentLength = Math.hypot(b.x - a.x, b.z - a.z);
+            if (segmentLength < 1e-9) continue;
+            if (remaining <= segmentLength || i === edge.points.length - 2) {
+                const t = Math.min(1, remaining / segmentLength);
+                return {
+                    point: { x: a.x + (b.x - a.x) * t, z: a.z + (b.z - a.z) * t },
+                    direction: { x: (b.x - a.x) / segmentLength, z: (b.z - a.z) / segmentLength }
+                };
+            }
+            remaining -= segmentLength;
+        }
+        const last = edge.points[edge.points.length - 1];
+        return { point: { ...last }, direction: { x: 0, z: 1 } };
+    }
+
+    /**
+     * Get the part of an edge's polyline between two distances along it
+     */
+    getEdgeSection(edge: RoadEdge, fromDistance: number, toDistance: number): RoadPoint[] {
+        const start = Math.max(0, Math.min(edge.length, fromDistance));
+        const end = Math.max(start, Math.min(edge.length, toDistance));
+        const section: RoadPoint[] = [this.getPointAlongEdge(edge, start).point];
+
+        let travelled = 0;
+        for (let i = 0; i < edge.points.length - 1; i++) {
+            travelled += Math.hypot(edge.points[i + 1].x - edge.points[i].x, edge.points[i + 1].z - edge.points[i].z);
+            if (travelled > start && travelled < end) {
+                section.push({ ...edge.points[i + 1] });
+            }
+        }
+
+        section.push(this.getPointAlongEdge(edge, end).point);
+        return section;
+    }
+
+    private alignment(result: EdgeQueryResult, heading: RoadPoint): number {
+        const { direction } = this.getPointAlongEdge(result.edge, result.distanceAlong);
+        return direction.x * heading.x + direction.z * heading.z;
+    }
+
+    private boundsWithin(bounds: EdgeBounds, x: number, z: number, distance: number): boolean {
+        return x >= bounds.minX - distance && x <= bounds.maxX + distance &&
+            z >= bounds.minZ - distance && z <= bounds.maxZ + distance;
+    }
+
+    private static computeBounds(points: RoadPoint[]): EdgeBounds {
+        const bounds: EdgeBounds = { minX: Infinity, maxX: -Infinity, minZ: Infinity, maxZ: -Infinity };
+        points.forEach(p => {
+            bounds.minX = Math.min(bounds.minX, p.x);
+            bounds.maxX = Math.max(bounds.maxX, p.x);
+            bounds.minZ = Math.min(bounds.minZ, p.z);
+            bounds.maxZ = Math.max(bounds.maxZ, p.z);
+        });
+        return bounds;
+    }
+
+    private static polylineLength(points: RoadPoint[]): number {
+        let length = 0;
+        for (let i = 0; i < points.length - 1; i++) {
+            length += Math.hypot(points[i + 1].x - points[i].x, points[i + 1].z - points[i].z);
+        }
+        return length;
+    }
+}
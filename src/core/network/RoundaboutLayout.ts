@@ -0,0 +1,162 @@
+import type { RoadPoint, DrivingSide, Circulation, RoundaboutInfo } from '@/types';
+
+/**
+ * A roundabout way (junction=roundabout or junction=circular) as seen by the layout
+ */
+export interface RoundaboutWay {
+    points: RoadPoint[]; // Local coordinates, in the way's direction
+    keys: string[]; // Coordinate keys (RoadNetwork.coordinateKey) matching `points`
+    halfWidth: number; // meters
+    name?: string;
+}
+
+export interface Roundabout extends RoundaboutInfo {
+    islandRadius: number; // meters, 0 for roundabouts too small for an island (painted only)
+    innerRadius: number; // Inner edge of the circulating carriageway
+    laneRadius: number; // Centreline of the circulating carriageway
+}
+
+/**
+ * Groups roundabout ways into whole roundabouts and describes their geometry.
+ * Traffic circulates counter-clockwise (seen from above) where it keeps right and
+ * clockwise where it keeps left. Pure geometry, no Three.js dependency.
+ */
+export class RoundaboutLayout {
+    private static readonly islandClearance = 0.3; // meters between the island kerb and the carriageway
+    private static readonly minIslandRadius = 1.5; // meters; smaller roundabouts get a painted centre only
+    private static readonly maxAngularGap = Math.PI / 2; // Ways covering less of the circle are not a roundabout
+
+    private constructor(private roundabouts: Roundabout[]) { }
+
+    /**
+     * Find the roundabouts formed by a set of roundabout ways
+     */
+    static build(ways: RoundaboutWay[], drivingSide: DrivingSide): RoundaboutLayout {
+        const circulation: Circulation = drivingSide === 'right' ? 'counterclockwise' : 'clockwise';
+
+        // Ways sharing a coordinate belong to the same roundabout
+        const parent = ways.map((_, index) => index);
+        const find = (index: number): number => {
+            while (parent[index] !== index) {
+                parent[index] = parent[parent[index]];
+                index = parent[index];
+            }
+            return index;
+        };
+        const owners = new Map<string, number>();
+        ways.forEach((way, index) => {
+            way.keys.forEach(key => {
+                const owner = owners.get(key);
+                if (owner === undefined) {
+                    owners.set(key, index);
+                } else {
+                    parent[find(index)] = find(owner);
+                }
+            });
+        });
+
+        const groups = new Map<number, RoundaboutWay[]>();
+        ways.forEach((way, index) => {
+            const root = find(index);
+            groups.set(root, [...(groups.get(root) ?? []), way]);
+        });
+
+        const roundabouts: Roundabout[] = [];
+        groups.forEach(group => {
+            const roundabout = RoundaboutLayout.describe(group, circulation);
+            if (roundabout) roundabouts.push(roundabout);
+        });
+
+        return new RoundaboutLayout(roundabouts);
+    }
+
+    getRoundabouts(): Roundabout[] {
+        return this.roundabouts;
+    }
+
+    /**
+     * The roundabout whose circulating carriageway contains a position, if any
+     */
+    getRoundaboutAt(x: number, z: number): Roundabout | null {
+        for (const roundabout of this.roundabouts) {
+            const distance = Math.hypot(x - roundabout.center.x, z - roundabout.center.z);
+            if (distance >= roundabout.innerRadius && distance <= roundabout.radius) {
+                return roundabout;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Circulation implied by moving in a direction at a position around a centre
+     * (null when the motion is mostly toward or away from the centre)
+     */
+    static getCirculationOf(center: RoadPoint, position: RoadPoint, direction: RoadPoint, minTangentialness: number = 0.5): Circulation | null {
+        const rx = position.x - center.x;
+        const rz = position.z - center.z;
+        const radius = Math.hypot(rx, rz);
+        const speed = Math.hypot(direction.x, direction.z);
+        if (radius === 0 || speed === 0) return null;
+
+        // With x east and z south, a positive cross product turns clockwise on the map
+        const cross = (rx * direction.z - rz * direction.x) / (radius * speed);
+        if (Math.abs(cross) < minTangentialness) return null;
+        return cross > 0 ? 'clockwise' : 'counterclockwise';
+    }
+
+    private static describe(group: RoundaboutWay[], circulation: Circulation): Roundabout | null {
+        // Unique coordinates around the ring
+        const seen = new Set<string>();
+        const points: RoadPoint[] = [];
+        group.forEach(way => way.points.forEach((point, index) => {
+            if (seen.has(way.keys[index])) return;
+            seen.add(way.keys[index]);
+            points.push(point);
+        }));
+        if (points.length < 3) return null;
+
+        const center = {
+            x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+            z: points.reduce((sum, point) => sum + point.z, 0) / points.length
+        };
+
+        // The ways must go most of the way around the centre
+        const angles = points.map(point => Math.atan2(point.z - center.z, point.x - center.x)).sort((a, b) => a - b);
+        let largestGap = angles[0] + Math.PI * 2 - angles[angles.length - 1];
+        for (let i = 1; i < angles.length; i++) {
+            largestGap = Math.max(largestGap, angles[i] - angles[i - 1]);
+        }
+        if (largestGap > RoundaboutLayout.maxAngularGap) return null;
+
+        const distances = points.map(point => Math.hypot(point.x - center.x, point.z - center.z));
+        const laneRadius = distances.reduce((sum, distance) => sum + distance, 0) / distances.length;
+        const halfWidth = Math.max(...group.map(way => way.halfWidth));
+        const innerRadius = Math.max(0, Math.min(...distances) - halfWidth);
+        const islandRadius = innerRadius - RoundaboutLayout.islandClearance;
+
+        // Mapped direction should already match the driving side; flag data that disagrees
+        let mappedCross = 0;
+        group.forEach(way => {
+            for (let i = 0; i < way.points.length - 1; i++) {
+                const rx = way.points[i].x - center.x;
+                const rz = way.points[i].z - center.z;
+                mappedCross += rx * (way.points[i + 1].z - way.points[i].z) - rz * (way.points[i + 1].x - way.points[i].x);
+            }
+        });
+        const mapped: Circulation = mappedCross > 0 ? 'clockwise' : 'counterclockwise';
+        const name = group.find(way => way.name)?.name;
+        if (mapped !== circulation) {
+            console.warn(`Roundabout ${name ?? `at ${center.x.toFixed(0)}, ${center.z.toFixed(0)}`} is mapped ${mapped}, expected ${circulation}`);
+        }
+
+        return {
+            center,
+            radius: Math.max(...distances) + halfWidth,
+            circulation,
+            name,
+            islandRadius: islandRadius >= RoundaboutLayout.minIslandRadius ? islandRadius : 0,
+            innerRadius,
+            laneRadius
+        };
+    }
+}
@@ -0,0 +1,140 @@
+import { RoadDimensions } from './RoadDimensions';
+import { JunctionLayout } from './JunctionLayout';
+import type { RoadNetwork, RoadEdge } from './RoadNetwork';
+import { LocalProjection } from '@/utils/LocalProjection';
+import type { GeoJSON, RoadPoint, TrafficControlType } from '@/types';
+
+/**
+ * A traffic signal, stop sign or give-way sign applying to one direction of travel on a road
+ */
+export interface TrafficControl {
+    id: string; // Unique per node and approach
+    nodeId: string; // OSM id of the control node ('@id')
+    type: TrafficControlType;
+    edgeId: number; // Directed road edge whose traffic the control applies to
+    distanceAlong: number; // Position of the stop line along the edge (meters)
+    stopLine: RoadPoint; // Centreline point of the stop line
+    direction: RoadPoint; // Unit direction of travel at the stop line
+    halfWidth: number; // meters
+    junctionNodeId: number | null; // Network node of the junction just ahead, if any
+}
+
+/**
+ * Matches traffic control nodes (highway=traffic_signals, stop and give_way points in the
+ * road data) to the road network. A node on a way applies at that point, to the direction
+ * given by its direction tag; a node mapped on the junction itself applies to the roads
+ * entering it, with the stop line set back from the crossing road.
+ * Pure geometry, no Three.js dependency.
+ */
+export class TrafficControlLayout {
+    private static readonly CONTROL_TYPES = new Set<string>(['traffic_signals', 'stop', 'give_way']);
+
+    private static readonly snapDistance = 1; // meters between a control node and the road it belongs to
+    private static readonly maxJunctionDistance = 30; // meters from the stop line to the junction it guards
+    private static readonly stopLineClearance = 1; // meters between the stop line and the crossing road's edge
+
+    /**
+     * Find the traffic controls in a roads GeoJSON and place them on the network
+     */
+    static fromGeoJSON(geoJSON: GeoJSON, network: RoadNetwork, centerLat: number, centerLon: number): TrafficControl[] {
+        const controls: TrafficControl[] = [];
+        let unmatched = 0;
+
+        (geoJSON?.features ?? []).forEach((feature, index) => {
+            const type = feature.properties?.highway;
+            if (feature.geometry?.type !== 'Point' || typeof type !== 'string' || !TrafficControlLayout.CONTROL_TYPES.has(type)) return;
+
+            const [lon, lat] = feature.geometry.coordinates;
+            const nodeId = String(feature.properties['@id'] ?? feature.id ?? `node/${index}`);
+            const directionTag = feature.properties[type === 'traffic_signals' ? 'traffic_signals:direction' : 'direction']
+                ?? feature.properties.direction;
+            const direction = typeof directionTag === 'string' ? directionTag.toLowerCase() : undefined;
+
+            const junction = network.getNodeAtCoordinate(lon, lat);
+            const approaches = junction
+                ? TrafficControlLayout.getJunctionApproaches(network, junction.id, type as TrafficControlType, direction)
+                : TrafficControlLayout.getWayApproaches(network, LocalProjection.toLocal(lat, lon, centerLat, centerLon), type as TrafficControlType, direction);
+
+            if (approaches.length === 0) {
+                unmatched++;
+                return;
+            }
+
+            approaches.forEach(({ edge, distanceAlong }) => {
+                const { point, direction: travel } = network.getPointAlongEdge(edge, distanceAlong);
+                const toEnd = edge.length - distanceAlong;
+                controls.push({
+                    id: `${nodeId}>${edge.id}`,
+                    nodeId,
+                    type: type as TrafficControlType,
+                    edgeId: edge.id,
+                    distanceAlong,
+                    stopLine: point,
+                    direction: travel,
+                    halfWidth: RoadDimensions.getRoadWidth(edge.properties.highway, edge.properties.lanes) / 2,
+                    junctionNodeId: toEnd <= TrafficControlLayout.maxJunctionDistance && network.getNodeDegree(edge.to) >= 3 ? edge.to : null
+                });
+            });
+        });
+
+        if (unmatched > 0) {
+            console.warn(`${unmatched} traffic control nodes are not on a drivable road`);
+        }
+        return controls;
+    }
+
+    /**
+     * Approaches for a control mapped on a junction node: the roads entering it
+     */
+    private static getJunctionApproaches(
+        network: RoadNetwork,
+        nodeId: number,
+        type: TrafficControlType,
+        direction?: string
+    ): Array<{ edge: RoadEdge; distanceAlong: number; }> {
+        let incoming = network.getIncomingEdges(nodeId).filter(edge => TrafficControlLayout.matchesDirection(edge, direction));
+
+        // Signs on a junction node bind the minor roads; an all-way stop when every road ranks the same
+        if (type !== 'traffic_signals') {
+            const majorRank = Math.max(...incoming.map(edge => JunctionLayout.getRank(edge.properties.highway)));
+            const minor = incoming.filter(edge => JunctionLayout.getRank(edge.properties.highway) < majorRank);
+            if (minor.length > 0) incoming = minor;
+        }
+
+        // Stop short of the widest road crossing the junction
+        const crossingHalfWidth = Math.max(...network.getOutgoingEdges(nodeId).map(edge =>
+            RoadDimensions.getRoadWidth(edge.properties.highway, edge.properties.lanes) / 2), 0);
+        const setback = crossingHalfWidth + TrafficControlLayout.stopLineClearance;
+
+        return incoming.map(edge => ({ edge, distanceAlong: Math.max(0, edge.length - Math.min(setback, edge.length / 2)) }));
+    }
+
+    /**
+     * Approaches for a control mapped part-way along a road. Without a direction tag, signals
+     * stop both directions; signs face the traffic heading to the nearer end of the road section.
+     */
+    private static getWayApproaches(
+        network: RoadNetwork,
+        position: RoadPoint,
+        type: TrafficControlType,
+        direction?: string
+    ): Array<{ edge: RoadEdge; distanceAlong: number; }> {
+        const nearby = network.findEdgesWithinRadius(position.x, position.z, TrafficControlLayout.snapDistance);
+        if (nearby.length === 0) return [];
+        // The node belongs to the closest way; other ways passing close by are not controlled by it
+        const hits = nearby.filter(hit => hit.edge.wayId === nearby[0].edge.wayId && TrafficControlLayout.matchesDirection(hit.edge, direction));
+
+        const approaches = hits.map(hit => ({ edge: hit.edge, distanceAlong: hit.distanceAlong }));
+        if (type === 'traffic_signals' || (direction !== undefined && direction !== 'both')) return approaches;
+        return approaches.filter(({ edge, distanceAlong }) => edge.twinId === null || distanceAlong >= edge.length / 2);
+    }
+
+    /**
+     * Whether an edge's travel matches a forward/backward direction tag (relative to the way)
+     */
+    private static matchesDirection(edge: RoadEdge, direction?: string): boolean {
+        if (direction === 'forward') return !edge.reversed;
+        if (direction === 'backward') return edge.reversed;
+        return true;
+    }
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RoadIndex } from '../RoadIndex';
+import { RoadDimensions } from '../RoadDimensions';
+import { LocalProjection } from '@/utils/LocalProjection';
+import type { GeoJSON, RoadInfo, RoadPoint } from '@/types';
+import fixture from './fixtures/roads.json';
+
+//   A --- B --- C      way/1 A-B-C, way/4 C-F (primary, ramped up to 6 m at F)
+//         |     |      way/2 B-E
+//   D --- E --- F      way/3 D-E-F (two lanes); the footway A-D is not a road
+const roads = fixture as unknown as GeoJSON;
+
+const toLocal = ([lon, lat]: [number, number]): RoadPoint => LocalProjection.toLocal(lat, lon, 35.9, 14.4);
+const A = toLocal([14.4, 35.9]);
+const B = toLocal([14.401, 35.9]);
+const C = toLocal([14.402, 35.9]);
+const E = toLocal([14.401, 35.899]);
+const F = toLocal([14.402, 35.899]);
+
+/**
+ * Index the fixture's roads the way RoadGenerator does, with the tags it returns
+ */
+function indexRoads(index: RoadIndex): void {
+    roads.features.forEach((feature, featureIndex) => {
+        const { properties, geometry } = feature;
+        if (geometry.type !== 'LineString' || properties.highway === 'footway') return;
+
+        const lanes = typeof properties.lanes === 'string' ? parseInt(properties.lanes, 10) : 1;
+        const road: RoadInfo = {
+            featureIndex,
+            name: properties.name as string | undefined,
+            highway: properties.highway!,
+            surface: typeof properties.surface === 'string' ? properties.surface.toLowerCase() : 'asphalt',
+            lanes,
+            maxspeed: properties.maxspeed as string | undefined
+        };
+        const ramped = feature.id === 'way/4';
+        const points = geometry.coordinates.map((coordinate, i) => ({ ...toLocal(coordinate), y: ramped ? i * 3 : 0 }));
+        index.addRoad(points, RoadDimensions.getRoadWidth(road.highway, lanes) / 2, road, ramped);
+    });
+}
+
+describe('RoadIndex', () => {
+    let index: RoadIndex;
+
+    beforeEach(() => {
+        index = new RoadIndex();
+        indexRoads(index);
+    });
+
+    it('finds the road under a point with its tags', () => {
+        const hit = index.getRoadAt((A.x + B.x) / 2, 1)!;
+
+        expect(hit.road).toEqual({ featureIndex: 0, name: 'Triq il-Kbira', highway: 'residential', surface: 'asphalt', lanes: 1, maxspeed: '50' });
+        expect(hit.distance).toBeCloseTo(1);
+        expect(hit.point.z).toBeCloseTo(0);
+        expect(hit.elevated).toBe(false);
+
+        expect(index.getRoadAt((E.x + F.x) / 2, E.z)!.road).toMatchObject({ name: 'Triq il-Knisja', lanes: 2, maxspeed: undefined });
+    });
+
+    it('takes the road with the nearest centreline where surfaces overlap', () => {
+        // Just south of B, on the corner of way/1 and way/2
+        expect(index.getRoadAt(B.x, B.z + 2)!.road.name).toBe('Triq San Pawl');
+        expect(index.getRoadAt(B.x + 2, B.z)!.road.name).toBe('Triq il-Kbira');
+    });
+
+    it('interpolates the surface height along raised roads', () => {
+        const hit = index.getRoadAt(C.x, (C.z + F.z) / 4)!;
+
+        expect(hit.road).toMatchObject({ name: 'Triq il-Mosta', highway: 'primary', surface: 'asphalt', maxspeed: '80' });
+        expect(hit.height).toBeCloseTo(1.5, 1);
+        expect(hit.elevated).toBe(true);
+    });
+
+    it('tells on road from off road', () => {
+        const halfWidth = RoadDimensions.getRoadWidth('residential', 1) / 2;
+
+        expect(index.isOnRoad((A.x + B.x) / 2, halfWidth - 0.1)).toBe(true);
+        expect(index.isOnRoad((A.x + B.x) / 2, halfWidth + 0.1)).toBe(false);
+        // The footway along A-D isn't indexed
+        expect(index.isOnRoad(A.x, (A.z + E.z) / 2)).toBe(false);
+    });
+
+    it('finds the nearest road within a distance', () => {
+        // Middle of the western block: way/2 is 45 m away, way/1 and way/3 about 56 m
+        const x = (A.x + B.x) / 2;
+        const z = (A.z + E.z) / 2;
+        const hit = index.findNearest(x, z)!;
+
+        expect(hit.road).toMatchObject({ featureIndex: 1, name: 'Triq San Pawl', highway: 'residential', lanes: 1 });
+        expect(hit.distance).toBeCloseTo(B.x - x, 0);
+        expect(hit.point.x).toBeCloseTo(B.x);
+        expect(index.getRoadAt(x, z)).toBeNull();
+        expect(index.findNearest(x, z, 40)).toBeNull();
+    });
+
+    it('forgets all roads when cleared', () => {
+        expect(index.size).toBeGreaterThan(0);
+        index.clear();
+
+        expect(index.size).toBe(0);
+        expect(index.getRoadAt((A.x + B.x) / 2, 0)).toBeNull();
+    });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { RoadNetwork } from '../RoadNetwork';
+import type { GeoJSON } from '@/types';
+import fixture from './fixtures/roads.json';
+
+// A block of four residential streets and a primary road, with a footway and two control nodes:
+//
+//   A --- B --- C      way/1 A-B-C, way/4 C-F (primary)
+//         |     |      way/2 B-E, one-way southbound
+//   D --- E --- F      way/3 D-E-F, way/5 A-D (footway)
+const roads = fixture as unknown as GeoJSON;
+const network = RoadNetwork.fromGeoJSON(roads, 35.9, 14.4);
+
+const node = (lon: number, lat: number) => network.getNodeAtCoordinate(lon, lat)!;
+const A = node(14.4, 35.9);
+const B = node(14.401, 35.9);
+const C = node(14.402, 35.9);
+const D = node(14.4, 35.899);
+const E = node(14.401, 35.899);
+const F = node(14.402, 35.899);
+
+const edgesOf = (wayId: string) => network.getEdges().filter(edge => edge.wayId === wayId);
+
+describe('RoadNetwork', () => {
+    it('places nodes at way endpoints and shared coordinates only', () => {
+        expect(network.getNodes()).toHaveLength(6);
+        [A, B, C, D, E, F].forEach(n => expect(n).toBeDefined());
+        // Shape points of a single way don't become nodes
+        expect(network.getNodeAtCoordinate(14.402, 35.8995)).toBeUndefined();
+        expect(network.getNodeAtCoordinate(14.401, 35.8992)).toBeUndefined();
+    });
+
+    it('merges ways that share an endpoint into one node', () => {
+        // way/1 ends and way/4 starts at C
+        expect(network.getNeighbours(C.id).map(n => n.id).sort()).toEqual([B.id, F.id].sort());
+        expect(network.getNodeDegree(C.id)).toBe(2);
+        // way/2 starts at B, part-way along way/1, which is split there
+        expect(network.getNodeDegree(B.id)).toBe(3);
+        expect(edgesOf('way/1')).toHaveLength(4);
+    });
+
+    it('leaves out ways that are not drivable', () => {
+        expect(edgesOf('way/5')).toHaveLength(0);
+        expect(network.getNodeDegree(A.id)).toBe(1);
+        expect(network.getNodeDegree(D.id)).toBe(1);
+    });
+
+    it('gives two-way roads a twin edge for each direction', () => {
+        const [forward, backward] = edgesOf('way/4');
+        expect(forward.from).toBe(C.id);
+        expect(forward.to).toBe(F.id);
+        expect(forward.reversed).toBe(false);
+        expect(backward.from).toBe(F.id);
+        expect(backward.to).toBe(C.id);
+        expect(backward.reversed).toBe(true);
+        expect(forward.twinId).toBe(backward.id);
+        expect(backward.twinId).toBe(forward.id);
+        expect(backward.points[0]).toEqual(forward.points[forward.points.length - 1]);
+        // 0.001° of latitude
+        expect(forward.length).toBeCloseTo(111.19, 1);
+    });
+
+    it('only allows travel along a one-way road in its direction', () => {
+        const edges = edgesOf('way/2');
+        expect(edges).toHaveLength(1);
+        expect(edges[0].from).toBe(B.id);
+        expect(edges[0].to).toBe(E.id);
+        expect(edges[0].twinId).toBeNull();
+        expect(edges[0].properties.oneway).toBe('forward');
+
+        expect(network.getNeighbours(B.id).map(n => n.id)).toContain(E.id);
+        expect(network.getNeighbours(E.id).map(n => n.id)).not.toContain(B.id);
+    });
+
+    it('parses oneway tags and implied one-way roads', () => {
+        expect(RoadNetwork.parseOneWay({ highway: 'residential', oneway: 'yes' })).toBe('forward');
+        expect(RoadNetwork.parseOneWay({ highway: 'residential', oneway: '-1' })).toBe('backward');
+        expect(RoadNetwork.parseOneWay({ highway: 'residential', oneway: 'alternating' })).toBe('reversible');
+        expect(RoadNetwork.parseOneWay({ highway: 'residential' })).toBe('no');
+        expect(RoadNetwork.parseOneWay({ highway: 'motorway' })).toBe('forward');
+        expect(RoadNetwork.parseOneWay({ highway: 'primary', junction: 'roundabout' })).toBe('forward');
+        expect(RoadNetwork.parseOneWay({ highway: 'motorway', oneway: 'no' })).toBe('no');
+    });
+
+    it('carries the road tags on its edges', () => {
+        const [primary] = edgesOf('way/4');
+        expect(primary.properties).toMatchObject({ highway: 'primary', maxspeed: '80', surface: 'asphalt', name: 'Triq il-Mosta', lanes: 1 });
+        expect(edgesOf('way/3')[0].properties.lanes).toBe(2);
+        expect(edgesOf('way/1')[0].properties.surface).toBe('asphalt');
+    });
+
+    it('finds the nearest edge, preferring the one facing the heading', () => {
+        const x = C.x + 2; // 2 m east of the centreline of way/4
+        const z = (C.z + F.z) / 2;
+
+        const southbound = network.findNearestEdge(x, z, 15, { x: 0, z: 1 })!;
+        expect(southbound.edge.wayId).toBe('way/4');
+        expect(southbound.edge.reversed).toBe(false);
+        expect(southbound.distance).toBeCloseTo(2, 5);
+        expect(southbound.distanceAlong).toBeCloseTo(southbound.edge.length / 2, 1);
+        // East is to the left when heading south (+z)
+        expect(southbound.lateralOffset).toBeCloseTo(2, 5);
+
+        const northbound = network.findNearestEdge(x, z, 15, { x: 0, z: -1 })!;
+        expect(northbound.edge.id).toBe(southbound.edge.twinId);
+        expect(northbound.lateralOffset).toBeCloseTo(-2, 5);
+
+        expect(network.findNearestEdge(x + 50, z, 15)).toBeNull();
+    });
+
+    it('finds the edges within a radius and the nearest node', () => {
+        const hits = network.findEdgesWithinRadius(B.x, B.z + 30, 5);
+        expect(hits.map(hit => hit.edge.wayId)).toEqual(['way/2']);
+        expect(network.findNearestNode(E.x + 3, E.z - 3)?.id).toBe(E.id);
+        expect(network.findNearestNode(E.x + 30, E.z, 10)).toBeNull();
+    });
+});
@@ -0,0 +1,259 @@
+import { RoadDimensions } from '../network/RoadDimensions';
+import { SpeedLimits } from './SpeedLimits';
+import type { TrafficSignalController } from './TrafficSignalController';
+import type { RoadNetwork, RoadEdge, EdgeQueryResult } from '../network/RoadNetwork';
+import type { TrafficControl } from '../network/TrafficControlLayout';
+import type { RoadPoint, DrivingSide, TrafficViolation, ViolationType, ViolationSeverity } from '@/types';
+
+export interface CarState {
+    position: RoadPoint;
+    heading: RoadPoint; // Unit direction the car is facing
+    speed: number; // km/h, negative when reversing
+}
+
+export interface RuleEngineOptions {
+    drivingSide: DrivingSide;
+    speedTolerance: number; // km/h over the limit before speeding counts
+    countryCode?: string; // Selects the default limits for roads without a maxspeed tag
+}
+
+export interface RuleEvaluation {
+    violations: TrafficViolation[]; // Violations raised (or escalated) this update
+    active: ViolationType[]; // Violations currently in progress
+    road: RoadEdge | null; // Road the car is on, in its direction of travel
+    speedLimit: number | null; // km/h on the current road
+}
+
+/**
+ * Checks the car against traffic rules every frame: speeding, driving against a one-way
+ * street, leaving the road, driving on the wrong side of a two-way road, crossing a stop
+ * line while the signal shows red and passing a stop sign without stopping.
+ * A violation is reported once when it has lasted longer than its grace period, and again
+ * if it escalates to a higher severity. Pure logic over the road network, no scene access.
+ */
+export class RuleEngine {
+    private options: RuleEngineOptions;
+    private elapsed: number = 0;
+    private conditionTimes: Map<ViolationType, number> = new Map();
+    private reported: Map<ViolationType, ViolationSeverity> = new Map();
+    private lastRoadPosition: { edgeId: number; distanceAlong: number; } | null = null;
+    private stopSignsByEdge: Map<number, TrafficControl[]> = new Map();
+    private stoppedAt: Set<string> = new Set(); // Stop signs the car has stopped at and not yet passed
+
+    // Seconds a condition must last before it counts as a violation
+    private readonly gracePeriods: Record<ViolationType, number> = {
+        'speeding': 1.5,
+        'wrong-way': 1.0,
+        'off-road': 0.5,
+        'wrong-side': 0.6,
+        'red-light': 0, // Reported the moment the stop line is crossed
+        'stop-sign': 0
+    };
+
+    private readonly severityRank: Record<ViolationSeverity, number> = { minor: 0, major: 1, severe: 2 };
+
+    private readonly roadSearchRadius = 15; // meters
+    private readonly offRoadTolerance = 0.5; // meters beyond the road edge
+    private readonly minMovingSpeed = 3; // km/h
+    private readonly centreLineMargin = 0.3; // meters past the centre line before it counts
+    private readonly junctionClearance = 10; // meters from section ends where lane position isn't judged
+    private readonly minAlignment = 0.7; // cosine between travel and road direction
+    private readonly stopSignApproach = 15; // meters before a stop line where the car must stop
+    private readonly maxStoppedSpeed = 2; // km/h that counts as stopped
+
+    constructor(
+        private network: RoadNetwork,
+        options: Partial<RuleEngineOptions> = {},
+        private signals: TrafficSignalController | null = null,
+        controls: TrafficControl[] = []
+    ) {
+        this.options = {
+            drivingSide: 'right',
+            speedTolerance: 2,
+            ...options
+        };
+
+        controls.filter(control => control.type === 'stop').forEach(control => {
+            this.stopSignsByEdge.set(control.edgeId, [...(this.stopSignsByEdge.get(control.edgeId) ?? []), control]);
+        });
+    }
+
+    setDrivingSide(side: DrivingSide): void {
+        this.options.drivingSide = side;
+        this.reset();
+    }
+
+    getDrivingSide(): DrivingSide {
+        return this.options.drivingSide;
+    }
+
+    /**
+     * Evaluate the rules for the current car state
+     */
+    update(state: CarState, delta: number): RuleEvaluation {
+        this.elapsed += delta;
+
+        const speed = Math.abs(state.speed);
+        // Direction of travel (reversing travels against the heading)
+        const travel = state.speed < 0 ? { x: -state.heading.x, z: -state.heading.z } : state.heading;
+        const hit = this.network.findNearestEdge(state.position.x, state.position.z, this.roadSearchRadius, travel);
+        const onRoad = hit !== null && hit.distance <= this.getHalfWidth(hit.edge) + this.offRoadTolerance;
+        const road = onRoad ? hit!.edge : null;
+        const speedLimit = road ? SpeedLimits.getLimit(road, this.options.countryCode) : null;
+
+        // Conditions detected this frame, with their severity
+        const conditions = new Map<ViolationType, ViolationSeverity>();
+        if (!onRoad) {
+            if (speed > this.minMovingSpeed) conditions.set('off-road', 'minor');
+        } else {
+            if (speedLimit !== null && speed > speedLimit + this.options.speedTolerance) {
+                conditions.set('speeding', this.getSpeedingSeverity(speed - speedLimit));
+            }
+            if (speed > this.minMovingSpeed && this.isAgainstOneWay(hit!, travel)) {
+                conditions.set('wrong-way', 'severe');
+            } else if (speed > this.minMovingSpeed && this.isOnWrongSide(hit!, travel)) {
+                conditions.set('wrong-side', 'major');
+            }
+            if (this.crossedRedLight(hit!)) {
+                conditions.set('red-light', 'severe');
+            }
+            if (this.ranStopSign(hit!, speed)) {
+                conditions.set('stop-sign', 'major');
+            }
+        }
+        this.lastRoadPosition = onRoad ? { edgeId: hit!.edge.id, distanceAlong: hit!.distanceAlong } : null;
+
+        const violations: TrafficViolation[] = [];
+        const active: ViolationType[] = [];
+        (Object.keys(this.gracePeriods) as ViolationType[]).forEach(type => {
+            const severity = conditions.get(type);
+            if (!severity) {
+                this.conditionTimes.delete(type);
+                this.reported.delete(type);
+                return;
+            }
+
+            const duration = (this.conditionTimes.get(type) ?? 0) + delta;
+            this.conditionTimes.set(type, duration);
+            if (duration < this.gracePeriods[type]) return;
+            active.push(type);
+
+            const previous = this.reported.get(type);
+            if (previous === undefined || this.severityRank[severity] > this.severityRank[previous]) {
+                this.reported.set(type, severity);
+                violations.push({
+                    type,
+                    severity,
+                    message: this.describe(type, speed, speedLimit),
+                    position: { x: state.position.x, z: state.position.z },
+                    roadName: (road ?? hit?.edge)?.properties.name,
+                    speed,
+                    speedLimit: type === 'speeding' && speedLimit !== null ? speedLimit : undefined,
+                    time: this.elapsed
+                });
+            }
+        });
+
+        return { violations, active, road, speedLimit };
+    }
+
+    /**
+     * Forget all in-progress violations (e.g. after the car is teleported)
+     */
+    reset(): void {
+        this.conditionTimes.clear();
+        this.reported.clear();
+        this.lastRoadPosition = null;
+        this.stoppedAt.clear();
+    }
+
+    private getHalfWidth(edge: RoadEdge): number {
+        return RoadDimensions.getRoadWidth(edge.properties.highway, edge.properties.lanes) / 2;
+    }
+
+    private getSpeedingSeverity(excess: number): ViolationSeverity {
+        if (excess >= 25) return 'severe';
+        if (excess >= 10) return 'major';
+        return 'minor';
+    }
+
+    /**
+     * Travelling against the permitted direction of a one-way road
+     */
+    private isAgainstOneWay(hit: EdgeQueryResult, travel: RoadPoint): boolean {
+        // Two-way roads have an edge for each direction, so the nearest edge already matches the travel direction
+        if (hit.edge.twinId !== null) return false;
+        const { direction } = this.network.getPointAlongEdge(hit.edge, hit.distanceAlong);
+        return direction.x * travel.x + direction.z * travel.z < -this.minAlignment;
+    }
+
+    /**
+     * On the opposing half of a two-way road, away from junctions where corners are cut
+     */
+    private isOnWrongSide(hit: EdgeQueryResult, travel: RoadPoint): boolean {
+        const { edge } = hit;
+        // Reversible roads carry a single flow at a time, in whichever direction is open
+        if (edge.twinId === null || edge.properties.oneway === 'reversible') return false;
+        if (hit.distanceAlong < this.junctionClearance || edge.length - hit.distanceAlong < this.junctionClearance) return false;
+
+        const { direction } = this.network.getPointAlongEdge(edge, hit.distanceAlong);
+        if (direction.x * travel.x + direction.z * travel.z < this.minAlignment) return false;
+
+        // lateralOffset is positive to the left of travel
+        return this.options.drivingSide === 'right'
+            ? hit.lateralOffset > this.centreLineMargin
+            : hit.lateralOffset < -this.centreLineMargin;
+    }
+
+    /**
+     * Passed a signal's stop line since the last update while it showed red
+     */
+    private crossedRedLight(hit: EdgeQueryResult): boolean {
+        if (!this.signals) return false;
+        return this.signals.getSignalsOnEdge(hit.edge.id).some(signal =>
+            this.crossedStopLine(hit, signal) && this.signals!.getPhase(signal.id)?.phase === 'red');
+    }
+
+    /**
+     * Passed a stop sign's stop line since the last update without having stopped before it
+     */
+    private ranStopSign(hit: EdgeQueryResult, speed: number): boolean {
+        let ran = false;
+        (this.stopSignsByEdge.get(hit.edge.id) ?? []).forEach(sign => {
+            const toLine = sign.distanceAlong - hit.distanceAlong;
+            if (toLine >= 0 && toLine <= this.stopSignApproach && speed <= this.maxStoppedSpeed) {
+                this.stoppedAt.add(sign.id);
+            } else if (this.crossedStopLine(hit, sign)) {
+                if (!this.stoppedAt.has(sign.id)) ran = true;
+                this.stoppedAt.delete(sign.id);
+            }
+        });
+        return ran;
+    }
+
+    /**
+     * Whether the car moved over a control's stop line since the last update
+     */
+    private crossedStopLine(hit: EdgeQueryResult, control: TrafficControl): boolean {
+        const previous = this.lastRoadPosition;
+        if (!previous || previous.edgeId !== hit.edge.id) return false;
+        return previous.distanceAlong < control.distanceAlong && hit.distanceAlong >= control.distanceAlong;
+    }
+
+    private describe(type: ViolationType, speed: number, speedLimit: number | null): string {
+        switch (type) {
+            case 'speeding':
+                return `Speeding: ${Math.round(speed)} km/h in a ${speedLimit} km/h zone`;
+            case 'wrong-way':
+                return 'Driving the wrong way down a one-way street';
+            case 'off-road':
+                return 'Left the road';
+            case 'wrong-side':
+                return `Driving on the wrong side of the road (keep ${this.options.drivingSide})`;
+            case 'red-light':
+                return 'Ran a red light';
+            case 'stop-sign':
+                return 'Did not stop at a stop sign';
+        }
+    }
+}
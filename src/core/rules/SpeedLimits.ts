@@ -0,0 +1,97 @@
+import type { RoadEdge } from '../network/RoadNetwork';
+
+/**
+ * Legal speed limit resolution from OSM maxspeed tags, with per-country and per-highway
+ * defaults for untagged roads. The city being driven can add or override its country's zone
+ * limits. No scene dependencies.
+ */
+export class SpeedLimits {
+    // Default limits (km/h) by highway type when a road has no maxspeed tag and the country is unknown
+    private static readonly highwayDefaults: Record<string, number> = {
+        motorway: 110,
+        trunk: 80,
+        primary: 60,
+        secondary: 50,
+        tertiary: 50,
+        unclassified: 50,
+        residential: 30,
+        living_street: 20
+    };
+
+    // Statutory limits (km/h) per limit zone, keyed by ISO 3166-1 country code
+    private static readonly builtInZoneLimits: Record<string, Record<string, number>> = {
+        MT: { urban: 50, rural: 80, motorway: 80, living_street: 20 },
+        MC: { urban: 50, rural: 50, motorway: 50, living_street: 20 }
+    };
+
+    // Built-in limits with the current city's overrides
+    private static countryZoneLimits: Record<string, Record<string, number>> = SpeedLimits.builtInZoneLimits;
+
+    // Zone an untagged road falls in; everything else counts as built-up (urban)
+    private static readonly highwayZones: Record<string, string> = {
+        motorway: 'motorway',
+        trunk: 'rural',
+        living_street: 'living_street'
+    };
+
+    private static readonly fallbackLimit = 50;
+
+    /**
+     * Set the limits (km/h) per zone of the city being driven, on top of its country's built-in
+     * ones. Replaces the overrides of the previous city; without limits only the built-in ones apply.
+     */
+    static setCityZoneLimits(countryCode: string, limits?: Record<string, number>): void {
+        const country = countryCode.toUpperCase();
+        SpeedLimits.countryZoneLimits = limits
+            ? { ...SpeedLimits.builtInZoneLimits, [country]: { ...SpeedLimits.builtInZoneLimits[country], ...limits } }
+            : SpeedLimits.builtInZoneLimits;
+    }
+
+    /**
+     * Parse an OSM maxspeed value ("50", "30 mph", "walk", "MT:urban") to km/h.
+     * Zone values without a country prefix ("urban") use the given country.
+     * Returns null for values that are not a limit (e.g. "signals", "none", "sign").
+     */
+    static parseMaxSpeed(value?: string, countryCode?: string): number | null {
+        if (!value) return null;
+        const normalized = value.trim().toLowerCase();
+        if (normalized === 'walk') return 7;
+
+        const zone = normalized.match(/^(?:([a-z]{2}):)?([a-z_]+)$/);
+        if (zone) {
+            const country = zone[1] ? zone[1].toUpperCase() : countryCode;
+            return SpeedLimits.getZoneLimit(country, zone[2]);
+        }
+
+        const parsed = parseFloat(normalized);
+        if (isNaN(parsed) || parsed <= 0) return null;
+        return normalized.includes('mph') ? Math.round(parsed * 1.609) : parsed;
+    }
+
+    /**
+     * Default limit (km/h) for a highway type, using the country's statutory limits when known
+     */
+    static getDefaultLimit(highway: string, countryCode?: string): number {
+        const type = highway.replace('_link', '');
+        const zoneLimit = SpeedLimits.getZoneLimit(countryCode, SpeedLimits.highwayZones[type] ?? 'urban');
+        return zoneLimit ?? SpeedLimits.highwayDefaults[type] ?? SpeedLimits.fallbackLimit;
+    }
+
+    /**
+     * Legal limit (km/h) for travel along an edge: the directional tag for the edge's
+     * direction, then the way's maxspeed, then its limit zone, then the highway default
+     */
+    static getLimit(edge: RoadEdge, countryCode?: string): number {
+        const properties = edge.properties;
+        const directional = edge.reversed ? properties.maxspeedBackward : properties.maxspeedForward;
+        return SpeedLimits.parseMaxSpeed(directional, countryCode)
+            ?? SpeedLimits.parseMaxSpeed(properties.maxspeed, countryCode)
+            ?? SpeedLimits.parseMaxSpeed(properties.maxspeedType, countryCode)
+            ?? SpeedLimits.getDefaultLimit(properties.highway, countryCode);
+    }
+
+    private static getZoneLimit(countryCode: string | undefined, zone: string): number | null {
+        if (!countryCode) return null;
+        return SpeedLimits.countryZoneLimits[countryCode.toUpperCase()]?.[zone] ?? null;
+    }
+}
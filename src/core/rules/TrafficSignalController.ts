@@ -0,0 +1,142 @@
+import type { TrafficControl } from '../network/TrafficControlLayout';
+import type { SignalPhase } from '@/types';
+
+export interface SignalTimings {
+    green: number; // seconds
+    amber: number;
+    allRed: number; // Clearance between stages, every approach red
+    crossing: number; // Pedestrian stage when a group has only one vehicle stage
+}
+
+/**
+ * Approaches shown green together
+ */
+interface SignalStage {
+    controlIds: string[];
+    green: number; // seconds
+}
+
+/**
+ * The signals of one junction (or one stand-alone crossing), run on a single cycle
+ */
+interface SignalGroup {
+    stages: SignalStage[];
+    cycle: number; // seconds
+    offset: number; // seconds, staggers neighbouring junctions
+}
+
+/**
+ * Runs fixed-time plans for the traffic signals. Signals guarding the same junction form one
+ * group and take turns: approaches from opposite sides share a stage, and every stage runs
+ * green, amber and an all-red clearance before the next one starts. Groups with a single
+ * vehicle stage (a signalled crossing, or only one signalled road) alternate it with a
+ * pedestrian stage. Pure logic, no scene access.
+ */
+export class TrafficSignalController {
+    private timings: SignalTimings;
+    private elapsed: number = 0;
+    private signals: Map<string, TrafficControl> = new Map();
+    private signalsByEdge: Map<number, TrafficControl[]> = new Map();
+    private stages: Map<string, { group: SignalGroup; stage: number; }> = new Map();
+    private groupCount: number = 0;
+
+    private readonly sameAxisAlignment = 0.7; // |cosine| between approaches that share a stage
+    private readonly offsetStep = 7; // seconds of stagger between successive groups
+
+    constructor(controls: TrafficControl[], timings: Partial<SignalTimings> = {}) {
+        this.timings = {
+            green: 20,
+            amber: 3,
+            allRed: 2,
+            crossing: 12,
+            ...timings
+        };
+
+        const groups = new Map<string, TrafficControl[]>();
+        controls.filter(control => control.type === 'traffic_signals').forEach(control => {
+            this.signals.set(control.id, control);
+            const onEdge = this.signalsByEdge.get(control.edgeId) ?? [];
+            onEdge.push(control);
+            this.signalsByEdge.set(control.edgeId, onEdge);
+
+            const key = control.junctionNodeId !== null ? `junction:${control.junctionNodeId}` : `signal:${control.nodeId}`;
+            groups.set(key, [...(groups.get(key) ?? []), control]);
+        });
+        this.signalsByEdge.forEach(onEdge => onEdge.sort((a, b) => a.distanceAlong - b.distanceAlong));
+
+        [...groups.values()].forEach((members, index) => this.addGroup(members, index));
+        this.groupCount = groups.size;
+    }
+
+    /**
+     * Advance the signal plans
+     */
+    update(delta: number): void {
+        this.elapsed += delta;
+    }
+
+    getSignals(): TrafficControl[] {
+        return [...this.signals.values()];
+    }
+
+    getSignal(id: string): TrafficControl | undefined {
+        return this.signals.get(id);
+    }
+
+    /**
+     * Signals on a directed road edge, in order of travel
+     */
+    getSignalsOnEdge(edgeId: number): TrafficControl[] {
+        return this.signalsByEdge.get(edgeId) ?? [];
+    }
+
+    getGroupCount(): number {
+        return this.groupCount;
+    }
+
+    /**
+     * Light a signal currently shows and how long until it changes (null for unknown signals)
+     */
+    getPhase(id: string): { phase: SignalPhase; timeRemaining: number; } | null {
+        const entry = this.stages.get(id);
+        if (!entry) return null;
+
+        const { group, stage } = entry;
+        const { amber, allRed } = this.timings;
+        let start = 0;
+        for (let i = 0; i < stage; i++) {
+            start += group.stages[i].green + amber + allRed;
+        }
+        const time = ((this.elapsed + group.offset - start) % group.cycle + group.cycle) % group.cycle;
+        const green = group.stages[stage].green;
+
+        if (time < green) return { phase: 'green', timeRemaining: green - time };
+        if (time < green + amber) return { phase: 'amber', timeRemaining: green + amber - time };
+        return { phase: 'red', timeRemaining: group.cycle - time };
+    }
+
+    /**
+     * Split a group's approaches into stages by the axis they arrive along
+     */
+    private addGroup(members: TrafficControl[], index: number): void {
+        const stages: SignalStage[] = [];
+        const axes: TrafficControl[] = []; // First approach of each stage
+        members.forEach(control => {
+            const stage = axes.findIndex(axis =>
+                Math.abs(axis.direction.x * control.direction.x + axis.direction.z * control.direction.z) >= this.sameAxisAlignment);
+            if (stage >= 0) {
+                stages[stage].controlIds.push(control.id);
+            } else {
+                axes.push(control);
+                stages.push({ controlIds: [control.id], green: this.timings.green });
+            }
+        });
+        if (stages.length === 1) {
+            stages.push({ controlIds: [], green: this.timings.crossing });
+        }
+
+        const cycle = stages.reduce((sum, stage) => sum + stage.green + this.timings.amber + this.timings.allRed, 0);
+        const group: SignalGroup = { stages, cycle, offset: (index * this.offsetStep) % cycle };
+        stages.forEach((stage, stageIndex) => stage.controlIds.forEach(id => this.stages.set(id, { group, stage: stageIndex })));
+    }
+}
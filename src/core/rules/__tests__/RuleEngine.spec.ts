@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RuleEngine } from '../RuleEngine';
+import type { CarState } from '../RuleEngine';
+import { TrafficSignalController } from '../TrafficSignalController';
+import { RoadNetwork } from '../../network/RoadNetwork';
+import { TrafficControlLayout } from '../../network/TrafficControlLayout';
+import type { TrafficControl } from '../../network/TrafficControlLayout';
+import type { GeoJSON, RoadPoint } from '@/types';
+import fixture from '../../network/__tests__/fixtures/roads.json';
+
+// A --- B --- C    way/1 A-B-C has a 50 km/h limit; way/4 C-F is a primary road with
+//       |     |    signals half-way down; way/2 B-E is one-way southbound with a stop
+// D --- E --- F    sign 22 m before E
+const roads = fixture as unknown as GeoJSON;
+const network = RoadNetwork.fromGeoJSON(roads, 35.9, 14.4);
+const controls = TrafficControlLayout.fromGeoJSON(roads, network, 35.9, 14.4);
+
+const point = (lon: number, lat: number): RoadPoint => {
+    const node = network.getNodeAtCoordinate(lon, lat)!;
+    return { x: node.x, z: node.z };
+};
+const A = point(14.4, 35.9);
+const B = point(14.401, 35.9);
+const C = point(14.402, 35.9);
+
+const east = { x: 1, z: 0 };
+const south = { x: 0, z: 1 };
+
+const control = (type: string): TrafficControl => controls.find(candidate => candidate.type === type)!;
+
+/**
+ * A car driving south on the right of a north-south road starting at a node, a distance down it
+ */
+function southbound(from: RoadPoint, distance: number, speed: number): CarState {
+    return { position: { x: from.x - 1, z: from.z + distance }, heading: south, speed };
+}
+
+describe('RuleEngine', () => {
+    let signals: TrafficSignalController;
+    let engine: RuleEngine;
+
+    beforeEach(() => {
+        signals = new TrafficSignalController(controls);
+        engine = new RuleEngine(network, { drivingSide: 'right', countryCode: 'MT' }, signals, controls);
+    });
+
+    describe('speeding', () => {
+        // Eastbound on the right of Triq il-Kbira, half-way between A and B
+        const position = { x: (A.x + B.x) / 2, z: A.z + 1 };
+
+        it('reports speeding once it has lasted past the grace period', () => {
+            const first = engine.update({ position, heading: east, speed: 70 }, 1);
+            expect(first.speedLimit).toBe(50);
+            expect(first.road?.wayId).toBe('way/1');
+            expect(first.violations).toHaveLength(0);
+
+            const second = engine.update({ position, heading: east, speed: 70 }, 1);
+            expect(second.active).toContain('speeding');
+            expect(second.violations).toHaveLength(1);
+            expect(second.violations[0]).toMatchObject({
+                type: 'speeding',
+                severity: 'major',
+                speed: 70,
+                speedLimit: 50,
+                roadName: 'Triq il-Kbira'
+            });
+
+            // Still speeding, but already reported
+            expect(engine.update({ position, heading: east, speed: 70 }, 1).violations).toHaveLength(0);
+        });
+
+        it('reports again when the speeding gets worse', () => {
+            engine.update({ position, heading: east, speed: 55 }, 2);
+            const escalated = engine.update({ position, heading: east, speed: 80 }, 0.1);
+
+            expect(escalated.violations).toHaveLength(1);
+            expect(escalated.violations[0].severity).toBe('severe');
+        });
+
+        it('allows the tolerance over the limit', () => {
+            engine.update({ position, heading: east, speed: 52 }, 2);
+            const evaluation = engine.update({ position, heading: east, speed: 52 }, 2);
+
+            expect(evaluation.active).not.toContain('speeding');
+            expect(evaluation.violations).toHaveLength(0);
+        });
+
+        it('forgets speeding that stopped before the grace period ran out', () => {
+            engine.update({ position, heading: east, speed: 70 }, 1);
+            engine.update({ position, heading: east, speed: 40 }, 0.1);
+
+            expect(engine.update({ position, heading: east, speed: 70 }, 1).violations).toHaveLength(0);
+        });
+    });
+
+    describe('red lights', () => {
+        const signal = () => control('traffic_signals');
+
+        it('reports crossing the stop line on red', () => {
+            signals.update(30); // The signals on way/4 show green for 20 s, then amber and red
+            expect(signals.getPhase(signal().id)?.phase).toBe('red');
+
+            const line = signal().distanceAlong;
+            engine.update(southbound(C, line - 3, 30), 0.1);
+            const evaluation = engine.update(southbound(C, line + 1, 30), 0.1);
+
+            expect(evaluation.violations.map(violation => violation.type)).toEqual(['red-light']);
+            expect(evaluation.violations[0]).toMatchObject({ severity: 'severe', roadName: 'Triq il-Mosta' });
+        });
+
+        it('lets the car through on green', () => {
+            expect(signals.getPhase(signal().id)?.phase).toBe('green');
+
+            const line = signal().distanceAlong;
+            engine.update(southbound(C, line - 3, 30), 0.1);
+            expect(engine.update(southbound(C, line + 1, 30), 0.1).violations).toHaveLength(0);
+        });
+
+        it('ignores a red light the car is still waiting at', () => {
+            signals.update(30);
+
+            const line = signal().distanceAlong;
+            engine.update(southbound(C, line - 5, 10), 0.1);
+            expect(engine.update(southbound(C, line - 1, 0), 0.1).violations).toHaveLength(0);
+        });
+    });
+
+    describe('stop signs', () => {
+        const sign = () => control('stop');
+        const approach = (distance: number, speed: number): CarState =>
+            ({ position: { x: B.x, z: B.z + distance }, heading: south, speed });
+
+        it('is on the one-way street, facing its traffic', () => {
+            expect(network.getEdge(sign().edgeId)?.wayId).toBe('way/2');
+            expect(sign().direction.z).toBeCloseTo(1, 5);
+        });
+
+        it('reports driving past a stop sign without stopping', () => {
+            const line = sign().distanceAlong;
+            engine.update(approach(line - 10, 30), 0.1);
+            engine.update(approach(line - 2, 25), 0.1);
+            const evaluation = engine.update(approach(line + 2, 25), 0.1);
+
+            expect(evaluation.violations).toHaveLength(1);
+            expect(evaluation.violations[0]).toMatchObject({ type: 'stop-sign', severity: 'major', roadName: 'Triq San Pawl' });
+        });
+
+        it('lets the car go after it has stopped at the line', () => {
+            const line = sign().distanceAlong;
+            engine.update(approach(line - 10, 30), 0.1);
+            engine.update(approach(line - 1, 0), 0.1);
+            engine.update(approach(line - 0.5, 5), 0.1);
+            expect(engine.update(approach(line + 2, 12), 0.1).violations).toHaveLength(0);
+        });
+
+        it('does not count a stop made well before the sign', () => {
+            const line = sign().distanceAlong;
+            engine.update(approach(line - 40, 0), 0.1);
+            engine.update(approach(line - 5, 30), 0.1);
+
+            expect(engine.update(approach(line + 2, 30), 0.1).violations.map(violation => violation.type)).toEqual(['stop-sign']);
+        });
+
+        it('needs a new stop after a reset', () => {
+            const line = sign().distanceAlong;
+            engine.update(approach(line - 1, 0), 0.1);
+            engine.reset();
+            engine.update(approach(line - 1, 20), 0.1);
+
+            expect(engine.update(approach(line + 2, 20), 0.1).violations.map(violation => violation.type)).toEqual(['stop-sign']);
+        });
+    });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { SpeedLimits } from '../SpeedLimits';
+
+describe('SpeedLimits', () => {
+    afterEach(() => {
+        SpeedLimits.setCityZoneLimits('MT');
+    });
+
+    it('resolves zone values with the country\'s limits', () => {
+        expect(SpeedLimits.parseMaxSpeed('MT:rural')).toBe(80);
+        expect(SpeedLimits.parseMaxSpeed('urban', 'MT')).toBe(50);
+        expect(SpeedLimits.parseMaxSpeed('30 mph')).toBe(48);
+        expect(SpeedLimits.parseMaxSpeed('signals')).toBeNull();
+    });
+
+    it('applies a city\'s overrides on top of its country\'s limits', () => {
+        SpeedLimits.setCityZoneLimits('mt', { urban: 40 });
+
+        expect(SpeedLimits.getDefaultLimit('residential', 'MT')).toBe(40);
+        expect(SpeedLimits.getDefaultLimit('trunk', 'MT')).toBe(80);
+    });
+
+    it('drops the previous city\'s overrides when another city loads', () => {
+        SpeedLimits.setCityZoneLimits('MT', { urban: 40 });
+        SpeedLimits.setCityZoneLimits('MC', { rural: 30 });
+
+        expect(SpeedLimits.getDefaultLimit('residential', 'MT')).toBe(50);
+        expect(SpeedLimits.getDefaultLimit('trunk', 'MC')).toBe(30);
+
+        SpeedLimits.setCityZoneLimits('MC');
+        expect(SpeedLimits.getDefaultLimit('trunk', 'MC')).toBe(50);
+    });
+});
@@ -0,0 +1,192 @@
+import * as THREE from 'three';
+
+export interface BridgeMaterials {
+    deck: THREE.Material; // Concrete deck sides, underside and pillars
+    railing: THREE.Material;
+}
+
+/**
+ * Builds the structure under and beside elevated road strips: deck sides and underside,
+ * railings along both edges and support pillars down to the ground. Works on the same
+ * curves as the road strips, whose y already carries the road's elevation. Railing posts
+ * and pillars are queued and drawn as two instanced meshes once all roads are built.
+ */
+export class BridgeGenerator {
+    private postTransforms: THREE.Matrix4[] = [];
+    private pillarTransforms: THREE.Matrix4[] = [];
+
+    private readonly roadY = 0.01; // Road strips at ground level
+    private readonly groundY = -1; // The ground mesh sits 1 m below the road strips
+    private readonly minElevation = 0.3; // meters; lower sections get no structure
+    private readonly deckThickness = 1.0;
+    private readonly deckOverhang = 0.4; // meters of deck beyond the road edge
+    private readonly railHeight = 1.0;
+    private readonly railDepth = 0.08;
+    private readonly postSpacing = 2.5; // meters
+    private readonly pillarSpacing = 25; // meters
+    private readonly minPillarClearance = 2.5; // meters between deck underside and ground before pillars are needed
+
+    constructor(private materials: BridgeMaterials) { }
+
+    /**
+     * Create the deck and railing meshes for an elevated road strip and queue its posts
+     * and pillars. Returns nothing for strips that stay near the ground.
+     */
+    createStructure(
+        curve: THREE.CatmullRomCurve3,
+        roadWidth: number,
+        numSegments: number,
+        curveLength: number,
+        groundHeight: (x: number, z: number) => number = () => 0
+    ): THREE.Mesh[] {
+        const samples: Array<{ point: THREE.Vector3; perp: THREE.Vector3; ground: number; }> = [];
+        for (let i = 0; i <= numSegments; i++) {
+            const t = i / numSegments;
+            const point = curve.getPoint(t);
+            const tangent = curve.getTangent(t);
+            samples.push({
+                point,
+                perp: new THREE.Vector3(-tangent.z, 0, tangent.x).normalize(),
+                ground: groundHeight(point.x, point.z) + this.roadY
+            });
+        }
+        if (!samples.some(sample => sample.point.y - sample.ground >= this.minElevation)) return [];
+
+        const halfWidth = roadWidth / 2;
+        const deckHalfWidth = halfWidth + this.deckOverhang;
+
+        // Deck: top overhangs beside the road, outer sides and underside (3 vertices per side per sample)
+        const deckVertices: number[] = [];
+        const deckIndices: number[] = [];
+        samples.forEach(({ point, perp, ground }) => {
+            const top = point.y - 0.005; // Just under the road surface
+            const bottom = Math.max(ground, point.y - this.deckThickness);
+            [1, -1].forEach(side => {
+                const edge = point.clone().addScaledVector(perp, halfWidth * side);
+                const outer = point.clone().addScaledVector(perp, deckHalfWidth * side);
+                deckVertices.push(
+                    edge.x, top, edge.z,
+                    outer.x, top, outer.z,
+                    outer.x, bottom, outer.z
+                );
+            });
+        });
+        const stride = 6; // Vertices per sample
+        for (let i = 0; i < samples.length - 1; i++) {
+            const a = i * stride;
+            const b = (i + 1) * stride;
+            // Each side: overhang (0-1) and outer face (1-2); the underside joins the two outer bottoms (2 and 5)
+            [0, 3].forEach(side => {
+                deckIndices.push(a + side, b + side, b + side + 1, a + side, b + side + 1, a + side + 1);
+                deckIndices.push(a + side + 1, b + side + 1, b + side + 2, a + side + 1, b + side + 2, a + side + 2);
+            });
+            deckIndices.push(a + 2, b + 2, b + 5, a + 2, b + 5, a + 5);
+        }
+
+        const deckGeometry = new THREE.BufferGeometry();
+        deckGeometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(deckVertices), 3));
+        deckGeometry.setIndex(new THREE.BufferAttribute(new Uint32Array(deckIndices), 1));
+        deckGeometry.computeVertexNormals();
+        const deck = new THREE.Mesh(deckGeometry, this.materials.deck);
+        deck.castShadow = true;
+        deck.receiveShadow = true;
+
+        // Top rail along the outer edge of the deck on both sides
+        const railVertices: number[] = [];
+        const railIndices: number[] = [];
+        samples.forEach(({ point, perp }) => {
+            [1, -1].forEach(side => {
+                const outer = point.clone().addScaledVector(perp, (deckHalfWidth - this.railDepth) * side);
+                railVertices.push(
+                    outer.x, point.y + this.railHeight, outer.z,
+                    outer.x, point.y + this.railHeight - 0.12, outer.z
+                );
+            });
+        });
+        for (let i = 0; i < samples.length - 1; i++) {
+            const a = i * 4;
+            const b = (i + 1) * 4;
+            [0, 2].forEach(side => railIndices.push(a + side, b + side, b + side + 1, a + side, b + side + 1, a + side + 1));
+        }
+        const railGeometry = new THREE.BufferGeometry();
+        railGeometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(railVertices), 3));
+        railGeometry.setIndex(new THREE.BufferAttribute(new Uint32Array(railIndices), 1));
+        railGeometry.computeVertexNormals();
+        const rail = new THREE.Mesh(railGeometry, this.materials.railing);
+        rail.castShadow = true;
+
+        this.queuePostsAndPillars(curve, curveLength, deckHalfWidth, groundHeight);
+
+        return [deck, rail];
+    }
+
+    /**
+     * Railing posts along both edges wherever the road is raised, and pillars under the
+     * deck where it is high enough to need them
+     */
+    private queuePostsAndPillars(
+        curve: THREE.CatmullRomCurve3,
+        curveLength: number,
+        deckHalfWidth: number,
+        groundHeight: (x: number, z: number) => number
+    ): void {
+        const rotation = new THREE.Quaternion();
+        const up = new THREE.Vector3(0, 1, 0);
+
+        for (let distance = this.postSpacing / 2; distance < curveLength; distance += this.postSpacing) {
+            const u = distance / curveLength;
+            const point = curve.getPointAt(u);
+            if (point.y - this.roadY - groundHeight(point.x, point.z) < this.minElevation) continue;
+            const tangent = curve.getTangentAt(u);
+            const perp = new THREE.Vector3(-tangent.z, 0, tangent.x).normalize();
+            rotation.setFromAxisAngle(up, Math.atan2(tangent.x, tangent.z));
+
+            [1, -1].forEach(side => {
+                const position = point.clone().addScaledVector(perp, (deckHalfWidth - this.railDepth) * side);
+                this.postTransforms.push(new THREE.Matrix4().compose(position, rotation, new THREE.Vector3(1, this.railHeight, 1)));
+            });
+        }
+
+        for (let distance = this.pillarSpacing / 2; distance < curveLength; distance += this.pillarSpacing) {
+            const point = curve.getPointAt(distance / curveLength);
+            const ground = groundHeight(point.x, point.z);
+            const underside = point.y - this.deckThickness;
+            if (underside - this.roadY - ground < this.minPillarClearance) continue;
+            const position = new THREE.Vector3(point.x, ground + this.groundY, point.z);
+            this.pillarTransforms.push(new THREE.Matrix4().compose(position, rotation.identity(), new THREE.Vector3(1, underside - position.y, 1)));
+        }
+    }
+
+    /**
+     * Build instanced meshes for all queued railing posts and pillars
+     */
+    createInstancedParts(): THREE.InstancedMesh[] {
+        const meshes: THREE.InstancedMesh[] = [];
+
+        // Unit-height geometries standing on their base; instance scale sets the height
+        const parts: Array<{ transforms: THREE.Matrix4[]; geometry: THREE.BufferGeometry; material: THREE.Material; }> = [
+            { transforms: this.postTransforms, geometry: new THREE.BoxGeometry(this.railDepth, 1, this.railDepth), material: this.materials.railing },
+            { transforms: this.pillarTransforms, geometry: new THREE.CylinderGeometry(0.6, 0.6, 1, 12), material: this.materials.deck }
+        ];
+        parts.forEach(({ transforms, geometry, material }) => {
+            if (transforms.length === 0) {
+                geometry.dispose();
+                return;
+            }
+            geometry.translate(0, 0.5, 0);
+            const mesh = new THREE.InstancedMesh(geometry, material, transforms.length);
+            transforms.forEach((matrix, index) => mesh.setMatrixAt(index, matrix));
+            mesh.instanceMatrix.needsUpdate = true;
+            mesh.castShadow = true;
+            mesh.receiveShadow = true;
+            meshes.push(mesh);
+        });
+
+        if (meshes.length > 0) {
+            console.log(`Built bridge structures with ${this.postTransforms.length} railing posts and ${this.pillarTransforms.length} pillars`);
+        }
+        this.postTransforms = [];
+        this.pillarTransforms = [];
+        return meshes;
+    }
+}
@@ -1,14 +1,82 @@
 import * as THREE from 'three';
-import type { GeoJSON } from '@/types';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import type { GeoJSON, GeoJSONFeature, RoadHit } from '@/types';
+import type { Heightmap } from '../terrain/Heightmap';
+import { MeshSerializer } from './MeshSerializer';
+import type { SerializedMesh } from './MeshSerializer';
+import { MeshBatcher } from './MeshBatcher';
+import { RoofGenerator } from './RoofGenerator';
+import type { FootprintFrame, RoofShape } from './RoofGenerator';
+import { FacadeShader } from './FacadeShader';
+import { LocalProjection } from '@/utils/LocalProjection';
+
+// A building's heights (above its base, in meters) and colours, from its tags
+interface BuildingForm {
+    minHeight: number; // Bottom of the walls
+    wallHeight: number; // Top of the walls, where the roof starts
+    roofShape: RoofShape;
+    roofHeight: number;
+    wallColour: THREE.Color;
+    roofColour: THREE.Color;
+    crossingDome: boolean; // Churches get a dome over the middle of the nave
+    levelHeight: number; // The wall height split into whole levels
+    facade: number; // Kind of facade, see FacadeShader
+}
 
 export class BuildingGenerator {
     private buildings: THREE.Mesh[] = [];
+    private tiles = new Map<string, THREE.Mesh[]>(); // Buildings added per streamed tile
     private buildingGroup: THREE.Group;
     private sharedMaterial: THREE.MeshStandardMaterial;
 
     // Default building height per level (in meters)
     private readonly HEIGHT_PER_LEVEL = 3.0; // ~10 feet per story
     private readonly DEFAULT_HEIGHT = 3.0; // Default height if no levels specified
+    private readonly MAX_PITCHED_ROOF_HEIGHT = 6.0;
+
+    private readonly DEFAULT_COLOUR = 0xCCCCCC; // Light gray for buildings
+    private readonly LIMESTONE_COLOUR = 0xD9C7A0; // Maltese churches and chapels
+    private readonly ROOF_TILE_COLOUR = 0xA5553A;
+
+    // Facade colours by building:material, also used for roof:material
+    private readonly MATERIAL_COLOURS: Record<string, number> = {
+        limestone: 0xD9C7A0,
+        stone: 0xD2C4A4,
+        sandstone: 0xD8B98A,
+        brick: 0xA0573A,
+        concrete: 0xB8B6B0,
+        cement_block: 0xB8B6B0,
+        plaster: 0xE6E0D2,
+        glass: 0x8FA6B5,
+        wood: 0x8B6A48,
+        metal: 0x9DA2A6,
+        steel: 0x9DA2A6,
+        copper: 0x6FA58E,
+        roof_tiles: 0xA5553A,
+        tile: 0xA5553A,
+        slate: 0x5A5F66,
+        tar_paper: 0x55575A
+    };
+
+    // roof:shape values and the shape they are drawn as (anything else is flat)
+    private readonly ROOF_SHAPES: Record<string, RoofShape> = {
+        flat: 'flat',
+        gabled: 'gabled',
+        saltbox: 'gabled',
+        hipped: 'hipped',
+        'half-hipped': 'hipped',
+        pyramidal: 'hipped',
+        dome: 'dome',
+        onion: 'dome'
+    };
+
+    // Places of worship that get a taller nave and a dome on a drum over the crossing
+    private readonly DOMED_LANDMARKS = new Set(['church', 'cathedral', 'basilica', 'mosque']);
+    private readonly LANDMARK_HEIGHT = 12.0;
+    private readonly CHAPEL_HEIGHT = 7.0;
+
+    private roofGenerator = new RoofGenerator();
+    private findNearestRoad: ((position: { x: number; z: number; }) => RoadHit | null) | null = null; // Doors face the nearest road
 
     constructor(private scene: THREE.Scene) {
         this.buildingGroup = new THREE.Group();
@@ -16,195 +84,324 @@ export class BuildingGenerator {
         this.buildingGroup.userData.isBuildingGroup = true;
         this.scene.add(this.buildingGroup);
 
-        // Shared material for all buildings
+        // Shared material for all buildings, coloured per building through vertex colours
         this.sharedMaterial = new THREE.MeshStandardMaterial({
-            color: 0xCCCCCC, // Light gray for buildings
+            color: 0xFFFFFF,
+            vertexColors: true,
             roughness: 0.7,
             metalness: 0.1,
             side: THREE.DoubleSide // Make visible from both sides
         });
+        this.sharedMaterial.name = 'building';
+        FacadeShader.apply(this.sharedMaterial);
     }
 
     /**
-     * Convert lat/lon to local 3D coordinates
+     * Set how to find the road nearest a building, for placing its door (none without roads)
      */
-    private latLonToLocal(lat: number, lon: number, centerLat: number, centerLon: number): { x: number; z: number; } {
-        const R = 6371000; // Earth radius in meters
-        const dLat = (lat - centerLat) * Math.PI / 180;
-        const dLon = (lon - centerLon) * Math.PI / 180;
-
-        const x = dLon * R * Math.cos(centerLat * Math.PI / 180);
-        const z = -dLat * R;
+    setRoadFinder(findNearestRoad: ((position: { x: number; z: number; }) => RoadHit | null) | null): void {
+        this.findNearestRoad = findNearestRoad;
+    }
 
-        return { x, z };
+    /**
+     * Parse a length tag ("12", "12 m", "12.5m"); null when missing or invalid
+     */
+    private parseLength(value: unknown): number | null {
+        if (typeof value === 'number') return isFinite(value) && value >= 0 ? value : null;
+        if (typeof value !== 'string') return null;
+        const length = parseFloat(value);
+        return !isNaN(length) && length >= 0 ? length : null;
     }
 
     /**
-     * Parse building height from properties
+     * Parse a colour tag: a CSS colour name or a hex code, with or without the '#'
      */
-    private getBuildingHeight(properties: any): number {
-        // Check for 'levels' or 'building:levels' property
-        const levels = properties.levels || properties['building:levels'];
-
-        if (levels) {
-            const numLevels = typeof levels === 'string' ? parseFloat(levels) : levels;
-            if (!isNaN(numLevels) && numLevels > 0) {
-                return numLevels * this.HEIGHT_PER_LEVEL;
-            }
+    private parseColour(value: unknown): THREE.Color | null {
+        if (typeof value !== 'string') return null;
+        const colour = value.trim().toLowerCase().replace(/[\s_-]/g, '');
+        if (/^#?([0-9a-f]{3}|[0-9a-f]{6})$/.test(colour)) {
+            return new THREE.Color(colour.startsWith('#') ? colour : `#${colour}`);
         }
+        if (colour in THREE.Color.NAMES) {
+            return new THREE.Color(THREE.Color.NAMES[colour as keyof typeof THREE.Color.NAMES]);
+        }
+        return null;
+    }
 
-        return this.DEFAULT_HEIGHT;
+    /**
+     * Colour for a building:material or roof:material tag
+     */
+    private getMaterialColour(value: unknown): THREE.Color | null {
+        if (typeof value !== 'string') return null;
+        const colour = this.MATERIAL_COLOURS[value.trim().toLowerCase()];
+        return colour !== undefined ? new THREE.Color(colour) : null;
     }
 
     /**
-     * Create a 3D building mesh from a polygon
+     * Work out a building's shape and colours from its tags. `height` is the top of the
+     * roof and `min_height` the bottom of the walls (for parts raised off the ground);
+     * levels are 3 m each. Without tags, churches and chapels get their own defaults.
      */
-    private createBuildingFromPolygon(
-        coordinates: Array<Array<[number, number]>>,
-        height: number,
-        centerLat: number,
-        centerLon: number
-    ): THREE.Mesh | null {
-        // Polygon coordinates: first array is outer ring, others are holes
-        const outerRing = coordinates[0];
-        if (!outerRing || outerRing.length < 3) {
-            return null; // Need at least 3 points for a polygon
+    private getBuildingForm(properties: GeoJSONFeature['properties'], frame: FootprintFrame): BuildingForm {
+        const type = typeof properties.building === 'string' ? properties.building : 'yes';
+        const isDomedLandmark = this.DOMED_LANDMARKS.has(type) ||
+            (properties.amenity === 'place_of_worship' && type !== 'chapel');
+        const isLandmark = isDomedLandmark || type === 'chapel';
+
+        // Roof
+        const taggedShape = typeof properties['roof:shape'] === 'string'
+            ? this.ROOF_SHAPES[properties['roof:shape']] ?? 'flat'
+            : null;
+        const roofShape: RoofShape = taggedShape ?? (isDomedLandmark ? 'gabled' : 'flat');
+
+        let roofHeight = 0;
+        if (roofShape !== 'flat') {
+            const roofLevels = this.parseLength(properties['roof:levels']);
+            roofHeight = this.parseLength(properties['roof:height']) ??
+                (roofLevels ? roofLevels * this.HEIGHT_PER_LEVEL : null) ??
+                (roofShape === 'dome'
+                    ? Math.min(frame.halfWidth, frame.halfLength)
+                    : Math.min(frame.halfWidth * 0.6, this.MAX_PITCHED_ROOF_HEIGHT));
         }
 
-        // Convert coordinates to local space and create a 2D shape
-        // GeoJSON Polygon coordinates are [lon, lat] format
-        const shape = new THREE.Shape();
-
-        // Convert first point: outerRing[0] is [lon, lat]
-        const [firstLon, firstLat] = outerRing[0];
-        const firstPoint = this.latLonToLocal(firstLat, firstLon, centerLat, centerLon);
-        shape.moveTo(firstPoint.x, firstPoint.z);
-
-        // Check if polygon is already closed (last point == first point, with tolerance for floating point)
-        const lastPoint = outerRing[outerRing.length - 1];
-        const tolerance = 1e-10; // Small tolerance for floating point comparison
-        const isClosed = outerRing.length > 3 &&
-            Math.abs(firstLon - lastPoint[0]) < tolerance &&
-            Math.abs(firstLat - lastPoint[1]) < tolerance;
-
-        // Process all points except the last one if the polygon is already closed
-        const endIndex = isClosed ? outerRing.length - 1 : outerRing.length;
-
-        for (let i = 1; i < endIndex; i++) {
-            // Convert each point: outerRing[i] is [lon, lat]
-            const [lon, lat] = outerRing[i];
-            const point = this.latLonToLocal(lat, lon, centerLat, centerLon);
-            shape.lineTo(point.x, point.z);
+        // Walls
+        const minLevel = this.parseLength(properties['building:min_level']);
+        const minHeight = this.parseLength(properties.min_height) ??
+            (minLevel !== null ? minLevel * this.HEIGHT_PER_LEVEL : 0);
+
+        const height = this.parseLength(properties.height);
+        const levels = this.parseLength(properties.levels ?? properties['building:levels']);
+        let wallHeight: number;
+        if (height !== null && height > 0) {
+            wallHeight = height - roofHeight;
+        } else if (levels) {
+            wallHeight = levels * this.HEIGHT_PER_LEVEL;
+        } else if (isLandmark) {
+            wallHeight = isDomedLandmark ? this.LANDMARK_HEIGHT : this.CHAPEL_HEIGHT;
+        } else {
+            wallHeight = this.DEFAULT_HEIGHT;
+        }
+        wallHeight = Math.max(wallHeight, minHeight + 1);
+        const wallLevels = Math.max(1, Math.round(wallHeight / this.HEIGHT_PER_LEVEL));
+
+        let facade = FacadeShader.PLAIN;
+        if (isLandmark) {
+            facade = FacadeShader.LANDMARK;
+        } else if (properties.shop || properties.amenity) {
+            facade = FacadeShader.SHOPFRONT;
         }
 
-        // Always explicitly close the shape to ensure it's a complete polygon
-        // Use closePath() which is more reliable than lineTo back to first point
-        shape.closePath();
-
-        // Handle holes (interior rings) if present
-        for (let holeIndex = 1; holeIndex < coordinates.length; holeIndex++) {
-            const holeRing = coordinates[holeIndex];
-            if (holeRing && holeRing.length >= 3) {
-                const hole = new THREE.Path();
-                // Convert first hole point: holeRing[0] is [lon, lat]
-                const [firstHoleLon, firstHoleLat] = holeRing[0];
-                const firstHolePoint = this.latLonToLocal(firstHoleLat, firstHoleLon, centerLat, centerLon);
-                hole.moveTo(firstHolePoint.x, firstHolePoint.z);
-
-                // Check if hole is already closed
-                const lastHolePoint = holeRing[holeRing.length - 1];
-                const holeIsClosed = holeRing.length > 3 &&
-                    firstHoleLon === lastHolePoint[0] &&
-                    firstHoleLat === lastHolePoint[1];
-                const holeEndIndex = holeIsClosed ? holeRing.length - 1 : holeRing.length;
-
-                for (let i = 1; i < holeEndIndex; i++) {
-                    // Convert each hole point: holeRing[i] is [lon, lat]
-                    const [lon, lat] = holeRing[i];
-                    const point = this.latLonToLocal(lat, lon, centerLat, centerLon);
-                    hole.lineTo(point.x, point.z);
-                }
-
-                // Always explicitly close the hole path to ensure it's complete
-                hole.closePath();
-                shape.holes.push(hole);
+        // Colours
+        const wallColour = this.parseColour(properties['building:colour']) ??
+            this.getMaterialColour(properties['building:material']) ??
+            new THREE.Color(isLandmark ? this.LIMESTONE_COLOUR : this.DEFAULT_COLOUR);
+        let roofColour = this.parseColour(properties['roof:colour']) ?? this.getMaterialColour(properties['roof:material']);
+        if (!roofColour) {
+            if (roofShape === 'flat') {
+                roofColour = wallColour.clone().multiplyScalar(0.85);
+            } else if (roofShape === 'dome' || isLandmark) {
+                roofColour = wallColour.clone();
+            } else {
+                roofColour = new THREE.Color(this.ROOF_TILE_COLOUR);
             }
         }
 
-        // Extrude the shape to create a 3D building
-        const extrudeSettings = {
-            depth: height,
-            bevelEnabled: false
+        return {
+            minHeight,
+            wallHeight,
+            roofShape,
+            roofHeight,
+            wallColour,
+            roofColour,
+            crossingDome: isDomedLandmark && taggedShape === null && frame.halfWidth >= 4,
+            levelHeight: wallHeight / wallLevels,
+            facade
         };
+    }
 
-        const geometry = new THREE.ExtrudeGeometry(shape, extrudeSettings);
-
-        // ExtrudeGeometry creates geometry from Shape in XY plane, extruding along +Z
-        // Our Shape uses moveTo(x, z), which Shape interprets as (x, y) in its XY plane
-        // So ExtrudeGeometry creates: base vertices at (x, z, 0), top vertices at (x, z, depth)
-        // where x and z come from our Shape coordinates
-
-        // Rotate -90° around X axis to convert from XY plane (Z-up) to XZ plane (Y-up)
-        // rotateX(-90°): (x, y, z) -> (x, z, -y)
-        // Base: (x, z, 0) -> (x, 0, -z)
-        // Top: (x, z, depth) -> (x, depth, -z)
-
-        // This means the Z coordinate gets negated! To fix this, we need to negate z in the Shape
-        // OR we can negate z after rotation. Actually, let me check the rotation more carefully:
-
-        // Standard rotateX(-90°):
-        // [1    0       0   ] [x]   [x     ]
-        // [0  cos  -sin   ] [y] = [z     ]
-        // [0  sin   cos   ] [z]   [-y    ]
-        // where cos(-90°)=0, sin(-90°)=-1
-        // So: x' = x, y' = z, z' = -y
-
-        // If our Shape has (x, z) as (x, y) in ExtrudeGeometry:
-        // Base: (x, z, 0) -> after rotateX(-90°): (x, 0, -z)
-        // This negates the Z coordinate! That's why negating dLat "fixes" it - it's double-negating.
-
-        // The fix: negate z when creating the Shape, so after rotation it becomes correct
-        // OR rotate differently. Let me use rotateX(+90°) instead, which would be: (x, y, z) -> (x, -z, y)
-        // Base: (x, z, 0) -> (x, 0, z) ✓ (but y and z are swapped)
-
-        // Actually, the correct solution: since rotateX(-90°) negates Z, we should negate z in the Shape
-        // But wait, that's what changing dLat does... so maybe the issue is we need to negate z AFTER the conversion?
+    /**
+     * Give every vertex of a geometry a colour; extrusions' caps (group 0) can be coloured apart
+     */
+    private paint(geometry: THREE.BufferGeometry, colour: THREE.Color, capColour: THREE.Color = colour): void {
+        const count = geometry.attributes.position.count;
+        const colours = new Float32Array(count * 3);
+        for (let i = 0; i < count; i++) {
+            colour.toArray(colours, i * 3);
+        }
+        geometry.groups.filter(group => group.materialIndex === 0).forEach(group => {
+            for (let i = group.start; i < Math.min(group.start + group.count, count); i++) {
+                capColour.toArray(colours, i * 3);
+            }
+        });
+        geometry.setAttribute('color', new THREE.BufferAttribute(colours, 3));
+    }
 
-        // Better solution: Don't negate z in latLonToLocal (keep it correct), but negate it when passing to Shape
-        // OR: Use rotateX(+90°) and swap coordinates
+    /**
+     * Where the front door goes: on the wall nearest the nearest road, facing it, at the
+     * point closest to the road. Null when there is no road nearby or no wall wide enough.
+     */
+    private findDoor(ring: Array<{ x: number; z: number; }>): { x: number; z: number; } | null {
+        if (!this.findNearestRoad) return null;
+        const center = {
+            x: ring.reduce((sum, point) => sum + point.x, 0) / ring.length,
+            z: ring.reduce((sum, point) => sum + point.z, 0) / ring.length
+        };
+        const road = this.findNearestRoad(center)?.point;
+        if (!road) return null;
+
+        // Outward normals point right of the edges on a counter-clockwise outline
+        const area = ring.reduce((sum, point, i) => {
+            const next = ring[(i + 1) % ring.length];
+            return sum + point.x * next.z - next.x * point.z;
+        }, 0);
+        const outward = area > 0 ? -1 : 1;
+
+        let door: { x: number; z: number; } | null = null;
+        let bestDistance = Infinity;
+        ring.forEach((a, i) => {
+            const b = ring[(i + 1) % ring.length];
+            const length = Math.hypot(b.x - a.x, b.z - a.z);
+            if (length < 2.5) return;
+            const dx = (b.x - a.x) / length;
+            const dz = (b.z - a.z) / length;
+            if (((road.x - a.x) * -dz + (road.z - a.z) * dx) * outward <= 0) return; // Faces away from the road
+
+            const along = Math.max(1.2, Math.min(length - 1.2, (road.x - a.x) * dx + (road.z - a.z) * dz));
+            const point = { x: a.x + dx * along, z: a.z + dz * along };
+            const distance = Math.hypot(road.x - point.x, road.z - point.z);
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                door = point;
+            }
+        });
+        return door;
+    }
 
-        // Actually, let me try the simplest fix: negate z coordinate in the Shape after rotation
-        geometry.rotateX(-Math.PI / 2);
+    /**
+     * Facade attributes for FacadeShader. The sides of the wall extrusion (group 1) get
+     * `uv` = (metres along the wall, metres up from the bottom of the walls) and `facade` = (wall length, level height,
+     * kind, door position along the wall or -1); anything else gets a plain facade.
+     */
+    private addFacade(geometry: THREE.BufferGeometry, form: BuildingForm | null, door: { x: number; z: number; } | null): void {
+        const count = geometry.attributes.position.count;
+        const facade = new Float32Array(count * 4);
+        for (let i = 0; i < count; i++) facade[i * 4 + 3] = -1;
+        geometry.setAttribute('facade', new THREE.BufferAttribute(facade, 4));
+        if (!form) return;
 
-        // The rotation negates z, so we need to flip it back
-        // We can do this by scaling geometry by (1, 1, -1) on Z, or by using the shape coordinates differently
+        const positions = geometry.attributes.position;
+        const normals = geometry.attributes.normal;
+        const uvs = geometry.attributes.uv;
+        geometry.groups.filter(group => group.materialIndex === 1).forEach(group => {
+            // Each triangle of a wall spans the wall's full length
+            for (let first = group.start; first + 2 < group.start + group.count; first += 3) {
+                const dx = -normals.getZ(first);
+                const dz = normals.getX(first);
+                const along = [first, first + 1, first + 2].map(i => positions.getX(i) * dx + positions.getZ(i) * dz);
+                const start = Math.min(...along);
+                const length = Math.max(...along) - start;
+
+                // The door is on this wall if it lies on the wall's line, within its ends
+                let doorAlong = -1;
+                if (door) {
+                    const offset = (door.x - positions.getX(first)) * normals.getX(first) + (door.z - positions.getZ(first)) * normals.getZ(first);
+                    const position = door.x * dx + door.z * dz - start;
+                    if (Math.abs(offset) < 0.05 && position >= 0 && position <= length) doorAlong = position;
+                }
 
-        // Actually, the real fix: when we create the Shape with moveTo(x, z), we need to use -z instead
-        // But that would be messy. Better: rotate +90° and adjust, OR use a different approach.
+                for (let i = first; i < first + 3; i++) {
+                    uvs.setXY(i, along[i - first] - start, positions.getY(i) - form.minHeight);
+                    facade.set([length, form.levelHeight, form.facade, doorAlong], i * 4);
+                }
+            }
+        });
+    }
 
-        // Let's try: rotate +90° instead, which gives: (x, y, z) -> (x, -z, y)
-        // Base: (x, z, 0) -> (x, 0, z) - wait that's still wrong...
+    /**
+     * Create a 3D building mesh from a polygon
+     */
+    private createBuildingFromPolygon(
+        coordinates: Array<Array<[number, number]>>,
+        properties: GeoJSONFeature['properties'],
+        centerLat: number,
+        centerLon: number,
+        terrain: Heightmap | null = null
+    ): THREE.Mesh | null {
+        // Polygon coordinates: first array is outer ring, others are holes
+        // GeoJSON Polygon coordinates are [lon, lat] format
+        const outerRing = LocalProjection.ringToLocal(coordinates[0], centerLat, centerLon);
+        if (outerRing.length < 3) {
+            return null; // Need at least 3 points for a polygon
+        }
+        const holes = coordinates.slice(1)
+            .map(ring => LocalProjection.ringToLocal(ring, centerLat, centerLon))
+            .filter(ring => ring.length >= 3);
+
+        // On sloping terrain the base sits at the lowest ground under the outline
+        const groundY = terrain
+            ? Math.min(...outerRing.map(point => terrain.getHeight(point.x, point.z)))
+            : 0;
+
+        const frame = this.roofGenerator.getFrame(outerRing);
+        const form = this.getBuildingForm(properties, frame);
+
+        // ExtrudeGeometry draws the shape in its XY plane and extrudes along +Z; rotating that
+        // upright (x, y, z) -> (x, z, -y) negates y, so the shape is drawn at (x, -z) to land at (x, z)
+        const toShapePoints = (ring: Array<{ x: number; z: number; }>) => ring.map(point => new THREE.Vector2(point.x, -point.z));
+        const shape = new THREE.Shape(toShapePoints(outerRing));
+        holes.forEach(hole => shape.holes.push(new THREE.Path(toShapePoints(hole))));
+
+        const walls = new THREE.ExtrudeGeometry(shape, {
+            depth: form.wallHeight - form.minHeight,
+            bevelEnabled: false
+        });
+        walls.rotateX(-Math.PI / 2);
+        walls.translate(0, form.minHeight, 0);
+
+        // Pitched and domed roofs only cover plain outlines; courtyards keep a flat roof
+        const roofShape = holes.length > 0 && form.roofShape !== 'dome' ? 'flat' : form.roofShape;
+        this.paint(walls, form.wallColour, roofShape === 'flat' ? form.roofColour : form.wallColour);
+        const parts: THREE.BufferGeometry[] = [walls];
+
+        const roof = this.roofGenerator.createRoof(outerRing, roofShape, form.wallHeight, form.roofHeight);
+        if (roof) {
+            this.paint(roof.roof, form.roofColour);
+            parts.push(roof.roof);
+            if (roof.walls) {
+                this.paint(roof.walls, form.wallColour);
+                parts.push(roof.walls);
+            }
+        }
 
-        // The correct solution: The Shape needs to use coordinates in the right order
-        // Since ExtrudeGeometry uses XY plane and extrudes along Z, and we want XZ plane with Y-up,
-        // we should use Shape coordinates as (x, -z) so after rotation they become (x, z)
+        // Churches: a dome on a drum rising over the nave roof, topped with a lantern
+        if (form.crossingDome) {
+            const radius = Math.min(frame.halfWidth * 0.7, frame.halfLength * 0.4);
+            const drumTop = form.wallHeight + form.roofHeight + radius * 0.6;
+            const drum = this.roofGenerator.createDrum(frame.center, radius, form.wallHeight, drumTop - form.wallHeight);
+            const dome = this.roofGenerator.createDome(frame.center, radius, drumTop, radius * 1.2);
+            const lanternTop = drumTop + radius * 1.2;
+            const lantern = this.roofGenerator.createDrum(frame.center, radius * 0.2, lanternTop - radius * 0.1, radius * 0.4);
+            const cupola = this.roofGenerator.createDome(frame.center, radius * 0.2, lanternTop + radius * 0.3, radius * 0.3);
+            this.paint(drum, form.wallColour);
+            this.paint(lantern, form.wallColour);
+            this.paint(dome, form.roofColour);
+            this.paint(cupola, form.roofColour);
+            parts.push(drum, dome, lantern, cupola);
+        }
 
-        // Recompute normals after rotation
-        geometry.computeVertexNormals();
+        // Windows and a door on the walls; the roof, gables and dome are left plain
+        const door = this.findDoor(outerRing);
+        parts.forEach(part => this.addFacade(part, part === walls ? form : null, door));
 
-        // Negate Z coordinates to fix the rotation issue
-        // rotateX(-90°) transforms (x, y, z) -> (x, z, -y)
-        // Since our Shape uses (x, z) as (x, y), after rotation Z gets negated
-        // We need to flip Z back to match the correct coordinate system (same as roads/trees)
-        const positions = geometry.attributes.position;
-        for (let i = 0; i < positions.count; i++) {
-            positions.setZ(i, -positions.getZ(i));
+        const geometry = parts.length > 1 ? mergeGeometries(parts, false) : walls;
+        if (parts.length > 1) parts.forEach(part => part.dispose());
+        if (!geometry) {
+            return null;
         }
-        positions.needsUpdate = true;
 
         const building = new THREE.Mesh(geometry, this.sharedMaterial);
         // Position building base at ground level (y=0.01 to match roads slightly above ground)
-        building.position.y = 0.01;
+        building.position.y = groundY + 0.01;
         building.castShadow = true;
         building.receiveShadow = true;
 
@@ -214,29 +411,103 @@ export class BuildingGenerator {
     /**
      * Generate buildings from GeoJSON data
      */
-    generateBuildingsFromGeoJSON(geoJSON: GeoJSON, centerLat: number, centerLon: number): void {
+    generateBuildingsFromGeoJSON(geoJSON: GeoJSON, centerLat: number, centerLon: number, terrain: Heightmap | null = null): void {
+        const buildingsCreated = this.createBuildings(geoJSON, centerLat, centerLon, terrain);
+        console.log(`Generated ${buildingsCreated} buildings`);
+    }
+
+    /**
+     * Build a mesh for each building polygon, then merge them into one mesh per material;
+     * returns how many buildings were made. `featureIds` are the features' indices in the
+     * city's building GeoJSON, when given a subset of it.
+     */
+    private createBuildings(
+        geoJSON: GeoJSON,
+        centerLat: number,
+        centerLon: number,
+        terrain: Heightmap | null,
+        featureIds: number[] = geoJSON.features.map((_, index) => index)
+    ): number {
         let buildingsCreated = 0;
 
-        for (const feature of geoJSON.features) {
-            // Only process Polygon geometry types
-            const geom = feature.geometry as any;
-            if (geom.type !== 'Polygon' || !geom.coordinates) {
+        for (const [index, feature] of geoJSON.features.entries()) {
+            // Only process Polygon and MultiPolygon geometry types (a building in several parts)
+            const geom = feature.geometry;
+            let polygons: Array<Array<Array<[number, number]>>>;
+            if (geom.type === 'Polygon' && geom.coordinates) {
+                polygons = [geom.coordinates];
+            } else if (geom.type === 'MultiPolygon' && geom.coordinates) {
+                polygons = geom.coordinates;
+            } else {
                 continue;
             }
 
-            const coordinates = geom.coordinates as Array<Array<[number, number]>>;
-            const height = this.getBuildingHeight(feature.properties || {});
+            polygons.forEach(coordinates => {
+                const building = this.createBuildingFromPolygon(coordinates, feature.properties || {}, centerLat, centerLon, terrain);
+                if (building) {
+                    building.userData.featureId = featureIds[index];
+                    this.buildingGroup.add(building);
+                    buildingsCreated++;
+                }
+            });
+        }
 
-            const building = this.createBuildingFromPolygon(coordinates, height, centerLat, centerLon);
+        this.buildings = MeshBatcher.batch(this.buildingGroup);
+        return buildingsCreated;
+    }
 
-            if (building) {
-                this.buildingGroup.add(building);
-                this.buildings.push(building);
-                buildingsCreated++;
-            }
-        }
+    /**
+     * Generate buildings as transferable data (in a Web Worker) for addBuildingTile.
+     * The generator is cleared afterwards.
+     */
+    generateBuildingGeometry(
+        geoJSON: GeoJSON,
+        centerLat: number,
+        centerLon: number,
+        terrain: Heightmap | null = null,
+        featureIds?: number[]
+    ): { meshes: SerializedMesh[]; transfer: ArrayBuffer[]; } {
+        this.createBuildings(geoJSON, centerLat, centerLon, terrain, featureIds);
+        const transfer = new Set<ArrayBuffer>();
+        const meshes = MeshSerializer.serialize(this.buildingGroup, transfer);
+        this.clear();
+        return { meshes, transfer: [...transfer] };
+    }
 
-        console.log(`Generated ${buildingsCreated} buildings`);
+    /**
+     * Add the buildings of one tile, generated by generateBuildingGeometry
+     */
+    addBuildingTile(key: string, meshes: SerializedMesh[]): void {
+        this.removeBuildingTile(key);
+        const buildings = MeshSerializer.deserialize(meshes, { building: this.sharedMaterial });
+        buildings.forEach(building => {
+            this.buildingGroup.add(building);
+            this.buildings.push(building);
+        });
+        this.tiles.set(key, buildings);
+    }
+
+    /**
+     * Remove the buildings of a tile and dispose their geometry
+     */
+    removeBuildingTile(key: string): void {
+        const buildings = this.tiles.get(key);
+        if (!buildings) return;
+
+        const removed = new Set(buildings);
+        buildings.forEach(building => {
+            building.geometry.dispose();
+            this.buildingGroup.remove(building);
+        });
+        this.buildings = this.buildings.filter(building => !removed.has(building));
+        this.tiles.delete(key);
+    }
+
+    /**
+     * Building meshes in the scene (merged, see MeshBatcher)
+     */
+    getBuildings(): THREE.Mesh[] {
+        return this.buildings;
     }
 
     /**
@@ -257,5 +528,6 @@ export class BuildingGenerator {
         });
 
         this.buildings = [];
+        this.tiles.clear();
     }
 }
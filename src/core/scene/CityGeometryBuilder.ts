@@ -0,0 +1,182 @@
+import { CityTileGenerator } from './CityTileGenerator';
+import type {
+    CityGeometrySource,
+    GeometryRequest,
+    GeometryResult,
+    GeometryWorkerRequest,
+    GeometryWorkerResponse,
+    TileGeometry
+} from './CityTileGenerator';
+import type { PreparedRoadLayout } from './RoadGenerator';
+import type { Heightmap, TerrainData } from '../terrain/Heightmap';
+import type { DrivingSide, GeoJSON } from '@/types';
+
+interface PendingRequest {
+    request: GeometryRequest;
+    resolve: (result: GeometryResult) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Generates road and building geometry in a Web Worker, so the page keeps rendering while
+ * a city loads and streams: projection, curve sampling, vertex and index arrays and building
+ * extrusion all run in the worker, which posts back typed arrays for the main thread to wrap
+ * in BufferGeometry. Where workers are unavailable (or the worker fails) the same
+ * CityTileGenerator runs on the main thread instead.
+ */
+export class CityGeometryBuilder {
+    private worker: Worker | null = null;
+    private workerFailed: boolean = false;
+    private pending = new Map<number, PendingRequest>();
+    private nextId: number = 1;
+    private localGenerator: CityTileGenerator | null = null; // Used without a worker
+    private source: CityGeometrySource | null = null; // Kept to lay the city out again here if the worker fails
+
+    /**
+     * Lay out a city for building it tile by tile; resolves to the layout of its roads. Given
+     * the layout from an earlier load, the roads aren't laid out again.
+     */
+    async prepareCity(
+        roads: GeoJSON,
+        buildings: GeoJSON | null,
+        centerLat: number,
+        centerLon: number,
+        drivingSide: DrivingSide,
+        terrain: Heightmap | null,
+        tileSize: number,
+        roadLayout: PreparedRoadLayout | null = null
+    ): Promise<PreparedRoadLayout> {
+        const source: CityGeometrySource = {
+            roads,
+            buildings,
+            centerLat,
+            centerLon,
+            drivingSide,
+            terrain: this.getTerrainData(terrain),
+            tileSize,
+            roadLayout
+        };
+        this.source = source;
+        const result = await this.run({ type: 'prepare', source });
+        if (result.type !== 'prepared') {
+            throw new Error('Unexpected geometry result');
+        }
+        return result.layout;
+    }
+
+    /**
+     * Generate the meshes of one tile of the prepared city
+     */
+    async buildTile(key: string): Promise<TileGeometry> {
+        const result = await this.run({ type: 'tile', key });
+        if (result.type !== 'tile') {
+            throw new Error('Unexpected geometry result');
+        }
+        return result.tile;
+    }
+
+    /**
+     * Stop the worker (a new one starts with the next request)
+     */
+    dispose(): void {
+        this.worker?.terminate();
+        this.worker = null;
+        this.pending.forEach(pending => pending.reject(new Error('Geometry worker stopped')));
+        this.pending.clear();
+        this.source = null;
+    }
+
+    private run(request: GeometryRequest): Promise<GeometryResult> {
+        const worker = this.getWorker();
+        if (!worker) {
+            try {
+                return Promise.resolve(this.runLocally(request));
+            } catch (error) {
+                return Promise.reject(error);
+            }
+        }
+
+        return new Promise((resolve, reject) => {
+            const id = this.nextId++;
+            this.pending.set(id, { request, resolve, reject });
+            const message: GeometryWorkerRequest = { id, request };
+            worker.postMessage(message);
+        });
+    }
+
+    /**
+     * Handle a request on this thread. A generator started after the worker failed first
+     * lays out the city the worker had.
+     */
+    private runLocally(request: GeometryRequest): GeometryResult {
+        if (!this.localGenerator) {
+            this.localGenerator = new CityTileGenerator();
+            if (request.type === 'tile' && this.source) {
+                this.localGenerator.prepare(this.source);
+            }
+        }
+        return this.localGenerator.handle(request).result;
+    }
+
+    private getWorker(): Worker | null {
+        if (this.worker || this.workerFailed) return this.worker;
+        if (typeof Worker === 'undefined') {
+            this.workerFailed = true;
+            return null;
+        }
+
+        try {
+            this.worker = new Worker(new URL('./CityGeometryWorker.ts', import.meta.url), { type: 'module' });
+        } catch (error) {
+            console.warn('Geometry worker unavailable, generating on the main thread:', error);
+            this.workerFailed = true;
+            return null;
+        }
+
+        this.worker.onmessage = (event: MessageEvent<GeometryWorkerResponse>) => {
+            const response = event.data;
+            const pending = this.pending.get(response.id);
+            if (!pending) return;
+            this.pending.delete(response.id);
+            if ('error' in response) {
+                pending.reject(new Error(response.error));
+            } else {
+                pending.resolve(response.result);
+            }
+        };
+
+        // The worker script failed to load or crashed: finish what it was given here instead
+        this.worker.onerror = event => {
+            console.warn('Geometry worker failed, generating on the main thread:', event.message);
+            event.preventDefault();
+            this.worker?.terminate();
+            this.worker = null;
+            this.workerFailed = true;
+
+            const pending = [...this.pending.values()];
+            this.pending.clear();
+            pending.forEach(({ request, resolve, reject }) => {
+                try {
+                    resolve(this.runLocally(request));
+                } catch (error) {
+                    reject(error instanceof Error ? error : new Error(String(error)));
+                }
+            });
+        };
+
+        return this.worker;
+    }
+
+    /**
+     * A copy of the heightmap's data, so generating on this thread leaves the original alone
+     */
+    private getTerrainData(terrain: Heightmap | null): TerrainData | null {
+        if (!terrain) return null;
+        return {
+            heights: terrain.getHeights().slice(),
+            columns: terrain.columns,
+            rows: terrain.rows,
+            bounds: terrain.getBounds()
+        };
+    }
+}
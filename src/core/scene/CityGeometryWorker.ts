@@ -0,0 +1,22 @@
+import { CityTileGenerator } from './CityTileGenerator';
+import type { GeometryWorkerRequest, GeometryWorkerResponse } from './CityTileGenerator';
+
+/**
+ * Web Worker entry point: generates city geometry off the main thread (see CityGeometryBuilder)
+ */
+const generator = new CityTileGenerator();
+
+self.onmessage = (event: MessageEvent<GeometryWorkerRequest>) => {
+    const { id, request } = event.data;
+    let response: GeometryWorkerResponse;
+    let transfer: ArrayBuffer[] = [];
+    try {
+        const handled = generator.handle(request);
+        response = { id, result: handled.result };
+        transfer = handled.transfer;
+    } catch (error) {
+        console.error('Failed to generate city geometry:', error);
+        response = { id, error: error instanceof Error ? error.message : String(error) };
+    }
+    self.postMessage(response, { transfer });
+};
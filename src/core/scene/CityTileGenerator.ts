@@ -0,0 +1,211 @@
+import * as THREE from 'three';
+import { RoadGenerator } from './RoadGenerator';
+import type { PreparedRoadLayout, RoadGeometry } from './RoadGenerator';
+import { BuildingGenerator } from './BuildingGenerator';
+import { LandCoverGenerator } from './LandCoverGenerator';
+import type { SerializedMesh } from './MeshSerializer';
+import { TileGrid } from './TileGrid';
+import { Heightmap } from '../terrain/Heightmap';
+import type { TerrainData } from '../terrain/Heightmap';
+import { LocalProjection } from '@/utils/LocalProjection';
+import type { DrivingSide, GeoJSON, GeoJSONFeature } from '@/types';
+
+// Everything needed to lay out a city's geometry
+export interface CityGeometrySource {
+    roads: GeoJSON;
+    buildings: GeoJSON | null;
+    centerLat: number;
+    centerLon: number;
+    drivingSide: DrivingSide;
+    terrain: TerrainData | null;
+    tileSize: number;
+    roadLayout: PreparedRoadLayout | null; // Roads laid out before (cached), taken on instead of laying them out again
+}
+
+// Meshes of one tile, ready to be posted to the main thread
+export interface TileGeometry {
+    key: string;
+    roads: RoadGeometry;
+    buildings: SerializedMesh[];
+    landCover: SerializedMesh[];
+    reach: string[]; // Other tiles the tile's road strips and ground cover run into
+}
+
+// Messages between the main thread and the geometry worker
+export type GeometryRequest =
+    | { type: 'prepare'; source: CityGeometrySource; }
+    | { type: 'tile'; key: string; };
+
+export type GeometryResult =
+    | { type: 'prepared'; layout: PreparedRoadLayout; }
+    | { type: 'tile'; tile: TileGeometry; };
+
+export interface GeometryWorkerRequest {
+    id: number;
+    request: GeometryRequest;
+}
+
+export type GeometryWorkerResponse =
+    | { id: number; result: GeometryResult; }
+    | { id: number; error: string; };
+
+/**
+ * Generates a city's road, building and ground cover meshes tile by tile. The roads are laid
+ * out once for the whole city, since junctions, bridges and roundabouts reach across tiles;
+ * the meshes of a tile are built when it is asked for. Runs in the geometry worker (or on the
+ * main thread where there is none) and needs no DOM, so it also runs headlessly.
+ */
+export class CityTileGenerator {
+    private scene = new THREE.Scene();
+    private roadGenerator = new RoadGenerator(this.scene);
+    private buildingGenerator = new BuildingGenerator(this.scene);
+    private landCoverGenerator = new LandCoverGenerator(this.scene);
+    private buildings: GeoJSONFeature[] = [];
+    private buildingTiles = new Map<string, number[]>(); // Indices of the buildings in each tile
+    private landCover: GeoJSONFeature[] = [];
+    private landCoverTiles = new Map<string, number[]>(); // Indices of the ground cover areas in each tile
+    private landCoverReach = new Map<string, Set<string>>(); // Tiles the ground cover of each tile spreads over
+    private grid = new TileGrid();
+    private centerLat: number = 0;
+    private centerLon: number = 0;
+    private terrain: Heightmap | null = null;
+
+    /**
+     * Handle a geometry request, returning the result with the buffers to transfer
+     */
+    handle(request: GeometryRequest): { result: GeometryResult; transfer: ArrayBuffer[]; } {
+        if (request.type === 'prepare') {
+            const { layout, transfer } = this.prepare(request.source);
+            return { result: { type: 'prepared', layout }, transfer };
+        }
+        const { tile, transfer } = this.buildTile(request.key);
+        return { result: { type: 'tile', tile }, transfer };
+    }
+
+    /**
+     * Lay out a city, replacing the previous one. Returns the layout of its roads.
+     */
+    prepare(source: CityGeometrySource): { layout: PreparedRoadLayout; transfer: ArrayBuffer[]; } {
+        this.roadGenerator.clear();
+        this.buildings = source.buildings?.features ?? [];
+        // Fields, parks and water come with the roads
+        this.landCover = source.roads.features.filter(feature => this.landCoverGenerator.getLandCoverType(feature) !== null);
+        this.grid = new TileGrid(source.tileSize);
+        this.centerLat = source.centerLat;
+        this.centerLon = source.centerLon;
+        // Heights in the data are already relative to the city centre, so the datum is 0
+        this.terrain = source.terrain
+            ? new Heightmap(source.terrain.heights, source.terrain.columns, source.terrain.rows, source.terrain.bounds)
+            : null;
+
+        this.roadGenerator.setDrivingSide(source.drivingSide);
+        this.roadGenerator.setTerrain(this.terrain);
+        let prepared: { layout: PreparedRoadLayout; transfer: ArrayBuffer[]; };
+        if (source.roadLayout) {
+            this.roadGenerator.restoreRoadGeometry(source.roadLayout);
+            // The roads are unpacked by now, so the packed points can go back
+            const { pieces, samples } = source.roadLayout;
+            prepared = { layout: source.roadLayout, transfer: [...pieces, ...samples].map(packed => packed.points.buffer) };
+        } else {
+            prepared = this.roadGenerator.prepareRoadGeometry(source.roads, source.centerLat, source.centerLon);
+        }
+        this.buildingGenerator.setRoadFinder(position => this.roadGenerator.findNearestRoad(position, 60));
+
+        this.buildingTiles = this.sortIntoTiles(this.buildings);
+        this.landCoverTiles = this.sortIntoTiles(this.landCover);
+
+        // Large areas stay while the car is over any part of them
+        this.landCoverReach.clear();
+        this.landCoverTiles.forEach((indices, key) => {
+            const reach = new Set<string>();
+            indices.forEach(index => {
+                const outline = this.getOutline(this.landCover[index])!;
+                const xs = outline.map(point => point.x);
+                const zs = outline.map(point => point.z);
+                this.grid.getKeysOverlapping(Math.min(...xs), Math.min(...zs), Math.max(...xs), Math.max(...zs))
+                    .forEach(tile => reach.add(tile));
+            });
+            this.landCoverReach.set(key, reach);
+        });
+
+        return prepared;
+    }
+
+    /**
+     * Generate the meshes of one tile of the prepared city
+     */
+    buildTile(key: string): { tile: TileGeometry; transfer: ArrayBuffer[]; } {
+        const inTile = (point: { x: number; z: number; }) => this.grid.getKey(point.x, point.z) === key;
+        const roads = this.roadGenerator.generateRoadGeometry(inTile);
+
+        // A long strip belongs to the tile holding its middle, but must stay while the car is on any part of it
+        const reach = new Set(this.roadGenerator.getStripPoints(inTile, this.grid.tileSize / 4)
+            .map(point => this.grid.getKey(point.x, point.z)));
+        this.landCoverReach.get(key)?.forEach(tile => reach.add(tile));
+        reach.delete(key);
+
+        const indices = this.buildingTiles.get(key);
+        const buildings = indices
+            ? this.buildingGenerator.generateBuildingGeometry(
+                { type: 'FeatureCollection', features: indices.map(index => this.buildings[index]) },
+                this.centerLat,
+                this.centerLon,
+                this.terrain,
+                indices
+            )
+            : { meshes: [], transfer: [] };
+
+        const areas = this.landCoverTiles.get(key);
+        const landCover = areas
+            ? this.landCoverGenerator.generateLandCoverGeometry(
+                { type: 'FeatureCollection', features: areas.map(index => this.landCover[index]) },
+                this.centerLat,
+                this.centerLon,
+                this.terrain,
+                (x, z) => this.roadGenerator.getRoadAt({ x, z }) !== null
+            )
+            : { meshes: [], transfer: [] };
+
+        return {
+            tile: { key, roads: roads.geometry, buildings: buildings.meshes, landCover: landCover.meshes, reach: [...reach] },
+            transfer: [...roads.transfer, ...buildings.transfer, ...landCover.transfer]
+        };
+    }
+
+    /**
+     * Indices of polygon features by the tile holding the middle of their outline
+     */
+    private sortIntoTiles(features: GeoJSONFeature[]): Map<string, number[]> {
+        const tiles = new Map<string, number[]>();
+        features.forEach((feature, index) => {
+            const outline = this.getOutline(feature);
+            if (!outline) return;
+            const x = outline.reduce((sum, point) => sum + point.x, 0) / outline.length;
+            const z = outline.reduce((sum, point) => sum + point.z, 0) / outline.length;
+            const key = this.grid.getKey(x, z);
+            const indices = tiles.get(key);
+            if (indices) {
+                indices.push(index);
+            } else {
+                tiles.set(key, [index]);
+            }
+        });
+        return tiles;
+    }
+
+    /**
+     * Outer ring of a polygon feature (of its first part, for a multipolygon) in local
+     * coordinates; null for other features
+     */
+    private getOutline(feature: GeoJSONFeature): Array<{ x: number; z: number; }> | null {
+        const { geometry } = feature;
+        let outerRing: Array<[number, number]> | undefined;
+        if (geometry.type === 'Polygon') {
+            outerRing = geometry.coordinates[0];
+        } else if (geometry.type === 'MultiPolygon') {
+            outerRing = geometry.coordinates[0]?.[0];
+        }
+        if (!outerRing?.length) return null;
+        return LocalProjection.ringToLocal(outerRing, this.centerLat, this.centerLon);
+    }
+}
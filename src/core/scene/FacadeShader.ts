@@ -0,0 +1,88 @@
+import * as THREE from 'three';
+
+/**
+ * Draws windows, shopfronts and doors on building walls in the fragment shader, so facades
+ * need no textures. Walls carry `uv` = (metres along the wall, metres up from the base) and
+ * a `facade` attribute = (wall length, level height, kind, door position along the wall or
+ * -1); a level height of 0 leaves the surface plain (roofs, domes). Windows are fitted into
+ * bays of about 3 m per level and fade out in the distance, where they would only flicker.
+ */
+export class FacadeShader {
+    static readonly PLAIN = 0; // Windows on every level
+    static readonly SHOPFRONT = 1; // Shop windows and a sign on the ground floor
+    static readonly LANDMARK = 2; // No windows, a large door
+
+    /**
+     * Add facades to a material drawing buildings with facade attributes
+     */
+    static apply(material: THREE.MeshStandardMaterial): void {
+        material.onBeforeCompile = shader => {
+            shader.vertexShader = shader.vertexShader
+                .replace('#include <common>', `#include <common>
+attribute vec4 facade;
+varying vec4 vFacade;
+varying vec2 vFacadeUv;`)
+                .replace('#include <uv_vertex>', `#include <uv_vertex>
+vFacade = facade;
+vFacadeUv = uv;`);
+
+            shader.fragmentShader = shader.fragmentShader
+                .replace('#include <common>', `#include <common>
+varying vec4 vFacade;
+varying vec2 vFacadeUv;
+
+// Antialiased mask of a rectangle around the origin
+float facadeRect(vec2 p, vec2 halfSize, vec2 w) {
+    vec2 edge = 1.0 - smoothstep(halfSize - w * 0.5, halfSize + w * 0.5, abs(p));
+    return edge.x * edge.y;
+}`)
+                .replace('#include <color_fragment>', `#include <color_fragment>
+float facadeGlass = 0.0;
+vec2 facadeWidth = max(fwidth(vFacadeUv), vec2(1e-4)); // Taken outside the branch, where derivatives are defined
+if (vFacade.y > 0.0) {
+    vec2 p = vFacadeUv;
+    vec2 w = facadeWidth;
+    float detail = 1.0 - smoothstep(0.25, 0.6, max(w.x, w.y));
+    float wallLength = vFacade.x;
+    float levelHeight = vFacade.y;
+    float kind = vFacade.z;
+    float level = floor(p.y / levelHeight);
+    float inLevel = p.y - level * levelHeight;
+
+    float bays = max(1.0, floor(wallLength / 3.0));
+    float bayWidth = wallLength / bays;
+    float inBay = p.x - (floor(p.x / bayWidth) + 0.5) * bayWidth;
+
+    // A darker band where each level meets the next
+    float band = level > 0.5 ? facadeRect(vec2(0.0, inLevel - 0.06), vec2(1.0, 0.06), w) : 0.0;
+    diffuseColor.rgb *= 1.0 - 0.12 * band * detail;
+
+    float window = 0.0;
+    float shopSign = 0.0;
+    if (kind > 0.5 && kind < 1.5 && level < 0.5) {
+        window = facadeRect(vec2(inBay, inLevel - levelHeight * 0.42), vec2(bayWidth * 0.5 - 0.3, levelHeight * 0.32), w);
+        shopSign = facadeRect(vec2(p.x - wallLength * 0.5, inLevel - levelHeight * 0.86), vec2(wallLength * 0.5 - 0.2, levelHeight * 0.07), w);
+    } else if (kind < 1.5 && wallLength >= 1.5) {
+        window = facadeRect(vec2(inBay, inLevel - levelHeight * 0.55), vec2(min(0.6, bayWidth * 0.3), levelHeight * 0.22), w);
+    }
+
+    float door = 0.0;
+    if (vFacade.w >= 0.0) {
+        vec2 doorSize = kind > 1.5 ? vec2(1.2, 4.5) : kind > 0.5 ? vec2(0.8, 2.4) : vec2(0.55, 2.2); // Half width, height
+        door = facadeRect(vec2(p.x - vFacade.w, p.y - doorSize.y * 0.5), vec2(doorSize.x, doorSize.y * 0.5), w);
+    }
+
+    window *= (1.0 - door) * detail;
+    shopSign *= (1.0 - door) * detail;
+    door *= detail;
+    diffuseColor.rgb = mix(diffuseColor.rgb, vec3(0.12, 0.15, 0.19), window);
+    diffuseColor.rgb = mix(diffuseColor.rgb, vec3(0.45, 0.08, 0.06), shopSign);
+    diffuseColor.rgb = mix(diffuseColor.rgb, vec3(0.16, 0.09, 0.05), door);
+    facadeGlass = window;
+}`)
+                .replace('#include <roughnessmap_fragment>', `#include <roughnessmap_fragment>
+roughnessFactor = mix(roughnessFactor, 0.15, facadeGlass);`);
+        };
+        material.customProgramCacheKey = () => 'building-facade';
+    }
+}
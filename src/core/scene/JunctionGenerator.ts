@@ -0,0 +1,247 @@
+import * as THREE from 'three';
+import type { Junction, JunctionArm } from '../network/JunctionLayout';
+import type { DrivingSide, RoadPoint } from '@/types';
+
+export interface JunctionMaterials {
+    surface: THREE.Material;
+    edgeLine: THREE.Material;
+    marking: THREE.Material;
+}
+
+/**
+ * Merged vertex/index buffers for many flat quads and fans, laid over the ground.
+ * Heights passed in are above the ground height at each vertex.
+ */
+class FlatGeometryBuilder {
+    private vertices: number[] = [];
+    private indices: number[] = [];
+
+    constructor(private groundHeight: (point: RoadPoint) => number) { }
+
+    /**
+     * Add a fan of triangles around a centre point (outline ordered counter-clockwise by atan2(z, x))
+     */
+    addFan(center: RoadPoint, outline: RoadPoint[], y: number): void {
+        const base = this.vertices.length / 3;
+        this.vertices.push(center.x, y + this.groundHeight(center), center.z);
+        outline.forEach(point => this.vertices.push(point.x, y + this.groundHeight(point), point.z));
+        for (let i = 0; i < outline.length; i++) {
+            // Reverse order so the normals face up
+            this.indices.push(base, base + 1 + (i + 1) % outline.length, base + 1 + i);
+        }
+    }
+
+    /**
+     * Add a strip of constant width between two points
+     */
+    addStrip(from: RoadPoint, to: RoadPoint, width: number, y: number): void {
+        const length = Math.hypot(to.x - from.x, to.z - from.z);
+        if (length < 0.01) return;
+        const side = { x: -(to.z - from.z) / length * width / 2, z: (to.x - from.x) / length * width / 2 };
+        this.addQuad([
+            { x: from.x - side.x, z: from.z - side.z },
+            { x: from.x + side.x, z: from.z + side.z },
+            { x: to.x + side.x, z: to.z + side.z },
+            { x: to.x - side.x, z: to.z - side.z }
+        ], y);
+    }
+
+    addQuad(corners: RoadPoint[], y: number): void {
+        const base = this.vertices.length / 3;
+        corners.forEach(point => this.vertices.push(point.x, y + this.groundHeight(point), point.z));
+        this.indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+    }
+
+    build(material: THREE.Material): THREE.Mesh | null {
+        if (this.indices.length === 0) return null;
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(this.vertices), 3));
+        geometry.setIndex(new THREE.BufferAttribute(new Uint32Array(this.indices), 1));
+        geometry.computeVertexNormals();
+        const mesh = new THREE.Mesh(geometry, material);
+        mesh.receiveShadow = true;
+        return mesh;
+    }
+}
+
+/**
+ * Builds the meshes for road junctions: one surface polygon per junction joining the
+ * clipped road strips, kerb lines between the arms, and stop or give-way markings on
+ * minor roads meeting a more important one (and on every roundabout entry). All junctions share three merged meshes.
+ */
+export class JunctionGenerator {
+    private readonly surfaceY = 0.012; // Slightly above road strips so overlaps don't z-fight
+    private readonly lineY = 0.016;
+    private readonly markingY = 0.02;
+    private readonly edgeLineWidth = 0.15;
+    private readonly stopLineDepth = 0.4;
+    private readonly giveWayDash = { length: 0.6, gap: 0.3, depth: 0.2, rowSpacing: 0.4 };
+    private readonly stopRankGap = 2; // Rank difference at which a minor road must stop rather than give way
+
+    constructor(private materials: JunctionMaterials) { }
+
+    /**
+     * Create the merged junction meshes. Junctions on bridges and ramps are lifted to the
+     * road height at their centre coordinate, and everything follows the ground height.
+     */
+    createMeshes(
+        junctions: Junction[],
+        drivingSide: DrivingSide,
+        elevationOf: (key: string) => number = () => 0,
+        groundHeight: (point: RoadPoint) => number = () => 0
+    ): THREE.Mesh[] {
+        const surface = new FlatGeometryBuilder(groundHeight);
+        const edgeLines = new FlatGeometryBuilder(groundHeight);
+        const markings = new FlatGeometryBuilder(groundHeight);
+        let stopLines = 0;
+        let giveWays = 0;
+
+        junctions.forEach(junction => {
+            const elevation = elevationOf(junction.key);
+            const outline = this.getOutline(junction);
+            surface.addFan(junction.center, outline.points, this.surfaceY + elevation);
+
+            // Kerb lines along the gaps between neighbouring arms
+            outline.kerbs.forEach(kerb => {
+                for (let i = 0; i < kerb.length - 1; i++) {
+                    edgeLines.addStrip(kerb[i], kerb[i + 1], this.edgeLineWidth, this.lineY + elevation);
+                }
+            });
+
+            junction.arms.forEach(arm => {
+                if (!arm.inbound) return;
+                if (junction.roundabout) {
+                    // Traffic entering a roundabout gives way to traffic already circulating
+                    if (!arm.roundabout) {
+                        this.addGiveWay(markings, arm, drivingSide, this.markingY + elevation);
+                        giveWays++;
+                    }
+                    return;
+                }
+                if (arm.rank >= junction.majorRank) return;
+                if (junction.majorRank - arm.rank >= this.stopRankGap) {
+                    this.addStopLine(markings, arm, drivingSide, this.markingY + elevation);
+                    stopLines++;
+                } else {
+                    this.addGiveWay(markings, arm, drivingSide, this.markingY + elevation);
+                    giveWays++;
+                }
+            });
+        });
+
+        if (junctions.length > 0) {
+            console.log(`Generated ${junctions.length} junctions (${stopLines} stop lines, ${giveWays} give-way lines)`);
+        }
+
+        return [
+            surface.build(this.materials.surface),
+            edgeLines.build(this.materials.edgeLine),
+            markings.build(this.materials.marking)
+        ].filter((mesh): mesh is THREE.Mesh => mesh !== null);
+    }
+
+    /**
+     * Junction outline: each arm's boundary corners in angular order, plus kerb polylines
+     * joining the corners of neighbouring arms. Gaps wider than a half turn are bent back
+     * toward the centre so the fan from the centre stays inside the roads.
+     */
+    private getOutline(junction: Junction): { points: RoadPoint[]; kerbs: RoadPoint[][]; } {
+        const points: RoadPoint[] = [];
+        const kerbs: RoadPoint[][] = [];
+        const arms = junction.arms;
+        const minHalfWidth = Math.min(...arms.map(arm => arm.halfWidth));
+
+        arms.forEach((arm, index) => {
+            const { previous, next } = this.getCorners(arm);
+            points.push(previous, next);
+
+            const following = arms[(index + 1) % arms.length];
+            const kerb = [next];
+            let gap = Math.atan2(following.direction.z, following.direction.x) - Math.atan2(arm.direction.z, arm.direction.x);
+            if (gap <= 0) gap += Math.PI * 2;
+            if (gap > Math.PI * 0.9) {
+                const bisector = Math.atan2(arm.direction.z, arm.direction.x) + gap / 2;
+                const inner = {
+                    x: junction.center.x + Math.cos(bisector) * minHalfWidth,
+                    z: junction.center.z + Math.sin(bisector) * minHalfWidth
+                };
+                points.push(inner);
+                kerb.push(inner);
+            }
+            kerb.push(this.getCorners(following).previous);
+            kerbs.push(kerb);
+        });
+
+        // Sharp or curving arms can fold the outline back on itself; ordering the points by
+        // angle keeps the fan from the centre free of overlapping triangles
+        const angle = (point: RoadPoint) => Math.atan2(point.z - junction.center.z, point.x - junction.center.x);
+        points.sort((a, b) => angle(a) - angle(b));
+
+        return { points, kerbs };
+    }
+
+    /**
+     * Boundary corners of an arm: `previous` on the side of the preceding arm, `next` on the side of the following one
+     */
+    private getCorners(arm: JunctionArm): { previous: RoadPoint; next: RoadPoint; } {
+        const { boundary, boundaryDirection: d } = arm;
+        // Rotating (x, z) by +90° in atan2(z, x) terms gives (-z, x)
+        const side = { x: -d.z * arm.halfWidth, z: d.x * arm.halfWidth };
+        return {
+            previous: { x: boundary.x - side.x, z: boundary.z - side.z },
+            next: { x: boundary.x + side.x, z: boundary.z + side.z }
+        };
+    }
+
+    /**
+     * Lateral range (meters, along the arm's right-of-approach direction) occupied by traffic
+     * driving into the junction: the driving-side half of a two-way road, or all of a one-way road
+     */
+    private getApproachRange(arm: JunctionArm, drivingSide: DrivingSide): [number, number] {
+        if (!arm.twoWay) return [-arm.halfWidth, arm.halfWidth];
+        return drivingSide === 'right' ? [0, arm.halfWidth] : [-arm.halfWidth, 0];
+    }
+
+    /**
+     * Point on the arm at a distance beyond the junction boundary and a lateral offset
+     * to the right of a driver approaching the junction
+     */
+    private pointOnArm(arm: JunctionArm, along: number, lateral: number): RoadPoint {
+        const d = arm.boundaryDirection;
+        // Approach travel is -d; its right is (d.z, -d.x)
+        return {
+            x: arm.boundary.x + d.x * along + d.z * lateral,
+            z: arm.boundary.z + d.z * along - d.x * lateral
+        };
+    }
+
+    private addStopLine(builder: FlatGeometryBuilder, arm: JunctionArm, drivingSide: DrivingSide, y: number): void {
+        const [from, to] = this.getApproachRange(arm, drivingSide);
+        const near = 0.2;
+        const far = near + this.stopLineDepth;
+        builder.addQuad([
+            this.pointOnArm(arm, near, from),
+            this.pointOnArm(arm, near, to),
+            this.pointOnArm(arm, far, to),
+            this.pointOnArm(arm, far, from)
+        ], y);
+    }
+
+    private addGiveWay(builder: FlatGeometryBuilder, arm: JunctionArm, drivingSide: DrivingSide, y: number): void {
+        const [from, to] = this.getApproachRange(arm, drivingSide);
+        const { length, gap, depth, rowSpacing } = this.giveWayDash;
+
+        // Two rows of short dashes across the approach lanes
+        [0.2, 0.2 + rowSpacing].forEach(near => {
+            const far = near + depth;
+            for (let start = from + gap / 2; start + length <= to; start += length + gap) {
+                builder.addQuad([
+                    this.pointOnArm(arm, near, start),
+                    this.pointOnArm(arm, near, start + length),
+                    this.pointOnArm(arm, far, start + length),
+                    this.pointOnArm(arm, far, start)
+                ], y);
+            }
+        });
+    }
+}
@@ -0,0 +1,380 @@
+import * as THREE from 'three';
+import type { GeoJSON, GeoJSONFeature } from '@/types';
+import type { Heightmap } from '../terrain/Heightmap';
+import { MeshSerializer } from './MeshSerializer';
+import type { SerializedMesh } from './MeshSerializer';
+import { LocalProjection } from '@/utils/LocalProjection';
+
+export type LandCoverType = 'residential' | 'industrial' | 'farmland' | 'grass' | 'park' | 'wood' | 'parking' | 'beach' | 'water';
+
+// How each kind of ground cover is drawn
+interface LandCoverStyle {
+    color: number;
+    roughness: number;
+    layer: number; // Higher layers are drawn over lower ones where areas overlap (a pool in a garden)
+}
+
+/**
+ * Covers the ground with the landuse, leisure and natural areas in the road data (which
+ * RoadGenerator skips, as they aren't ways to drive): fields, parks, car parks, water and so on,
+ * each with its own material, laid just above the ground and draped over the terrain. Fields
+ * are bounded by low rubble walls, except where a road crosses their outline. The areas of a
+ * tile are generated together (in the geometry worker), with all areas of a kind merged into
+ * one mesh.
+ */
+export class LandCoverGenerator {
+    private meshes: THREE.Mesh[] = [];
+    private landCoverGroup: THREE.Group;
+    private materials: Record<LandCoverType, THREE.MeshStandardMaterial>;
+    private wallMaterial: THREE.MeshStandardMaterial;
+    private tiles = new Map<string, THREE.Mesh[]>(); // Meshes added per streamed tile
+
+    private readonly styles: Record<LandCoverType, LandCoverStyle> = {
+        residential: { color: 0xC9C2B4, roughness: 0.9, layer: 0 }, // Pale stone
+        industrial: { color: 0xB0A898, roughness: 0.9, layer: 0 },
+        farmland: { color: 0xA88A5C, roughness: 1.0, layer: 1 }, // Ochre soil
+        grass: { color: 0x7BA356, roughness: 0.9, layer: 2 },
+        park: { color: 0x5E9E48, roughness: 0.9, layer: 2 },
+        wood: { color: 0x3F6B35, roughness: 0.9, layer: 2 },
+        beach: { color: 0xE3D3A4, roughness: 1.0, layer: 2 },
+        parking: { color: 0x77777A, roughness: 0.8, layer: 3 },
+        water: { color: 0x3A7CA5, roughness: 0.1, layer: 4 }
+    };
+
+    // Tag values and the cover they are drawn as
+    private readonly landuseTypes: Record<string, LandCoverType> = {
+        residential: 'residential',
+        industrial: 'industrial',
+        commercial: 'industrial',
+        retail: 'industrial',
+        garages: 'industrial',
+        quarry: 'industrial',
+        construction: 'industrial',
+        railway: 'industrial',
+        brownfield: 'industrial',
+        farmland: 'farmland',
+        farmyard: 'farmland',
+        orchard: 'farmland',
+        vineyard: 'farmland',
+        allotments: 'farmland',
+        meadow: 'grass',
+        grass: 'grass',
+        village_green: 'grass',
+        recreation_ground: 'grass',
+        greenfield: 'grass',
+        cemetery: 'park',
+        forest: 'wood',
+        reservoir: 'water',
+        basin: 'water'
+    };
+    private readonly leisureTypes: Record<string, LandCoverType> = {
+        park: 'park',
+        garden: 'park',
+        playground: 'park',
+        dog_park: 'park',
+        pitch: 'grass',
+        golf_course: 'grass',
+        swimming_pool: 'water'
+    };
+    private readonly naturalTypes: Record<string, LandCoverType> = {
+        water: 'water',
+        beach: 'beach',
+        sand: 'beach',
+        grassland: 'grass',
+        scrub: 'wood',
+        heath: 'wood',
+        wood: 'wood'
+    };
+
+    private readonly groundOffset = -1; // The ground lies 1 m below the road surface
+    private readonly layerSpacing = 0.1; // Height between layers, above the ground
+    private readonly maxEdgeLength = 20; // Areas are split finer than this to follow the terrain
+    private readonly wallHeight = 1.2;
+    private readonly wallThickness = 0.5;
+    private readonly wallStep = 2; // Length of the pieces a wall is checked for roads in
+
+    constructor(private scene: THREE.Scene) {
+        this.landCoverGroup = new THREE.Group();
+        // Mark group so it's not removed during scene clearing
+        this.landCoverGroup.userData.isLandCoverGroup = true;
+        this.scene.add(this.landCoverGroup);
+
+        // Shared material for each kind of cover, named after it so meshes built in a worker can refer to it
+        this.materials = Object.fromEntries(
+            (Object.entries(this.styles) as Array<[LandCoverType, LandCoverStyle]>).map(([type, style]) => {
+                const material = new THREE.MeshStandardMaterial({
+                    color: style.color,
+                    roughness: style.roughness,
+                    metalness: type === 'water' ? 0.1 : 0,
+                    // Keeps the layers apart in the distance, where their spacing is below depth precision
+                    polygonOffset: true,
+                    polygonOffsetFactor: -(style.layer + 1)
+                });
+                material.name = type;
+                return [type, material];
+            })
+        ) as Record<LandCoverType, THREE.MeshStandardMaterial>;
+
+        this.wallMaterial = new THREE.MeshStandardMaterial({
+            color: 0xBFAE8E, // Weathered limestone
+            roughness: 1.0,
+            metalness: 0
+        });
+        this.wallMaterial.name = 'wall';
+    }
+
+    /**
+     * Kind of ground cover of a feature, from its landuse, leisure, natural or amenity tags;
+     * null for features that aren't ground cover (buildings included)
+     */
+    getLandCoverType(feature: GeoJSONFeature): LandCoverType | null {
+        const properties = feature.properties;
+        if (feature.geometry.type !== 'Polygon' || properties.building) return null;
+
+        const landuse = this.landuseTypes[String(properties.landuse)];
+        const leisure = this.leisureTypes[String(properties.leisure)];
+        const natural = this.naturalTypes[String(properties.natural)];
+        const parking = properties.amenity === 'parking' || properties.amenity === 'parking_space' ? 'parking' : undefined;
+        return leisure ?? natural ?? parking ?? landuse ?? null;
+    }
+
+    /**
+     * Generate the ground cover of some of the polygons in a city's road data as transferable
+     * data (in a Web Worker) for addLandCoverTile. `isOnRoad` keeps field walls off the roads.
+     * The generator is cleared afterwards.
+     */
+    generateLandCoverGeometry(
+        geoJSON: GeoJSON,
+        centerLat: number,
+        centerLon: number,
+        terrain: Heightmap | null = null,
+        isOnRoad: (x: number, z: number) => boolean = () => false
+    ): { meshes: SerializedMesh[]; transfer: ArrayBuffer[]; } {
+        this.createLandCover(geoJSON, centerLat, centerLon, terrain, isOnRoad);
+        const transfer = new Set<ArrayBuffer>();
+        const meshes = MeshSerializer.serialize(this.landCoverGroup, transfer);
+        this.clear();
+        return { meshes, transfer: [...transfer] };
+    }
+
+    /**
+     * Add the ground cover of one tile, generated by generateLandCoverGeometry
+     */
+    addLandCoverTile(key: string, meshes: SerializedMesh[]): void {
+        this.removeLandCoverTile(key);
+        const added = MeshSerializer.deserialize(meshes, { ...this.materials, wall: this.wallMaterial });
+        added.forEach(mesh => {
+            this.landCoverGroup.add(mesh);
+            this.meshes.push(mesh);
+        });
+        this.tiles.set(key, added);
+    }
+
+    /**
+     * Remove the ground cover of a tile and dispose its geometry
+     */
+    removeLandCoverTile(key: string): void {
+        const meshes = this.tiles.get(key);
+        if (!meshes) return;
+
+        const removed = new Set(meshes);
+        meshes.forEach(mesh => {
+            mesh.geometry.dispose();
+            this.landCoverGroup.remove(mesh);
+        });
+        this.meshes = this.meshes.filter(mesh => !removed.has(mesh));
+        this.tiles.delete(key);
+    }
+
+    private createLandCover(
+        geoJSON: GeoJSON,
+        centerLat: number,
+        centerLon: number,
+        terrain: Heightmap | null,
+        isOnRoad: (x: number, z: number) => boolean
+    ): void {
+        const positions = new Map<LandCoverType, number[]>();
+        const wallPositions: number[] = [];
+        const groundHeight = (x: number, z: number) => (terrain ? terrain.getHeight(x, z) : 0) + this.groundOffset;
+
+        geoJSON.features.forEach(feature => {
+            const type = this.getLandCoverType(feature);
+            if (!type || feature.geometry.type !== 'Polygon') return;
+
+            // The first ring is the outline, the others are holes
+            const [outline, ...holes] = feature.geometry.coordinates.map(ring => LocalProjection.ringToLocal(ring, centerLat, centerLon));
+            if (!outline || outline.length < 3) return;
+            const rings = [outline, ...holes.filter(ring => ring.length >= 3)];
+
+            const offset = (this.styles[type].layer + 1) * this.layerSpacing;
+            const triangles = this.triangulate(rings, terrain !== null);
+            if (triangles.length === 0) return;
+
+            let typePositions = positions.get(type);
+            if (!typePositions) {
+                typePositions = [];
+                positions.set(type, typePositions);
+            }
+            triangles.forEach(point => typePositions!.push(point.x, groundHeight(point.x, point.z) + offset, point.z));
+
+            if (type === 'farmland') {
+                this.addWalls(rings[0], groundHeight, offset, isOnRoad, terrain !== null, wallPositions);
+            }
+        });
+
+        positions.forEach((typePositions, type) => {
+            this.addMesh(typePositions, this.materials[type], type);
+        });
+        if (wallPositions.length > 0) {
+            this.addMesh(wallPositions, this.wallMaterial, 'rubble walls');
+        }
+    }
+
+    /**
+     * Triangles (as consecutive points) covering a polygon with holes, facing up; split
+     * finer where they have to follow the terrain
+     */
+    private triangulate(rings: Array<Array<{ x: number; z: number; }>>, followTerrain: boolean): Array<{ x: number; z: number; }> {
+        const contour = rings[0].map(point => new THREE.Vector2(point.x, point.z));
+        const holes = rings.slice(1).map(ring => ring.map(point => new THREE.Vector2(point.x, point.z)));
+        const points = [...contour, ...holes.flat()];
+
+        const triangles: Array<{ x: number; z: number; }> = [];
+        THREE.ShapeUtils.triangulateShape(contour, holes).forEach(([a, b, c]) => {
+            // Wind each triangle clockwise in x/z, so its face points up (+y)
+            const [p, q, r] = [points[a], points[b], points[c]];
+            const cross = (q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x);
+            const corners = cross > 0
+                ? [{ x: p.x, z: p.y }, { x: r.x, z: r.y }, { x: q.x, z: q.y }]
+                : [{ x: p.x, z: p.y }, { x: q.x, z: q.y }, { x: r.x, z: r.y }];
+
+            if (followTerrain) {
+                this.subdivide(corners, triangles);
+            } else {
+                triangles.push(...corners);
+            }
+        });
+        return triangles;
+    }
+
+    /**
+     * Split a triangle in half across its longest edge until no edge is longer than maxEdgeLength
+     */
+    private subdivide(triangle: Array<{ x: number; z: number; }>, output: Array<{ x: number; z: number; }>): void {
+        const stack = [triangle];
+        while (stack.length > 0) {
+            const corners = stack.pop()!;
+            const lengths = corners.map((corner, i) => {
+                const next = corners[(i + 1) % 3];
+                return Math.hypot(next.x - corner.x, next.z - corner.z);
+            });
+            const longest = lengths.indexOf(Math.max(...lengths));
+            if (lengths[longest] <= this.maxEdgeLength) {
+                output.push(...corners);
+                continue;
+            }
+
+            // The halves keep the winding of the triangle
+            const a = corners[longest];
+            const b = corners[(longest + 1) % 3];
+            const c = corners[(longest + 2) % 3];
+            const middle = { x: (a.x + b.x) / 2, z: (a.z + b.z) / 2 };
+            stack.push([a, middle, c], [middle, b, c]);
+        }
+    }
+
+    /**
+     * Rubble walls along a field's outline, left out where they would stand on a road
+     */
+    private addWalls(
+        ring: Array<{ x: number; z: number; }>,
+        groundHeight: (x: number, z: number) => number,
+        offset: number,
+        isOnRoad: (x: number, z: number) => boolean,
+        followTerrain: boolean,
+        output: number[]
+    ): void {
+        const halfThickness = this.wallThickness / 2;
+
+        ring.forEach((start, i) => {
+            const end = ring[(i + 1) % ring.length];
+            const length = Math.hypot(end.x - start.x, end.z - start.z);
+            if (length < 0.1) return;
+            const dx = (end.x - start.x) / length;
+            const dz = (end.z - start.z) / length;
+            const sx = -dz * halfThickness; // Sideways, half the wall's thickness
+            const sz = dx * halfThickness;
+
+            // Runs of the edge (from, to, in metres along it) clear of roads
+            const runs: Array<[number, number]> = [];
+            const pieces = Math.ceil(length / this.wallStep);
+            for (let piece = 0; piece < pieces; piece++) {
+                const from = length * piece / pieces;
+                const to = length * (piece + 1) / pieces;
+                const middle = (from + to) / 2;
+                if (isOnRoad(start.x + dx * middle, start.z + dz * middle)) continue;
+                const last = runs[runs.length - 1];
+                if (last && last[1] === from) {
+                    last[1] = to;
+                } else {
+                    runs.push([from, to]);
+                }
+            }
+
+            // Each run is one length of wall, split up on terrain to follow the ground
+            const segments: Array<[number, number]> = [];
+            runs.forEach(([from, to]) => {
+                const count = followTerrain ? Math.ceil((to - from) / this.maxEdgeLength) : 1;
+                for (let j = 0; j < count; j++) {
+                    segments.push([from + (to - from) * j / count, from + (to - from) * (j + 1) / count]);
+                }
+            });
+
+            segments.forEach(([from, to]) => {
+                const a = { x: start.x + dx * from, z: start.z + dz * from };
+                const b = { x: start.x + dx * to, z: start.z + dz * to };
+                const baseA = groundHeight(a.x, a.z) + offset;
+                const baseB = groundHeight(b.x, b.z) + offset;
+                const topA = baseA + this.wallHeight;
+                const topB = baseB + this.wallHeight;
+
+                // Both sides and the top, as quads of two triangles
+                const quads: Array<Array<[number, number, number]>> = [
+                    [[a.x + sx, baseA, a.z + sz], [b.x + sx, baseB, b.z + sz], [b.x + sx, topB, b.z + sz], [a.x + sx, topA, a.z + sz]],
+                    [[b.x - sx, baseB, b.z - sz], [a.x - sx, baseA, a.z - sz], [a.x - sx, topA, a.z - sz], [b.x - sx, topB, b.z - sz]],
+                    [[a.x + sx, topA, a.z + sz], [b.x + sx, topB, b.z + sz], [b.x - sx, topB, b.z - sz], [a.x - sx, topA, a.z - sz]]
+                ];
+                quads.forEach(([p, q, r, s]) => output.push(...p, ...q, ...r, ...p, ...r, ...s));
+            });
+        });
+    }
+
+    private addMesh(positions: number[], material: THREE.Material, name: string): void {
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+        geometry.computeVertexNormals();
+
+        const mesh = new THREE.Mesh(geometry, material);
+        mesh.name = name;
+        mesh.receiveShadow = true;
+        this.landCoverGroup.add(mesh);
+        this.meshes.push(mesh);
+    }
+
+    /**
+     * Clear all ground cover from the scene
+     */
+    clear(): void {
+        // Dispose of the merged geometry; the materials are shared
+        this.meshes.forEach(mesh => mesh.geometry.dispose());
+
+        // Remove all children from the group
+        const children = [...this.landCoverGroup.children];
+        children.forEach(child => {
+            this.landCoverGroup.remove(child);
+        });
+
+        this.meshes = [];
+        this.tiles.clear();
+    }
+}
@@ -0,0 +1,132 @@
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+
+/**
+ * Merges the meshes under a group into one mesh per material, so a tile of roads or
+ * buildings takes a handful of draw calls rather than one per strip, line or footprint.
+ * The GeoJSON feature each vertex came from (`userData.featureId` of its mesh, -1 for
+ * none) is kept in a `featureId` vertex attribute, so merged features can still be picked and highlighted.
+ */
+export class MeshBatcher {
+    /**
+     * Replace the plain meshes under a group with merged ones and dispose the originals.
+     * Instanced meshes are already batched and are left alone. Returns the merged meshes.
+     */
+    static batch(group: THREE.Group): THREE.Mesh[] {
+        group.updateMatrixWorld(true);
+        const groupInverse = group.matrixWorld.clone().invert();
+
+        // Meshes can only be merged when they draw alike and have the same attributes
+        const batches = new Map<string, THREE.Mesh[]>();
+        group.traverse(object => {
+            if (!(object instanceof THREE.Mesh) || object instanceof THREE.InstancedMesh) return;
+            if (Array.isArray(object.material)) return;
+            const attributes = Object.keys(object.geometry.attributes)
+                .filter(name => name !== 'featureId')
+                .sort()
+                .map(name => `${name}:${object.geometry.attributes[name].itemSize}`);
+            const key = [
+                object.material.uuid,
+                object.castShadow,
+                object.receiveShadow,
+                object.renderOrder,
+                !!object.userData.isRoadSurface,
+                ...attributes
+            ].join('|');
+            const meshes = batches.get(key);
+            if (meshes) {
+                meshes.push(object);
+            } else {
+                batches.set(key, [object]);
+            }
+        });
+
+        const merged: THREE.Mesh[] = [];
+        batches.forEach(meshes => {
+            const geometries = meshes.map(mesh => this.prepareGeometry(mesh, groupInverse));
+            const geometry = mergeGeometries(geometries, false);
+            geometries.forEach(part => part.dispose());
+            if (!geometry) {
+                console.warn(`Failed to merge ${meshes.length} meshes`);
+                return;
+            }
+
+            const first = meshes[0];
+            const mesh = new THREE.Mesh(geometry, first.material);
+            mesh.castShadow = first.castShadow;
+            mesh.receiveShadow = first.receiveShadow;
+            mesh.renderOrder = first.renderOrder;
+            if (first.userData.isRoadSurface) mesh.userData.isRoadSurface = true;
+
+            meshes.forEach(original => {
+                original.geometry.dispose();
+                original.removeFromParent();
+            });
+            group.add(mesh);
+            merged.push(mesh);
+        });
+
+        return merged;
+    }
+
+    /**
+     * GeoJSON feature of the face hit by a raycast against a merged mesh (null for none)
+     */
+    static getFeatureId(intersection: THREE.Intersection): number | null {
+        const mesh = intersection.object;
+        if (!(mesh instanceof THREE.Mesh) || !intersection.face) return null;
+        const featureIds = mesh.geometry.getAttribute('featureId');
+        if (!featureIds) return null;
+        const featureId = featureIds.getX(intersection.face.a);
+        return featureId >= 0 ? featureId : null;
+    }
+
+    /**
+     * Copy of one feature's triangles in a merged mesh (positions only, unindexed); null
+     * when the mesh has none of them
+     */
+    static extractFeature(mesh: THREE.Mesh, featureId: number): THREE.BufferGeometry | null {
+        const featureIds = mesh.geometry.getAttribute('featureId');
+        const positions = mesh.geometry.getAttribute('position');
+        const index = mesh.geometry.index;
+        if (!featureIds || !index) return null;
+
+        const triangles: number[] = [];
+        for (let i = 0; i + 2 < index.count; i += 3) {
+            if (featureIds.getX(index.getX(i)) !== featureId) continue;
+            for (let corner = i; corner < i + 3; corner++) {
+                const vertex = index.getX(corner);
+                triangles.push(positions.getX(vertex), positions.getY(vertex), positions.getZ(vertex));
+            }
+        }
+        if (triangles.length === 0) return null;
+
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute(triangles, 3));
+        return geometry;
+    }
+
+    /**
+     * A copy of a mesh's geometry in the group's space, indexed and tagged with its feature
+     */
+    private static prepareGeometry(mesh: THREE.Mesh, groupInverse: THREE.Matrix4): THREE.BufferGeometry {
+        const geometry = mesh.geometry.clone();
+        geometry.applyMatrix4(groupInverse.clone().multiply(mesh.matrixWorld));
+        geometry.clearGroups();
+
+        // Merging needs all geometries indexed, or none
+        const count = geometry.attributes.position.count;
+        if (!geometry.index) {
+            const index = new Uint32Array(count);
+            for (let i = 0; i < count; i++) index[i] = i;
+            geometry.setIndex(new THREE.BufferAttribute(index, 1));
+        }
+
+        // Meshes merged before keep the features of their vertices
+        if (!geometry.getAttribute('featureId')) {
+            const featureId = typeof mesh.userData.featureId === 'number' ? mesh.userData.featureId : -1;
+            geometry.setAttribute('featureId', new THREE.BufferAttribute(new Float32Array(count).fill(featureId), 1));
+        }
+        return geometry;
+    }
+}
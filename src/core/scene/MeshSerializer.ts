@@ -0,0 +1,148 @@
+import * as THREE from 'three';
+
+type TypedArray = Float32Array | Uint32Array | Uint16Array | Uint8Array | Int32Array | Int16Array | Int8Array | Uint8ClampedArray;
+
+export interface SerializedAttribute {
+    array: TypedArray;
+    itemSize: number;
+    normalized: boolean;
+}
+
+export interface SerializedGeometry {
+    attributes: Record<string, SerializedAttribute>;
+    index: TypedArray | null;
+    groups: Array<{ start: number; count: number; materialIndex?: number; }>;
+}
+
+/**
+ * A mesh as plain data that can be posted between threads. The vertex data stays in typed
+ * arrays so it can be transferred rather than copied.
+ */
+export interface SerializedMesh {
+    geometry: SerializedGeometry; // Shared by meshes that shared a geometry
+    material: string; // Name of a shared material
+    matrix: number[]; // Transform relative to the serialized root
+    castShadow: boolean;
+    receiveShadow: boolean;
+    renderOrder: number;
+    userData: Record<string, unknown>;
+    instances?: { matrices: Float32Array; count: number; }; // Instanced meshes only
+}
+
+/**
+ * Converts meshes to and from transferable data, so geometry built in a Web Worker can be
+ * handed to the main thread. Materials can't cross threads: meshes refer to them by name
+ * and are given the main thread's shared material of that name.
+ */
+export class MeshSerializer {
+    /**
+     * Serialize every mesh under a root object, flattening nested groups. The buffers
+     * backing the typed arrays are added to `transfer`.
+     */
+    static serialize(root: THREE.Object3D, transfer: Set<ArrayBuffer>): SerializedMesh[] {
+        const geometries = new Map<THREE.BufferGeometry, SerializedGeometry>();
+        const meshes: SerializedMesh[] = [];
+
+        root.updateMatrixWorld(true);
+        const rootInverse = root.matrixWorld.clone().invert();
+
+        root.traverse(object => {
+            if (!(object instanceof THREE.Mesh)) return;
+            if (Array.isArray(object.material) || !object.material.name) {
+                throw new Error('Only meshes with a single, named material can be serialized');
+            }
+
+            let geometry = geometries.get(object.geometry);
+            if (!geometry) {
+                geometry = this.serializeGeometry(object.geometry, transfer);
+                geometries.set(object.geometry, geometry);
+            }
+
+            const mesh: SerializedMesh = {
+                geometry,
+                material: object.material.name,
+                matrix: rootInverse.clone().multiply(object.matrixWorld).toArray(),
+                castShadow: object.castShadow,
+                receiveShadow: object.receiveShadow,
+                renderOrder: object.renderOrder,
+                userData: { ...object.userData }
+            };
+            if (object instanceof THREE.InstancedMesh) {
+                const matrices = object.instanceMatrix.array as Float32Array;
+                transfer.add(matrices.buffer as ArrayBuffer);
+                mesh.instances = { matrices, count: object.count };
+            }
+            meshes.push(mesh);
+        });
+
+        return meshes;
+    }
+
+    /**
+     * Rebuild meshes from serialized data, with materials looked up by name
+     */
+    static deserialize(meshes: SerializedMesh[], materials: Record<string, THREE.Material>): THREE.Mesh[] {
+        const geometries = new Map<SerializedGeometry, THREE.BufferGeometry>();
+
+        return meshes.map(data => {
+            const material = materials[data.material];
+            if (!material) {
+                throw new Error(`Unknown material: ${data.material}`);
+            }
+
+            let geometry = geometries.get(data.geometry);
+            if (!geometry) {
+                geometry = this.deserializeGeometry(data.geometry);
+                geometries.set(data.geometry, geometry);
+            }
+
+            let mesh: THREE.Mesh;
+            if (data.instances) {
+                const instanced = new THREE.InstancedMesh(geometry, material, data.instances.count);
+                instanced.instanceMatrix = new THREE.InstancedBufferAttribute(data.instances.matrices, 16);
+                mesh = instanced;
+            } else {
+                mesh = new THREE.Mesh(geometry, material);
+            }
+
+            new THREE.Matrix4().fromArray(data.matrix).decompose(mesh.position, mesh.quaternion, mesh.scale);
+            mesh.castShadow = data.castShadow;
+            mesh.receiveShadow = data.receiveShadow;
+            mesh.renderOrder = data.renderOrder;
+            Object.assign(mesh.userData, data.userData);
+            return mesh;
+        });
+    }
+
+    private static serializeGeometry(geometry: THREE.BufferGeometry, transfer: Set<ArrayBuffer>): SerializedGeometry {
+        const attributes: Record<string, SerializedAttribute> = {};
+        Object.entries(geometry.attributes).forEach(([name, attribute]) => {
+            // Interleaved attributes aren't produced by the generators
+            if (!(attribute instanceof THREE.BufferAttribute)) return;
+            const array = attribute.array as TypedArray;
+            transfer.add(array.buffer as ArrayBuffer);
+            attributes[name] = { array, itemSize: attribute.itemSize, normalized: attribute.normalized };
+        });
+
+        const index = geometry.index ? geometry.index.array as TypedArray : null;
+        if (index) transfer.add(index.buffer as ArrayBuffer);
+
+        return {
+            attributes,
+            index,
+            groups: geometry.groups.map(group => ({ ...group }))
+        };
+    }
+
+    private static deserializeGeometry(data: SerializedGeometry): THREE.BufferGeometry {
+        const geometry = new THREE.BufferGeometry();
+        Object.entries(data.attributes).forEach(([name, attribute]) => {
+            geometry.setAttribute(name, new THREE.BufferAttribute(attribute.array, attribute.itemSize, attribute.normalized));
+        });
+        if (data.index) {
+            geometry.setIndex(new THREE.BufferAttribute(data.index, 1));
+        }
+        data.groups.forEach(group => geometry.addGroup(group.start, group.count, group.materialIndex));
+        return geometry;
+    }
+}
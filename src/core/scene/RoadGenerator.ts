@@ -1,16 +1,119 @@
 import * as THREE from 'three';
-import type { GeoJSON, Feature } from '@/types';
+import { RoadNetwork } from '../network/RoadNetwork';
+import type { OneWayDirection } from '../network/RoadNetwork';
+import { RoadDimensions } from '../network/RoadDimensions';
+import { JunctionLayout } from '../network/JunctionLayout';
+import type { JunctionWay, Junction } from '../network/JunctionLayout';
+import { JunctionGenerator } from './JunctionGenerator';
+import { RoundaboutLayout } from '../network/RoundaboutLayout';
+import type { Roundabout } from '../network/RoundaboutLayout';
+import { RoundaboutGenerator } from './RoundaboutGenerator';
+import { RoadElevation } from '../network/RoadElevation';
+import { RoadIndex } from '../network/RoadIndex';
+import { BridgeGenerator } from './BridgeGenerator';
+import { MeshSerializer } from './MeshSerializer';
+import type { SerializedMesh } from './MeshSerializer';
+import { MeshBatcher } from './MeshBatcher';
+import type { Heightmap } from '../terrain/Heightmap';
+import type { GeoJSON, Feature, DrivingSide, RoadHit, RoadInfo } from '@/types';
+
+// A road way prepared for rendering
+export interface RenderedWay extends JunctionWay {
+    name?: string;
+    isTunnel: boolean;
+    isBridge: boolean;
+    layer: number;
+    lanesCount: number;
+    surface: string;
+    forwardLanes: number | null; // Lanes in the way's direction on two-way roads
+    maxspeed?: string;
+    featureIndex: number; // Index of the way's feature in the road GeoJSON
+}
+
+// A road strip between junctions, laid out and ready for its meshes to be built
+interface RoadPiece {
+    curve: THREE.CatmullRomCurve3;
+    length: number;
+    anchor: { x: number; z: number; }; // Middle of the strip, which decides the tile it belongs to
+    way: RenderedWay;
+}
+
+// Where a street name label goes; labels are drawn on canvases, so only on the main thread
+export interface StreetLabel {
+    x: number;
+    z: number;
+    rotation: number;
+    name: string;
+    elevation: number;
+}
+
+// Road surface samples with their points packed as x, y, z triples
+export interface PackedSurfaceSample {
+    points: Float32Array;
+    halfWidth: number;
+    featureIndex: number; // Road the sample belongs to (the major road at junctions)
+    elevated: boolean; // Also used for height lookup
+}
+
+// Control points of a laid out road strip packed as x, y, z triples
+export interface PackedRoadPiece {
+    points: Float32Array;
+    wayIndex: number; // Index of the strip's way in the layout
+}
+
+/**
+ * Roads laid out by prepareRoadGeometry as plain data, which can be posted between threads
+ * and cached: enough to build their meshes (restoreRoadGeometry) and look them up
+ * (setRoadData) without laying them out again
+ */
+export interface PreparedRoadLayout {
+    ways: RenderedWay[];
+    pieces: PackedRoadPiece[];
+    labels: StreetLabel[];
+    samples: PackedSurfaceSample[];
+}
+
+/**
+ * Road meshes of an area generated without the DOM (in a Web Worker), ready to be posted
+ * to the main thread
+ */
+export interface RoadGeometry {
+    roads: SerializedMesh[];
+    tunnels: SerializedMesh[];
+    labels: StreetLabel[];
+}
 
 export class RoadGenerator {
+    static readonly LAYOUT_VERSION = 1; // Bump when PreparedRoadLayout changes, so cached layouts are laid out again
+
     private roads: THREE.Mesh[] = [];
     private roadGroup: THREE.Group;
     private labelsGroup: THREE.Group;
     private tunnelGroup: THREE.Group;
     private labelTextures: THREE.CanvasTexture[] = [];
-    private roadSurfaceSamples: Array<{ points: THREE.Vector3[]; halfWidth: number; surface: string; }> = [];
+    private labelPlacements: StreetLabel[] = [];
+    private pieces: RoadPiece[] = [];
+    private tiles = new Map<string, THREE.Object3D[]>(); // Objects added per streamed tile
+    private roadSurfaceSamples: Array<{ points: THREE.Vector3[]; halfWidth: number; road: RoadInfo; elevated: boolean; }> = [];
+    private roadIndex = new RoadIndex(); // The surface samples as centreline segments, for road lookups
     private readonly surfaceSampleSpacing = 5; // meters between surface samples
-
-    // Shared materials to avoid creating duplicates
+    private drivingSide: DrivingSide = 'right';
+    private arrowTransforms: THREE.Matrix4[] = []; // Direction arrows painted on one-way roads
+    private readonly arrowSpacing = 30; // meters between arrows along a one-way road
+    private junctionLayout: JunctionLayout | null = null;
+    private junctionGenerator: JunctionGenerator;
+    private roundaboutLayout: RoundaboutLayout | null = null;
+    private roundaboutGenerator: RoundaboutGenerator;
+    private roadElevation: RoadElevation | null = null;
+    private bridgeGenerator: BridgeGenerator;
+    private readonly roadY = 0.01; // Height of road strips at ground level
+    private readonly maxHeightStep = 0.5; // meters a vehicle can climb onto a road surface at once
+    private terrain: Heightmap | null = null;
+    private readonly terrainSampleSpacing = 5; // meters between road points draped over terrain
+    private readonly dashLength = 2.0; // Lane divider dash pattern (meters)
+    private readonly gapLength = 1.0;
+
+    // Shared materials to avoid creating duplicates; meshes built in a worker refer to them by name
     private sharedMaterials = {
         roadMaterial: new THREE.MeshStandardMaterial({
             color: 0x666666,
@@ -36,15 +139,70 @@ export class RoadGenerator {
             emissiveIntensity: 0.3,
             side: THREE.DoubleSide
         }),
+        dashedLineMaterial: new THREE.MeshStandardMaterial({
+            map: this.createDashTexture(),
+            emissive: 0xFFFFFF,
+            emissiveIntensity: 0.3,
+            transparent: true,
+            alphaTest: 0.01, // Low threshold for transparency
+            side: THREE.DoubleSide
+        }),
         ceilingMaterial: new THREE.MeshStandardMaterial({
             color: 0x4a4a4a,
             roughness: 0.8,
             metalness: 0.2,
             side: THREE.DoubleSide
+        }),
+        islandGrassMaterial: new THREE.MeshStandardMaterial({
+            color: 0x3f9b35,
+            roughness: 0.9,
+            metalness: 0
+        }),
+        kerbMaterial: new THREE.MeshStandardMaterial({
+            color: 0xb5b5b0,
+            roughness: 0.8,
+            metalness: 0.05
+        }),
+        arrowMaterial: new THREE.MeshStandardMaterial({
+            color: 0xFFFFFF,
+            emissive: 0xFFFFFF,
+            emissiveIntensity: 0.3,
+            roughness: 0.9
+        }),
+        bridgeDeckMaterial: new THREE.MeshStandardMaterial({
+            color: 0x9c9a94,
+            roughness: 0.85,
+            metalness: 0.05,
+            side: THREE.DoubleSide
+        }),
+        railingMaterial: new THREE.MeshStandardMaterial({
+            color: 0x7d858c,
+            roughness: 0.5,
+            metalness: 0.6,
+            side: THREE.DoubleSide
         })
     };
 
     constructor(private scene: THREE.Scene) {
+        Object.entries(this.sharedMaterials).forEach(([name, material]) => {
+            material.name = name;
+        });
+
+        this.junctionGenerator = new JunctionGenerator({
+            surface: this.sharedMaterials.roadMaterial,
+            edgeLine: this.sharedMaterials.edgeLineMaterial,
+            marking: this.sharedMaterials.laneDividerMaterial
+        });
+        this.roundaboutGenerator = new RoundaboutGenerator({
+            grass: this.sharedMaterials.islandGrassMaterial,
+            kerb: this.sharedMaterials.kerbMaterial,
+            marking: this.sharedMaterials.laneDividerMaterial
+        });
+        this.bridgeGenerator = new BridgeGenerator({
+            deck: this.sharedMaterials.bridgeDeckMaterial,
+            railing: this.sharedMaterials.railingMaterial
+        });
+
         this.roadGroup = new THREE.Group();
         this.labelsGroup = new THREE.Group();
         this.tunnelGroup = new THREE.Group();
@@ -63,6 +221,10 @@ export class RoadGenerator {
      * Dispose of Three.js resources (geometries, materials, textures)
      */
     private disposeObject(object: THREE.Object3D): void {
+        if (object instanceof THREE.InstancedMesh) {
+            // Release the per-instance buffers as well
+            object.dispose();
+        }
         if (object instanceof THREE.Mesh) {
             // Dispose geometry
             if (object.geometry) {
@@ -77,11 +239,11 @@ export class RoadGenerator {
                         material.dispose();
                     });
                 } else {
-                    if (object.material.map) object.material.map.dispose();
                     // Only dispose if not a shared material
                     const materialId = (object.material as any).uuid;
                     const isShared = Object.values(this.sharedMaterials).some(m => m.uuid === materialId);
                     if (!isShared) {
+                        if (object.material.map) object.material.map.dispose();
                         object.material.dispose();
                     }
                 }
@@ -102,9 +264,25 @@ export class RoadGenerator {
     }
 
     /**
-     * Clear all roads, labels, and tunnels from the groups and dispose resources
+     * Clear all roads, labels, and tunnels from the groups, dispose resources and forget the
+     * road layout
      */
     clear(): void {
+        this.clearMeshes();
+        this.pieces = [];
+        this.labelPlacements = [];
+        this.roadSurfaceSamples = [];
+        this.roadIndex.clear();
+        this.arrowTransforms = [];
+        this.junctionLayout = null;
+        this.roundaboutLayout = null;
+        this.roadElevation = null;
+    }
+
+    /**
+     * Remove all roads, labels and tunnels from the groups and dispose resources
+     */
+    private clearMeshes(): void {
         // Dispose all label textures
         this.labelTextures.forEach(texture => texture.dispose());
         this.labelTextures = [];
@@ -120,24 +298,314 @@ export class RoadGenerator {
         });
 
         this.roads = [];
-        this.roadSurfaceSamples = [];
+        this.tiles.clear();
     }
 
     /**
-     * Generate roads from GeoJSON data
+     * Generate roads from GeoJSON data.
+     * Ways are split at junctions and stop short of them; each junction is then filled
+     * with a single polygon so road strips and their markings never overlap.
      */
     generateRoadsFromGeoJSON(geoJSON: GeoJSON, centerLat: number, centerLon: number): void {
+        this.prepareRoads(geoJSON, centerLat, centerLon);
+        this.createMeshes(() => true);
+        this.labelPlacements.forEach(label => this.createStreetLabel(label));
+    }
+
+    /**
+     * Lay out the roads for generating their meshes area by area with generateRoadGeometry
+     * (in a Web Worker). Returns the layout, packed for setRoadData and for caching.
+     */
+    prepareRoadGeometry(geoJSON: GeoJSON, centerLat: number, centerLon: number): { layout: PreparedRoadLayout; transfer: ArrayBuffer[]; } {
+        const ways = this.prepareRoads(geoJSON, centerLat, centerLon);
+        const wayIndices = new Map(ways.map((way, index) => [way, index]));
+
+        const transfer: ArrayBuffer[] = [];
+        const pack = (points: THREE.Vector3[]) => {
+            const packed = new Float32Array(points.length * 3);
+            points.forEach((point, index) => point.toArray(packed, index * 3));
+            transfer.push(packed.buffer);
+            return packed;
+        };
+        const layout: PreparedRoadLayout = {
+            ways,
+            pieces: this.pieces.map(piece => ({ points: pack(piece.curve.points), wayIndex: wayIndices.get(piece.way)! })),
+            labels: this.labelPlacements,
+            samples: this.roadSurfaceSamples.map(sample => ({
+                points: pack(sample.points),
+                halfWidth: sample.halfWidth,
+                featureIndex: sample.road.featureIndex,
+                elevated: sample.elevated
+            }))
+        };
+        return { layout, transfer };
+    }
+
+    /**
+     * Take on roads laid out before (see prepareRoadGeometry) for generating their meshes
+     * area by area, instead of laying them out again
+     */
+    restoreRoadGeometry(layout: PreparedRoadLayout): void {
+        this.setRoadData(layout);
+        this.roadElevation = this.buildElevation(layout.ways);
+        layout.pieces.forEach(piece => {
+            const curve = new THREE.CatmullRomCurve3(this.unpackPoints(piece.points), false, 'centripetal');
+            const middle = curve.getPoint(0.5);
+            this.pieces.push({ curve, length: curve.getLength(), anchor: { x: middle.x, z: middle.z }, way: layout.ways[piece.wayIndex] });
+        });
+        this.labelPlacements = [...layout.labels];
+    }
+
+    /**
+     * Generate the meshes of the prepared roads within an area without touching the DOM,
+     * as transferable data for addRoadTile. Strips, junctions, roundabouts and labels belong
+     * to the area holding their middle.
+     */
+    generateRoadGeometry(inArea: (point: { x: number; z: number; }) => boolean): { geometry: RoadGeometry; transfer: ArrayBuffer[]; } {
+        this.createMeshes(inArea);
+
+        const transfer = new Set<ArrayBuffer>();
+        const geometry: RoadGeometry = {
+            roads: MeshSerializer.serialize(this.roadGroup, transfer),
+            tunnels: MeshSerializer.serialize(this.tunnelGroup, transfer),
+            labels: this.labelPlacements.filter(label => inArea(label))
+        };
+
+        this.clearMeshes();
+        return { geometry, transfer: [...transfer] };
+    }
+
+    /**
+     * Points along the prepared road strips within an area, at most `spacing` apart, so the
+     * areas a strip runs through can be told from the one holding its middle
+     */
+    getStripPoints(inArea: (point: { x: number; z: number; }) => boolean, spacing: number): Array<{ x: number; z: number; }> {
+        const points: Array<{ x: number; z: number; }> = [];
+        this.pieces.filter(piece => inArea(piece.anchor)).forEach(piece => {
+            piece.curve.getSpacedPoints(Math.max(1, Math.ceil(piece.length / spacing)))
+                .forEach(point => points.push({ x: point.x, z: point.z }));
+        });
+        return points;
+    }
+
+    /**
+     * Take on the surface samples of roads laid out elsewhere (see prepareRoadGeometry), so
+     * road heights and surfaces can be looked up everywhere while only some of the meshes are
+     * in the scene. The junction and roundabout layouts are rebuilt from the prepared ways,
+     * which is quick next to the meshes.
+     */
+    setRoadData(layout: PreparedRoadLayout): void {
+        const roads = new Map(layout.ways.map(way => [way.featureIndex, this.getRoadInfo(way)]));
+
+        layout.samples.forEach(sample => {
+            const road = roads.get(sample.featureIndex);
+            if (!road) return;
+            this.addSurfaceSample(this.unpackPoints(sample.points), sample.halfWidth, road, sample.elevated);
+        });
+
+        this.junctionLayout = JunctionLayout.build(layout.ways);
+        this.roundaboutLayout = RoundaboutLayout.build(layout.ways.filter(way => way.roundabout), this.drivingSide);
+    }
+
+    /**
+     * Points packed as x, y, z triples
+     */
+    private unpackPoints(packed: Float32Array): THREE.Vector3[] {
+        const points: THREE.Vector3[] = [];
+        for (let i = 0; i < packed.length; i += 3) {
+            points.push(new THREE.Vector3().fromArray(packed, i));
+        }
+        return points;
+    }
+
+    /**
+     * Add the road meshes and street labels of one tile, generated by generateRoadGeometry
+     */
+    addRoadTile(key: string, geometry: RoadGeometry): void {
+        this.removeRoadTile(key);
+        const objects: THREE.Object3D[] = [];
+
+        MeshSerializer.deserialize(geometry.roads, this.sharedMaterials).forEach(mesh => {
+            this.roadGroup.add(mesh);
+            objects.push(mesh);
+            if (mesh.userData.isRoadSurface) this.roads.push(mesh);
+        });
+        MeshSerializer.deserialize(geometry.tunnels, this.sharedMaterials).forEach(mesh => {
+            this.tunnelGroup.add(mesh);
+            objects.push(mesh);
+            if (mesh.userData.isRoadSurface) this.roads.push(mesh);
+        });
+        geometry.labels.forEach(label => {
+            const sprite = this.createStreetLabel(label);
+            if (sprite) objects.push(sprite);
+        });
+
+        this.tiles.set(key, objects);
+    }
+
+    /**
+     * Remove the road meshes and labels of a tile and dispose their resources
+     */
+    removeRoadTile(key: string): void {
+        const objects = this.tiles.get(key);
+        if (!objects) return;
+
+        const removed = new Set<unknown>(objects);
+        objects.forEach(object => {
+            if (object instanceof THREE.Sprite) removed.add(object.material.map);
+            this.disposeObject(object);
+            object.removeFromParent();
+        });
+        this.roads = this.roads.filter(mesh => !removed.has(mesh));
+        this.labelTextures = this.labelTextures.filter(texture => !removed.has(texture));
+        this.tiles.delete(key);
+    }
+
+    /**
+     * Lay out the roads: ways are split into strips between junctions, and their surface
+     * samples and street labels are stored. Meshes are created separately by createMeshes.
+     * Returns the ways laid out.
+     */
+    private prepareRoads(geoJSON: GeoJSON, centerLat: number, centerLon: number): RenderedWay[] {
         if (!geoJSON || !geoJSON.features) {
             console.warn('No GeoJSON features provided');
-            return;
+            return [];
         }
 
         console.log(`Processing ${geoJSON.features.length} features...`);
 
-        let roadsCreated = 0;
-        let roadsSkipped = 0;
+        const { ways, skipped: roadsSkipped } = this.prepareWays(geoJSON, centerLat, centerLon);
+
+        // Find where three or more road arms meet
+        this.junctionLayout = JunctionLayout.build(ways);
+
+        // Lift bridges and raised layers, with ramps down the roads leading onto them
+        this.roadElevation = this.buildElevation(ways);
+        const elevation = this.roadElevation;
+
+        ways.forEach((way, wayIndex) => {
+            // Split the way at the junctions it passes through
+            const cuts = [0];
+            for (let i = 1; i < way.points.length - 1; i++) {
+                if (this.junctionLayout!.isJunction(way.keys[i])) cuts.push(i);
+            }
+            cuts.push(way.points.length - 1);
+
+            for (let c = 0; c < cuts.length - 1; c++) {
+                const piece = way.points.slice(cuts[c], cuts[c + 1] + 1);
+                const length = JunctionLayout.polylineLength(piece);
+
+                // Stop the strip at the boundary of the junction at either end
+                const startTrim = this.junctionLayout!.getTrim(wayIndex, cuts[c], true);
+                const endTrim = this.junctionLayout!.getTrim(wayIndex, cuts[c + 1], false);
+                if (length - startTrim - endTrim < 0.5) continue;
+
+                const trimmed = this.withHeights(
+                    JunctionLayout.slicePolyline(piece, startTrim, length - endTrim),
+                    piece,
+                    way.keys.slice(cuts[c], cuts[c + 1] + 1),
+                    startTrim,
+                    endTrim,
+                    elevation
+                );
+                this.addRoadPiece(trimmed, way);
+            }
+
+            // Add street name label on the middle segment of the whole way
+            if (way.name) {
+                this.createStreetLabelForWay(way, way.name);
+            }
+        });
+
+        this.storeJunctionSurfaceSamples(this.junctionLayout.getJunctions(), ways);
+
+        // Group roundabout ways into roundabouts circulating for the driving side
+        this.roundaboutLayout = RoundaboutLayout.build(ways.filter(way => way.roundabout), this.drivingSide);
+
+        console.log(`Laid out ${ways.length} roads, skipped ${roadsSkipped} features`);
+        return ways;
+    }
+
+    /**
+     * Heights of bridges and raised layers along the ways, with the ramps leading onto them
+     */
+    private buildElevation(ways: RenderedWay[]): RoadElevation {
+        return RoadElevation.build(ways.map(way => ({
+            points: way.points,
+            keys: way.keys,
+            layer: way.layer,
+            bridge: way.isBridge,
+            tunnel: way.isTunnel
+        })));
+    }
+
+    /**
+     * Create the meshes of the laid out road strips, junctions and roundabouts within an area
+     */
+    private createMeshes(inArea: (point: { x: number; z: number; }) => boolean): void {
+        this.pieces.filter(piece => inArea(piece.anchor)).forEach(piece => {
+            const roadCount = this.roadGroup.children.length;
+            const tunnelCount = this.tunnelGroup.children.length;
+            this.createRoadMeshes(piece);
+            // Remember the way each mesh belongs to, so it can still be picked and highlighted once merged
+            [...this.roadGroup.children.slice(roadCount), ...this.tunnelGroup.children.slice(tunnelCount)].forEach(object => {
+                object.userData.featureId = piece.way.featureIndex;
+            });
+        });
+
+        // Fill the junctions and mark where minor roads give way
+        const elevation = this.roadElevation;
+        if (this.junctionLayout && elevation) {
+            const junctions = this.junctionLayout.getJunctions().filter(junction => inArea(junction.center));
+            this.junctionGenerator.createMeshes(junctions, this.drivingSide, key => elevation.getHeight(key), point => this.getGroundHeight(point.x, point.z)).forEach(mesh => {
+                this.roadGroup.add(mesh);
+                this.roads.push(mesh);
+            });
+        }
+
+        if (this.roundaboutLayout) {
+            const roundabouts = this.roundaboutLayout.getRoundabouts().filter(roundabout => inArea(roundabout.center));
+            this.roundaboutGenerator.createMeshes(roundabouts, point => this.getGroundHeight(point.x, point.z)).forEach(mesh => this.roadGroup.add(mesh));
+            roundabouts.forEach(roundabout => this.addRoundaboutArrows(roundabout));
+        }
+
+        // Paint all one-way arrows in a single draw call
+        this.createDirectionArrows();
+
+        // Railing posts and bridge pillars, also instanced
+        this.bridgeGenerator.createInstancedParts().forEach(mesh => this.roadGroup.add(mesh));
+
+        // Merge the strips, lines, junctions and structures per material to cut draw calls
+        this.roads.forEach(mesh => {
+            mesh.userData.isRoadSurface = true;
+        });
+        this.roads = [...MeshBatcher.batch(this.roadGroup), ...MeshBatcher.batch(this.tunnelGroup)]
+            .filter(mesh => mesh.userData.isRoadSurface);
+    }
+
+    /**
+     * Junction layout of the generated roads (null before roads are generated)
+     */
+    getJunctionLayout(): JunctionLayout | null {
+        return this.junctionLayout;
+    }
+
+    /**
+     * Roundabouts among the generated roads (null before roads are generated)
+     */
+    getRoundaboutLayout(): RoundaboutLayout | null {
+        return this.roundaboutLayout;
+    }
+
+    /**
+     * Road ways to render from GeoJSON features, in local coordinates. Service roads,
+     * footpaths and other features are skipped.
+     */
+    private prepareWays(geoJSON: GeoJSON, centerLat: number, centerLon: number): { ways: RenderedWay[]; skipped: number; } {
+        const ways: RenderedWay[] = [];
+        let skipped = 0;
 
-        geoJSON.features.forEach((feature: Feature) => {
+        geoJSON.features.forEach((feature: Feature, featureIndex) => {
             if (feature.geometry.type === 'LineString' && feature.properties.highway) {
                 const highwayType = feature.properties.highway;
 
@@ -146,14 +614,14 @@ export class RoadGenerator {
                     highwayType === 'footway' ||
                     highwayType === 'path' ||
                     highwayType === 'steps') {
-                    roadsSkipped++;
+                    skipped++;
                     return;
                 }
 
                 const coordinates = feature.geometry.coordinates;
 
                 if (coordinates.length < 2) {
-                    roadsSkipped++;
+                    skipped++;
                     return;
                 }
 
@@ -161,28 +629,175 @@ export class RoadGenerator {
                 const points = coordinates.map(([lon, lat]) => {
                     return this.latLonToLocal(lat, lon, centerLat, centerLon);
                 });
+                const keys = coordinates.map(([lon, lat]) => RoadNetwork.coordinateKey(lon, lat));
 
                 // Check if this is a tunnel or bridge
                 const isTunnel = feature.properties.tunnel === 'yes' || feature.properties.tunnel === 'building_passage';
-                const layer = feature.properties.layer ? parseInt(feature.properties.layer, 10) : 0;
+                const isBridge = !!feature.properties.bridge && feature.properties.bridge !== 'no';
+                const layer = feature.properties.layer ? parseInt(feature.properties.layer, 10) || 0 : 0;
 
                 // Parse lanes count (default to 1 if not specified)
                 const lanesCount = feature.properties.lanes ? parseInt(feature.properties.lanes, 10) : 1;
 
+                // Permitted direction of travel (oneway=yes/-1/reversible, or implied)
+                const oneway = RoadNetwork.parseOneWay(feature.properties);
+
+                // Lanes running in the way's direction on two-way roads (null for one-way roads)
+                const forwardLanes = oneway === 'no'
+                    ? this.getForwardLanes(feature.properties.lanes, feature.properties['lanes:forward'], feature.properties['lanes:backward'])
+                    : null;
+
                 // Determine surface type (default to asphalt)
                 const surface = typeof feature.properties.surface === 'string'
                     ? feature.properties.surface.toLowerCase()
                     : 'asphalt';
 
-                // Create road from points
-                this.createRoadFromPoints(points, feature.properties.highway, feature.properties.name, isTunnel, layer, lanesCount, surface);
-                roadsCreated++;
+                ways.push({
+                    points,
+                    keys,
+                    highway: highwayType,
+                    halfWidth: RoadDimensions.getRoadWidth(highwayType, lanesCount) / 2,
+                    oneway,
+                    roundabout: feature.properties.junction === 'roundabout' || feature.properties.junction === 'circular',
+                    name: feature.properties.name,
+                    isTunnel,
+                    isBridge,
+                    layer,
+                    lanesCount,
+                    surface,
+                    forwardLanes,
+                    maxspeed: feature.properties.maxspeed !== undefined ? String(feature.properties.maxspeed) : undefined,
+                    featureIndex
+                });
             } else {
-                roadsSkipped++;
+                skipped++;
+            }
+        });
+
+        return { ways, skipped };
+    }
+
+    /**
+     * Height of the road surface at a position. Where roads cross at different levels, the
+     * highest surface reachable from `nearHeight` (the height the caller was last at) is
+     * chosen, so vehicles stay on a deck, climb ramps and pass under bridges. The ground
+     * (the terrain, if any) always counts as a surface.
+     */
+    getRoadHeightAt(position: { x: number; z: number; }, nearHeight: number = 0): number {
+        const reach = nearHeight + this.maxHeightStep;
+        let best = this.getGroundHeight(position.x, position.z);
+        for (const hit of this.roadIndex.getRoadsAt(position.x, position.z)) {
+            if (!hit.elevated) continue;
+            const height = hit.height - this.roadY;
+            if (height > best && height <= reach) {
+                best = height;
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Give a trimmed road piece the heights of its coordinates, interpolated by distance along
+     * the piece. Ends cut at a junction take the junction's height so strip and junction meet.
+     * Over terrain, points are added along long segments so the road follows the ground.
+     */
+    private withHeights(
+        trimmed: Array<{ x: number; z: number; }>,
+        piece: Array<{ x: number; z: number; }>,
+        keys: string[],
+        startTrim: number,
+        endTrim: number,
+        elevation: RoadElevation
+    ): Array<{ x: number; z: number; y: number; }> {
+        const distances = [0];
+        for (let i = 1; i < piece.length; i++) {
+            distances.push(distances[i - 1] + Math.hypot(piece[i].x - piece[i - 1].x, piece[i].z - piece[i - 1].z));
+        }
+        const heightAt = (distance: number) => {
+            let i = 0;
+            while (i < piece.length - 2 && distances[i + 1] < distance) i++;
+            const span = distances[i + 1] - distances[i];
+            const t = span > 0 ? Math.max(0, Math.min(1, (distance - distances[i]) / span)) : 0;
+            return elevation.getHeight(keys[i]) + (elevation.getHeight(keys[i + 1]) - elevation.getHeight(keys[i])) * t;
+        };
+
+        let travelled = startTrim;
+        const heighted = trimmed.map((point, index) => {
+            if (index > 0) travelled += Math.hypot(point.x - trimmed[index - 1].x, point.z - trimmed[index - 1].z);
+            return { x: point.x, z: point.z, y: heightAt(travelled) };
+        });
+        if (startTrim > 0) heighted[0].y = elevation.getHeight(keys[0]);
+        if (endTrim > 0) heighted[heighted.length - 1].y = elevation.getHeight(keys[keys.length - 1]);
+        if (!this.terrain) return heighted;
+
+        const draped: Array<{ x: number; z: number; y: number; }> = [];
+        heighted.forEach((point, index) => {
+            if (index > 0) {
+                const previous = heighted[index - 1];
+                const steps = Math.ceil(Math.hypot(point.x - previous.x, point.z - previous.z) / this.terrainSampleSpacing);
+                for (let step = 1; step < steps; step++) {
+                    const t = step / steps;
+                    draped.push({
+                        x: previous.x + (point.x - previous.x) * t,
+                        z: previous.z + (point.z - previous.z) * t,
+                        y: previous.y + (point.y - previous.y) * t
+                    });
+                }
             }
+            draped.push({ ...point });
+        });
+        draped.forEach(point => point.y += this.getGroundHeight(point.x, point.z));
+        return draped;
+    }
+
+    /**
+     * Use a terrain height grid for the roads generated afterwards (null for flat ground)
+     */
+    setTerrain(terrain: Heightmap | null): void {
+        this.terrain = terrain;
+    }
+
+    /**
+     * Ground height at a position: the terrain, or 0 on flat ground
+     */
+    private getGroundHeight(x: number, z: number): number {
+        return this.terrain ? this.terrain.getHeight(x, z) : 0;
+    }
+
+    /**
+     * Surface samples covering each junction, using the surface of its most important arm
+     */
+    private storeJunctionSurfaceSamples(junctions: Junction[], ways: RenderedWay[]): void {
+        junctions.forEach(junction => {
+            const major = junction.arms.reduce((best, arm) => arm.rank > best.rank ? arm : best);
+            const reach = Math.max(...junction.arms.map(arm => Math.hypot(arm.trim, arm.halfWidth)));
+            const elevation = this.roadElevation?.getHeight(junction.key) ?? 0;
+            const ground = this.getGroundHeight(junction.center.x, junction.center.z);
+            const points = [new THREE.Vector3(junction.center.x, this.roadY + ground + elevation, junction.center.z)];
+            this.addSurfaceSample(points, reach, this.getRoadInfo(ways[major.wayIndex]), elevation > 0);
         });
+    }
 
-        console.log(`Created ${roadsCreated} roads, skipped ${roadsSkipped} features`);
+    /**
+     * Keep surface samples for road lookups (and for setRoadData on another thread)
+     */
+    private addSurfaceSample(points: THREE.Vector3[], halfWidth: number, road: RoadInfo, elevated: boolean): void {
+        this.roadSurfaceSamples.push({ points, halfWidth, road, elevated });
+        this.roadIndex.addRoad(points, halfWidth, road, elevated);
+    }
+
+    /**
+     * Tags of a way returned by road lookups
+     */
+    private getRoadInfo(way: RenderedWay): RoadInfo {
+        return {
+            featureIndex: way.featureIndex,
+            name: way.name,
+            highway: way.highway,
+            surface: way.surface,
+            lanes: way.lanesCount,
+            maxspeed: way.maxspeed
+        };
     }
 
     /**
@@ -200,33 +815,39 @@ export class RoadGenerator {
     }
 
     /**
-     * Create road geometry from array of points using a single smooth curve mesh
+     * Fit a smooth curve through a road strip's points and keep it, with its surface samples,
+     * for its meshes to be built later
      */
-    private createRoadFromPoints(
-        points: Array<{ x: number; z: number; }>,
-        highwayType: string,
-        roadName?: string,
-        isTunnel: boolean = false,
-        layer: number = 0,
-        lanesCount: number = 1,
-        surface: string = 'asphalt'
-    ): void {
-        const roadWidth = this.getRoadWidth(highwayType, lanesCount);
-        const roadY = 0.01;
-
+    private addRoadPiece(points: Array<{ x: number; z: number; y?: number; }>, way: RenderedWay): void {
         if (points.length < 2) return;
 
-        // Convert 2D points to 3D vectors
-        const curvePoints = points.map(p => new THREE.Vector3(p.x, roadY, p.z));
+        // Convert 2D points to 3D vectors, lifted by any elevation (bridges and their ramps)
+        const curvePoints = points.map(p => new THREE.Vector3(p.x, this.roadY + (p.y ?? 0), p.z));
 
         // Create a smooth curve through all points using CatmullRom spline
         // This automatically handles smooth transitions between segments
         const curve = new THREE.CatmullRomCurve3(curvePoints, false, 'centripetal');
 
         // Get total curve length
-        const curveLength = curve.getLength();
+        const length = curve.getLength();
 
-        if (curveLength < 0.1) return; // Skip very short curves
+        if (length < 0.1) return; // Skip very short curves
+
+        // Store surface samples for road audio
+        const roadWidth = RoadDimensions.getRoadWidth(way.highway, way.lanesCount);
+        this.storeSurfaceSamples(curve, roadWidth, length, way);
+
+        const middle = curve.getPoint(0.5);
+        this.pieces.push({ curve, length, anchor: { x: middle.x, z: middle.z }, way });
+    }
+
+    /**
+     * Create the meshes of a road strip using a single smooth curve mesh
+     */
+    private createRoadMeshes(piece: RoadPiece): void {
+        const { curve, length: curveLength, way } = piece;
+        const { isTunnel, lanesCount, forwardLanes, oneway } = way;
+        const roadWidth = RoadDimensions.getRoadWidth(way.highway, lanesCount);
 
         // Number of segments along the curve (more segments = smoother but more vertices)
         // Adjust based on curve length - roughly one segment per 2 meters for balance
@@ -236,73 +857,92 @@ export class RoadGenerator {
         // Tunnels use the same rendering as regular roads, just with darker color
         this.createRoadMeshAlongCurve(curve, roadWidth, numSegments, isTunnel);
 
-        // Store surface samples for road audio
-        this.storeSurfaceSamples(curve, roadWidth, curveLength, surface);
-
         // Create 3D tunnel structure above the road if it's a tunnel
         if (isTunnel) {
             this.createTunnelStructureAlongCurve(curve, roadWidth, numSegments, curveLength);
         }
 
+        // Deck, railings and pillars under raised roads
+        if (curve.points.some(point => this.isRaised(point))) {
+            this.bridgeGenerator.createStructure(curve, roadWidth, numSegments, curveLength, (x, z) => this.getGroundHeight(x, z))
+                .forEach(mesh => this.roadGroup.add(mesh));
+        }
+
         // Create yellow edge lines along the curve
         this.createEdgeLinesAlongCurve(curve, roadWidth, numSegments, curveLength);
 
-        // Create lane dividers along the curve if multiple lanes
-        if (lanesCount > 1) {
-            this.createLaneDividersAlongCurve(curve, roadWidth, lanesCount, numSegments, curveLength);
+        // Create lane dividers along the curve: two-way roads always get a centre line between
+        // the directions, one-way roads only get dividers between their lanes
+        if (lanesCount > 1 || oneway === 'no') {
+            const separatorOffset = forwardLanes !== null
+                ? this.getDirectionSeparatorOffset(roadWidth, lanesCount, forwardLanes)
+                : null;
+            // Solid where a direction has more than one lane, dashed on single-lane-each-way roads
+            const solidSeparator = forwardLanes !== null && Math.max(forwardLanes, lanesCount - forwardLanes) > 1;
+            this.createLaneDividersAlongCurve(curve, roadWidth, lanesCount, numSegments, curveLength, separatorOffset, solidSeparator);
         }
 
-        // Add street name label on the middle segment of the road
-        if (roadName && points.length >= 2) {
-            const middleIndex = Math.floor(points.length / 2);
-            const midPoint = points[middleIndex];
-            const nextPoint = points[Math.min(middleIndex + 1, points.length - 1)];
-            const labelDirection = Math.atan2(nextPoint.x - midPoint.x, nextPoint.z - midPoint.z);
-            this.createStreetLabel(midPoint, labelDirection, roadName);
+        // Mark the permitted direction on one-way roads (reversible roads change direction, so get none;
+        // roundabouts are marked around their whole circle instead)
+        if ((oneway === 'forward' || oneway === 'backward') && !way.roundabout) {
+            this.addDirectionArrowsAlongCurve(curve, roadWidth, lanesCount, curveLength, oneway === 'backward');
         }
     }
 
     /**
-     * Store simplified surface samples along a curve for surface lookup
+     * Queue a street name label on the middle segment of a way
+     */
+    private createStreetLabelForWay(way: RenderedWay, roadName: string): void {
+        const points = way.points;
+        if (points.length < 2) return;
+        const middleIndex = Math.floor(points.length / 2);
+        const midPoint = points[middleIndex];
+        const nextPoint = points[Math.min(middleIndex + 1, points.length - 1)];
+        const labelDirection = Math.atan2(nextPoint.x - midPoint.x, nextPoint.z - midPoint.z);
+        const elevation = (this.roadElevation?.getHeight(way.keys[middleIndex]) ?? 0) + this.getGroundHeight(midPoint.x, midPoint.z);
+        this.labelPlacements.push({ x: midPoint.x, z: midPoint.z, rotation: labelDirection, name: roadName, elevation });
+    }
+
+    /**
+     * Store simplified surface samples along a curve for road lookups
      */
     private storeSurfaceSamples(
         curve: THREE.CatmullRomCurve3,
         roadWidth: number,
         curveLength: number,
-        surface: string
+        way: RenderedWay
     ): void {
         const sampleCount = Math.max(2, Math.ceil(curveLength / this.surfaceSampleSpacing));
         const points = curve.getPoints(sampleCount);
-        this.roadSurfaceSamples.push({
-            points,
-            halfWidth: roadWidth * 0.5,
-            surface
-        });
+        this.addSurfaceSample(points, roadWidth * 0.5, this.getRoadInfo(way), points.some(point => this.isRaised(point)));
     }
 
     /**
-     * Get the road surface type at a given world position
+     * Whether a road point lies above the ground (on a bridge or its ramp)
+     */
+    private isRaised(point: THREE.Vector3): boolean {
+        return point.y > this.roadY + this.getGroundHeight(point.x, point.z) + 0.001;
+    }
+
+    /**
+     * Get the road surface type at a given world position (asphalt off road)
      */
     getSurfaceAtPosition(position: THREE.Vector3): string {
-        let closestSurface = 'asphalt';
-        let closestDistance = Infinity;
-
-        for (const road of this.roadSurfaceSamples) {
-            for (const point of road.points) {
-                const dx = position.x - point.x;
-                const dz = position.z - point.z;
-                const dist = Math.sqrt(dx * dx + dz * dz);
-                if (dist <= road.halfWidth && dist < closestDistance) {
-                    closestDistance = dist;
-                    closestSurface = road.surface;
-                    if (closestDistance < 1) {
-                        return closestSurface;
-                    }
-                }
-            }
-        }
+        return this.getRoadAt(position)?.road.surface ?? 'asphalt';
+    }
 
-        return closestSurface;
+    /**
+     * The road under a position; null off road
+     */
+    getRoadAt(position: { x: number; z: number; }): RoadHit | null {
+        return this.roadIndex.getRoadAt(position.x, position.z);
+    }
+
+    /**
+     * The road whose centreline passes nearest a position, within a maximum distance
+     */
+    findNearestRoad(position: { x: number; z: number; }, maxDistance: number = 50): RoadHit | null {
+        return this.roadIndex.findNearest(position.x, position.z, maxDistance);
     }
 
     /**
@@ -404,7 +1044,6 @@ export class RoadGenerator {
     ): void {
         const tunnelHeight = 3; // Height of tunnel interior
         const wallThickness = 1; // Thickness of tunnel walls
-        const roadY = 0.01;
         const halfWidth = roadWidth / 2;
 
         // Use shared material
@@ -462,7 +1101,7 @@ export class RoadGenerator {
                     const innerLeftEdge = archPoint.clone().add(curvePerp.clone().multiplyScalar(-halfWidth));
                     const innerRightEdge = archPoint.clone().add(curvePerp.clone().multiplyScalar(halfWidth));
                     const innerArchPos = innerLeftEdge.clone().lerp(innerRightEdge, widthT);
-                    innerArchPos.y = roadY + archY;
+                    innerArchPos.y = archPoint.y + archY;
 
                     archVertices.push(innerArchPos.x, innerArchPos.y, innerArchPos.z);
                 }
@@ -479,7 +1118,7 @@ export class RoadGenerator {
                     const outerLeftEdge = archPoint.clone().add(curvePerp.clone().multiplyScalar(-halfWidth - wallThickness));
                     const outerRightEdge = archPoint.clone().add(curvePerp.clone().multiplyScalar(halfWidth + wallThickness));
                     const outerArchPos = outerLeftEdge.clone().lerp(outerRightEdge, widthT);
-                    outerArchPos.y = roadY + archY;
+                    outerArchPos.y = archPoint.y + archY;
 
                     archVertices.push(outerArchPos.x, outerArchPos.y, outerArchPos.z);
                 }
@@ -661,7 +1300,7 @@ export class RoadGenerator {
 
                 // Calculate position along the edge
                 const edgePoint = point.clone().add(perp.clone().multiplyScalar(halfWidth * offsetMultiplier));
-                edgePoint.y = lineHeight;
+                edgePoint.y = point.y - this.roadY + lineHeight;
 
                 // Create two vertices for the width of the line (ribbon)
                 const halfLineWidth = lineWidth / 2;
@@ -686,14 +1325,7 @@ export class RoadGenerator {
             geometry.setIndex(new THREE.BufferAttribute(new Uint16Array(indices), 1));
             geometry.computeVertexNormals();
 
-            const material = new THREE.MeshStandardMaterial({
-                color: 0xFFFF00,
-                emissive: 0xFFFF00,
-                emissiveIntensity: 0.5,
-                side: THREE.DoubleSide
-            });
-
-            const mesh = new THREE.Mesh(geometry, material);
+            const mesh = new THREE.Mesh(geometry, this.sharedMaterials.edgeLineMaterial);
             mesh.castShadow = false;
             mesh.receiveShadow = false;
             return mesh;
@@ -709,30 +1341,36 @@ export class RoadGenerator {
     }
 
     /**
-     * Create lane dividers along a curve as continuous ribbons with repeating pattern
+     * Create lane dividers along a curve as continuous ribbons with repeating pattern.
+     * The centre line between opposing directions (at separatorOffset) is added even on
+     * single-lane roads, and is drawn as a solid line when solidSeparator is set.
      */
     private createLaneDividersAlongCurve(
         curve: THREE.CatmullRomCurve3,
         roadWidth: number,
         lanesCount: number,
         numSegments: number,
-        curveLength: number
+        curveLength: number,
+        separatorOffset: number | null = null,
+        solidSeparator: boolean = true
     ): void {
-        // Only create dividers for roads with 2+ lanes
-        if (lanesCount < 2) return;
-
         const dividerWidth = 0.1;
         const dividerHeight = 0.02;
         const laneWidth = roadWidth / lanesCount;
 
-        // Create pattern: dash length and gap length
-        const dashLength = 2.0;
-        const gapLength = 1.0;
-        const patternLength = dashLength + gapLength;
+        const patternLength = this.dashLength + this.gapLength;
 
-        // Create dividers between lanes (not at edges)
+        // Dividers between lanes (not at edges), plus the centre line if it isn't one of them
+        const dividerOffsets: number[] = [];
         for (let i = 1; i < lanesCount; i++) {
-            const offsetFromCenter = (i - lanesCount / 2) * laneWidth;
+            dividerOffsets.push((i - lanesCount / 2) * laneWidth);
+        }
+        if (separatorOffset !== null && !dividerOffsets.some(offset => Math.abs(offset - separatorOffset) < 0.01)) {
+            dividerOffsets.push(separatorOffset);
+        }
+
+        for (const offsetFromCenter of dividerOffsets) {
+            const isDirectionSeparator = separatorOffset !== null && Math.abs(offsetFromCenter - separatorOffset) < 0.01;
 
             // Create continuous ribbon geometry along the curve
             const vertices: number[] = [];
@@ -759,7 +1397,7 @@ export class RoadGenerator {
 
                 // Calculate position along divider line
                 const dividerPoint = point.clone().add(perp.clone().multiplyScalar(offsetFromCenter));
-                dividerPoint.y = dividerHeight;
+                dividerPoint.y = point.y - this.roadY + dividerHeight;
 
                 // Create two vertices for the width of the divider (ribbon)
                 const halfWidth = dividerWidth / 2;
@@ -787,33 +1425,20 @@ export class RoadGenerator {
                 indices.push(base + 2, base + 3, base + 1);
             }
 
-            // Create texture for dashed pattern (white -> transparent -> white -> transparent)
-            const canvas = document.createElement('canvas');
-            canvas.width = 256;
-            canvas.height = 32;
-            const context = canvas.getContext('2d')!;
-
-            const dashPixelLength = (dashLength / patternLength) * canvas.width;
-            const gapPixelLength = (gapLength / patternLength) * canvas.width;
-
-            // Clear entire canvas (transparent background)
-            context.clearRect(0, 0, canvas.width, canvas.height);
-
-            // Draw white dashes with alpha
-            let x = 0;
-            while (x < canvas.width) {
-                // White dash
-                context.fillStyle = '#FFFFFF';
-                context.fillRect(x, 0, dashPixelLength, canvas.height);
-                // Gap is transparent (already cleared)
-                x += dashPixelLength + gapPixelLength;
+            if (isDirectionSeparator && solidSeparator) {
+                // Solid line between opposing traffic uses the shared plain material
+                const separatorGeometry = new THREE.BufferGeometry();
+                separatorGeometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(vertices), 3));
+                separatorGeometry.setIndex(new THREE.BufferAttribute(new Uint16Array(indices), 1));
+                separatorGeometry.computeVertexNormals();
+
+                const separator = new THREE.Mesh(separatorGeometry, this.sharedMaterials.laneDividerMaterial);
+                separator.castShadow = false;
+                separator.receiveShadow = false;
+                this.roadGroup.add(separator);
+                continue;
             }
 
-            const patternTexture = new THREE.CanvasTexture(canvas);
-            patternTexture.wrapS = THREE.RepeatWrapping;
-            patternTexture.wrapT = THREE.ClampToEdgeWrapping;
-            patternTexture.needsUpdate = true;
-
             // Create geometry
             const geometry = new THREE.BufferGeometry();
             geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(vertices), 3));
@@ -821,22 +1446,8 @@ export class RoadGenerator {
             geometry.setIndex(new THREE.BufferAttribute(new Uint16Array(indices), 1));
             geometry.computeVertexNormals();
 
-            // Calculate how many pattern repeats along the curve
-            const patternRepeats = curveLength / patternLength;
-
-            // Create material with pattern texture
-            const material = new THREE.MeshStandardMaterial({
-                map: patternTexture,
-                emissive: 0xFFFFFF,
-                emissiveIntensity: 0.3,
-                transparent: true,
-                alphaTest: 0.01, // Low threshold for transparency
-                side: THREE.DoubleSide
-            });
-
             // Texture repeat is handled by UV coordinates and RepeatWrapping
-
-            const divider = new THREE.Mesh(geometry, material);
+            const divider = new THREE.Mesh(geometry, this.sharedMaterials.dashedLineMaterial);
             divider.castShadow = false;
             divider.receiveShadow = false;
             this.roadGroup.add(divider);
@@ -844,58 +1455,170 @@ export class RoadGenerator {
     }
 
     /**
-     * Get road width based on highway type and number of lanes
-     * Each lane must be at least car width (1.9m) + 20% = 2.28m, rounded to 2.5m for comfort
+     * Dash pattern shared by all dashed lane dividers (white dashes, transparent gaps). Built
+     * from pixel data rather than a canvas so roads can also be generated in a worker.
      */
-    private getRoadWidth(highwayType: string, lanesCount: number = 1): number {
-        // Car width is 1.9 units, so minimum lane width is 1.9 * 1.2 = 2.28
-        // We'll use 2.5 as a comfortable minimum lane width
-        const carWidth = 1.9;
-        const minLaneWidth = carWidth * 1.2; // At least car width + 20%
-        const comfortableLaneWidth = 2.5; // Comfortable lane width for navigation
+    private createDashTexture(): THREE.DataTexture {
+        const width = 256;
+        const dashPixels = Math.round(this.dashLength / (this.dashLength + this.gapLength) * width);
+        const pixels = new Uint8Array(width * 4);
+        for (let x = 0; x < dashPixels; x++) {
+            pixels.set([255, 255, 255, 255], x * 4);
+        }
 
-        // Minimum road widths per highway type (for single-lane roads)
-        const minWidths: Record<string, number> = {
-            'motorway': 5.2,
-            'trunk': 4.5,
-            'primary': 4.2,
-            'secondary': 3.9,
-            'tertiary': 3.75,
-            'residential': 3.6,
-            'service': 3.4,
-            'unclassified': 3.6
-        };
+        const texture = new THREE.DataTexture(pixels, width, 1);
+        texture.wrapS = THREE.RepeatWrapping;
+        texture.wrapT = THREE.ClampToEdgeWrapping;
+        texture.magFilter = THREE.LinearFilter;
+        texture.minFilter = THREE.LinearMipmapLinearFilter;
+        texture.generateMipmaps = true;
+        texture.needsUpdate = true;
+        return texture;
+    }
 
-        // Get minimum width for this highway type
-        let minRoadWidth = minWidths['residential']; // Default
-        for (const [type, width] of Object.entries(minWidths)) {
-            if (highwayType.toLowerCase().includes(type)) {
-                minRoadWidth = width;
-                break;
-            }
+    /**
+     * Number of lanes running in the way's coordinate direction on a two-way road,
+     * from lanes:forward / lanes:backward when tagged, otherwise half the lanes (rounded up)
+     */
+    private getForwardLanes(lanesTag?: string, forwardTag?: string, backwardTag?: string): number {
+        const lanes = lanesTag ? parseInt(lanesTag, 10) || 1 : 1;
+        const forward = forwardTag ? parseInt(forwardTag, 10) : NaN;
+        const backward = backwardTag ? parseInt(backwardTag, 10) : NaN;
+
+        if (!isNaN(forward)) return Math.max(0, Math.min(lanes, forward));
+        if (!isNaN(backward)) return Math.max(0, Math.min(lanes, lanes - backward));
+        return Math.ceil(lanes / 2);
+    }
+
+    /**
+     * Offset (meters, positive to the right of the way's direction) of the line separating
+     * the two directions of travel. Forward lanes sit on the driving side of the road.
+     */
+    private getDirectionSeparatorOffset(roadWidth: number, lanesCount: number, forwardLanes: number): number {
+        // Untagged or single-lane two-way roads are split down the middle
+        if (lanesCount < 2) return 0;
+        const laneWidth = roadWidth / lanesCount;
+        return this.drivingSide === 'right'
+            ? roadWidth / 2 - forwardLanes * laneWidth
+            : -roadWidth / 2 + forwardLanes * laneWidth;
+    }
+
+    /**
+     * Queue direction arrows along a one-way road, one per lane at regular intervals.
+     * Arrows point along the curve, or against it for oneway=-1 ways.
+     */
+    private addDirectionArrowsAlongCurve(
+        curve: THREE.CatmullRomCurve3,
+        roadWidth: number,
+        lanesCount: number,
+        curveLength: number,
+        reversed: boolean
+    ): void {
+        const arrowLength = 3;
+        const endClearance = 6; // meters kept clear at each end (junctions)
+        if (curveLength < arrowLength + 2) return;
+
+        // Arc-length positions along the road; short roads get a single arrow in the middle
+        const distances: number[] = [];
+        for (let d = endClearance; d <= curveLength - endClearance; d += this.arrowSpacing) {
+            distances.push(d);
         }
+        if (distances.length === 0) distances.push(curveLength / 2);
 
-        // Calculate lane width - use comfortable width for multi-lane roads, 
-        // but ensure minimum is respected
-        const laneWidth = Math.max(minLaneWidth, comfortableLaneWidth);
+        const laneWidth = roadWidth / lanesCount;
+        const position = new THREE.Vector3();
+        const rotation = new THREE.Quaternion();
+        const scale = new THREE.Vector3(1, 1, 1);
+        const up = new THREE.Vector3(0, 1, 0);
+
+        distances.forEach(distance => {
+            const u = distance / curveLength;
+            const point = curve.getPointAt(u);
+            const tangent = curve.getTangentAt(u);
+            const perp = new THREE.Vector3(-tangent.z, 0, tangent.x).normalize();
+            const direction = reversed ? -1 : 1;
+            rotation.setFromAxisAngle(up, Math.atan2(tangent.x * direction, tangent.z * direction));
+
+            for (let lane = 0; lane < lanesCount; lane++) {
+                const offsetFromCenter = (lane + 0.5 - lanesCount / 2) * laneWidth;
+                position.copy(point).add(perp.clone().multiplyScalar(offsetFromCenter));
+                position.y = point.y - this.roadY + 0.025; // Just above the road surface
+                this.arrowTransforms.push(new THREE.Matrix4().compose(position, rotation, scale));
+            }
+        });
+    }
 
-        // For single-lane roads, use the highway-specific minimum width
-        // For multi-lane roads, use lane width * number of lanes
-        if (lanesCount === 1) {
-            return Math.max(minRoadWidth, laneWidth);
-        } else {
-            return lanesCount * laneWidth;
+    /**
+     * Queue arrows around a roundabout's circulating carriageway, pointing in its direction of circulation
+     */
+    private addRoundaboutArrows(roundabout: Roundabout): void {
+        const count = Math.max(3, Math.round(2 * Math.PI * roundabout.laneRadius / 15));
+        const scale = new THREE.Vector3(1, 1, 1);
+        const rotation = new THREE.Quaternion();
+        const up = new THREE.Vector3(0, 1, 0);
+
+        for (let i = 0; i < count; i++) {
+            const angle = (i / count) * Math.PI * 2;
+            // Increasing atan2(z, x) turns clockwise on the map (x east, z south)
+            const sign = roundabout.circulation === 'clockwise' ? 1 : -1;
+            const tangent = { x: -Math.sin(angle) * sign, z: Math.cos(angle) * sign };
+            const x = roundabout.center.x + Math.cos(angle) * roundabout.laneRadius;
+            const z = roundabout.center.z + Math.sin(angle) * roundabout.laneRadius;
+            const position = new THREE.Vector3(x, this.getGroundHeight(x, z) + 0.025, z);
+            rotation.setFromAxisAngle(up, Math.atan2(tangent.x, tangent.z));
+            this.arrowTransforms.push(new THREE.Matrix4().compose(position, rotation, scale));
         }
     }
 
+    /**
+     * Build one instanced mesh for all queued one-way arrows
+     */
+    private createDirectionArrows(): void {
+        if (this.arrowTransforms.length === 0) return;
+
+        // Arrow outline in the XY plane, tip towards -Y so it points along +Z once laid flat
+        const shape = new THREE.Shape();
+        shape.moveTo(-0.12, 1.5);
+        shape.lineTo(0.12, 1.5);
+        shape.lineTo(0.12, -0.4);
+        shape.lineTo(0.45, -0.4);
+        shape.lineTo(0, -1.5);
+        shape.lineTo(-0.45, -0.4);
+        shape.lineTo(-0.12, -0.4);
+        shape.closePath();
+
+        const geometry = new THREE.ShapeGeometry(shape);
+        geometry.rotateX(-Math.PI / 2);
+
+        const arrows = new THREE.InstancedMesh(geometry, this.sharedMaterials.arrowMaterial, this.arrowTransforms.length);
+        this.arrowTransforms.forEach((matrix, index) => arrows.setMatrixAt(index, matrix));
+        arrows.instanceMatrix.needsUpdate = true;
+        arrows.receiveShadow = true;
+        this.roadGroup.add(arrows);
+
+        console.log(`Painted ${this.arrowTransforms.length} one-way arrows`);
+        this.arrowTransforms = [];
+    }
+
+    /**
+     * Set which side of the road traffic keeps to (affects lane markings of roads generated afterwards)
+     */
+    setDrivingSide(side: DrivingSide): void {
+        this.drivingSide = side;
+    }
+
+    getDrivingSide(): DrivingSide {
+        return this.drivingSide;
+    }
+
     /**
      * Create a street name label as a sprite
      */
-    private createStreetLabel(position: { x: number; z: number; }, rotation: number, name: string): void {
+    private createStreetLabel({ x, z, rotation, name, elevation }: StreetLabel): THREE.Sprite | null {
         // Create canvas for text
         const canvas = document.createElement('canvas');
         const context = canvas.getContext('2d');
-        if (!context) return;
+        if (!context) return null;
 
         // Set canvas size
         canvas.width = 192;
@@ -939,12 +1662,13 @@ export class RoadGenerator {
         sprite.scale.set(scale * (textWidth / fontSize), scale, 1);
 
         // Position sprite above the road
-        sprite.position.set(position.x, 6, position.z); // 3 units above ground
+        sprite.position.set(x, 6 + elevation, z); // 3 units above ground
 
         // Rotate sprite to face the road direction (sprite already faces camera, so just rotate Y)
         sprite.rotation.y = rotation;
 
         this.labelsGroup.add(sprite);
+        return sprite;
     }
 
     getRoads(): THREE.Mesh[] {
@@ -0,0 +1,293 @@
+import * as THREE from 'three';
+import type { RoadPoint } from '@/types';
+
+export type RoofShape = 'flat' | 'gabled' | 'hipped' | 'dome';
+
+/**
+ * The smallest rectangle around a footprint: its centre, the unit directions of its long
+ * (`along`) and short (`across`) sides, and its half extents along them
+ */
+export interface FootprintFrame {
+    center: RoadPoint;
+    along: RoadPoint;
+    across: RoadPoint;
+    halfLength: number;
+    halfWidth: number;
+}
+
+/**
+ * Builds pitched and domed roofs over building footprints. Gabled and hipped roofs are
+ * laid over the footprint's smallest bounding rectangle, with the ridge along its long
+ * side; the footprint is cut into the roof's planes, so any outline (L-shapes and all)
+ * gets a closed roof, and gable ends are walled up to the roof line.
+ * Geometry is returned in local coordinates with the eaves at `base`.
+ */
+export class RoofGenerator {
+    /**
+     * Smallest-area rectangle around a footprint, trying the direction of each of its edges
+     */
+    getFrame(ring: RoadPoint[]): FootprintFrame {
+        let best: FootprintFrame | null = null;
+        let bestArea = Infinity;
+
+        for (let i = 0; i < ring.length; i++) {
+            const a = ring[i];
+            const b = ring[(i + 1) % ring.length];
+            const length = Math.hypot(b.x - a.x, b.z - a.z);
+            if (length < 1e-6) continue;
+            const ux = (b.x - a.x) / length;
+            const uz = (b.z - a.z) / length;
+
+            let minS = Infinity, maxS = -Infinity, minT = Infinity, maxT = -Infinity;
+            ring.forEach(point => {
+                const s = point.x * ux + point.z * uz;
+                const t = -point.x * uz + point.z * ux;
+                minS = Math.min(minS, s);
+                maxS = Math.max(maxS, s);
+                minT = Math.min(minT, t);
+                maxT = Math.max(maxT, t);
+            });
+
+            const area = (maxS - minS) * (maxT - minT);
+            if (area >= bestArea) continue;
+            bestArea = area;
+
+            const s = (minS + maxS) / 2;
+            const t = (minT + maxT) / 2;
+            const center = { x: s * ux - t * uz, z: s * uz + t * ux };
+            const halfS = (maxS - minS) / 2;
+            const halfT = (maxT - minT) / 2;
+            best = halfS >= halfT
+                ? { center, along: { x: ux, z: uz }, across: { x: -uz, z: ux }, halfLength: halfS, halfWidth: halfT }
+                : { center, along: { x: -uz, z: ux }, across: { x: -ux, z: -uz }, halfLength: halfT, halfWidth: halfS };
+        }
+
+        return best ?? { center: { ...ring[0] }, along: { x: 1, z: 0 }, across: { x: 0, z: 1 }, halfLength: 0, halfWidth: 0 };
+    }
+
+    /**
+     * Sloping roof faces over a footprint (outer ring, not closed) and the gable walls
+     * between the eaves and the roof line; null for flat roofs
+     */
+    createRoof(
+        ring: RoadPoint[],
+        shape: RoofShape,
+        base: number,
+        height: number
+    ): { roof: THREE.BufferGeometry; walls: THREE.BufferGeometry | null; } | null {
+        if (shape === 'flat' || ring.length < 3 || height <= 0) return null;
+
+        const frame = this.getFrame(ring);
+        if (frame.halfWidth < 0.5) return null;
+
+        if (shape === 'dome') {
+            const radius = Math.min(frame.halfWidth, frame.halfLength);
+            return { roof: this.createDome(frame.center, radius, base, height), walls: null };
+        }
+
+        const toFrame = (point: RoadPoint): RoadPoint => {
+            const dx = point.x - frame.center.x;
+            const dz = point.z - frame.center.z;
+            return { x: dx * frame.along.x + dz * frame.along.z, z: dx * frame.across.x + dz * frame.across.z };
+        };
+        const toLocal = (point: RoadPoint): RoadPoint => ({
+            x: frame.center.x + point.x * frame.along.x + point.z * frame.across.x,
+            z: frame.center.z + point.x * frame.along.z + point.z * frame.across.z
+        });
+
+        // Roof height over a point in frame coordinates (x along the ridge, z across it)
+        const { halfLength: L, halfWidth: W } = frame;
+        const roofHeight = shape === 'gabled'
+            ? (point: RoadPoint) => Math.max(0, height * (1 - Math.abs(point.z) / W))
+            : (point: RoadPoint) => Math.max(0, height / W * Math.min(W - Math.abs(point.z), L - Math.abs(point.x)));
+
+        const footprint = ring.map(toFrame);
+        const regions = this.getRoofRegions(shape, L, W);
+
+        // Each region of the roof is a plane: cut the footprint to it and lift it to the roof
+        const roofPositions: number[] = [];
+        regions.forEach(region => {
+            const piece = this.clipPolygon(footprint, region);
+            if (piece.length < 3) return;
+            const contour = piece.map(point => new THREE.Vector2(point.x, point.z));
+            THREE.ShapeUtils.triangulateShape(contour, []).forEach(triangle => {
+                const corners = triangle.map(index => {
+                    const local = toLocal(piece[index]);
+                    return new THREE.Vector3(local.x, base + roofHeight(piece[index]), local.z);
+                });
+                // Faces point up
+                const normal = new THREE.Vector3().subVectors(corners[1], corners[0]).cross(new THREE.Vector3().subVectors(corners[2], corners[0]));
+                if (normal.y < 0) corners.reverse();
+                corners.forEach(corner => roofPositions.push(corner.x, corner.y, corner.z));
+            });
+        });
+        if (roofPositions.length === 0) return null;
+
+        // Wall up each footprint edge from the eaves to the roof line, split where the roof creases
+        const wallPositions: number[] = [];
+        const creases = this.getCreaseLines(L, W);
+        const counterClockwise = footprint.reduce((sum, point, i) => {
+            const next = footprint[(i + 1) % footprint.length];
+            return sum + point.x * next.z - next.x * point.z;
+        }, 0) > 0;
+        footprint.forEach((a, index) => {
+            const b = footprint[(index + 1) % footprint.length];
+            const cuts = [0, 1];
+            creases.forEach(([p, q]) => {
+                const t = this.intersectLine(a, b, p, q);
+                if (t !== null) cuts.push(t);
+            });
+            cuts.sort((x, y) => x - y);
+
+            for (let i = 0; i < cuts.length - 1; i++) {
+                if (cuts[i + 1] - cuts[i] < 1e-6) continue;
+                const start = { x: a.x + (b.x - a.x) * cuts[i], z: a.z + (b.z - a.z) * cuts[i] };
+                const end = { x: a.x + (b.x - a.x) * cuts[i + 1], z: a.z + (b.z - a.z) * cuts[i + 1] };
+                const startHeight = roofHeight(start);
+                const endHeight = roofHeight(end);
+                if (startHeight < 0.01 && endHeight < 0.01) continue;
+
+                // Wind the wall to face out of the footprint
+                const s = toLocal(counterClockwise ? end : start);
+                const e = toLocal(counterClockwise ? start : end);
+                const sHeight = counterClockwise ? endHeight : startHeight;
+                const eHeight = counterClockwise ? startHeight : endHeight;
+                // A quad, or just a triangle where the roof comes down to the eaves
+                if (eHeight >= 0.01) wallPositions.push(s.x, base, s.z, e.x, base, e.z, e.x, base + eHeight, e.z);
+                if (sHeight >= 0.01) wallPositions.push(s.x, base, s.z, e.x, base + eHeight, e.z, s.x, base + sHeight, s.z);
+            }
+        });
+
+        return {
+            roof: this.toGeometry(roofPositions),
+            walls: wallPositions.length > 0 ? this.toGeometry(wallPositions) : null
+        };
+    }
+
+    /**
+     * Hemispherical dome (stretched to `height`) standing on `base`
+     */
+    createDome(center: RoadPoint, radius: number, base: number, height: number): THREE.BufferGeometry {
+        const dome = new THREE.SphereGeometry(1, 16, 8, 0, Math.PI * 2, 0, Math.PI / 2);
+        dome.scale(radius, height, radius);
+        dome.translate(center.x, base, center.z);
+        const geometry = dome.toNonIndexed();
+        dome.dispose();
+        return geometry;
+    }
+
+    /**
+     * Open cylinder (a dome's drum or a tower) standing on `base`
+     */
+    createDrum(center: RoadPoint, radius: number, base: number, height: number): THREE.BufferGeometry {
+        const drum = new THREE.CylinderGeometry(radius, radius, height, 16, 1, true);
+        drum.translate(center.x, base + height / 2, center.z);
+        const geometry = drum.toNonIndexed();
+        drum.dispose();
+        return geometry;
+    }
+
+    /**
+     * Areas of a roof's planes in frame coordinates, reaching past the footprint's rectangle
+     */
+    private getRoofRegions(shape: 'gabled' | 'hipped', L: number, W: number): RoadPoint[][] {
+        const m = 1; // Margin past the rectangle
+        if (shape === 'gabled') {
+            return [
+                [{ x: -L - m, z: 0 }, { x: L + m, z: 0 }, { x: L + m, z: W + m }, { x: -L - m, z: W + m }],
+                [{ x: -L - m, z: -W - m }, { x: L + m, z: -W - m }, { x: L + m, z: 0 }, { x: -L - m, z: 0 }]
+            ];
+        }
+
+        // Hipped: two sloping sides meeting at the ridge, and a sloping end under each hip
+        const ridge = L - W;
+        return [
+            [{ x: -ridge, z: 0 }, { x: ridge, z: 0 }, { x: L + m, z: W + m }, { x: -L - m, z: W + m }],
+            [{ x: -L - m, z: -W - m }, { x: L + m, z: -W - m }, { x: ridge, z: 0 }, { x: -ridge, z: 0 }],
+            [{ x: ridge, z: 0 }, { x: L + m, z: -W - m }, { x: L + m, z: W + m }],
+            [{ x: -ridge, z: 0 }, { x: -L - m, z: W + m }, { x: -L - m, z: -W - m }]
+        ];
+    }
+
+    /**
+     * Lines (as two points in frame coordinates) along which a roof may change slope: the
+     * ridge and the hips
+     */
+    private getCreaseLines(L: number, W: number): Array<[RoadPoint, RoadPoint]> {
+        const ridge = L - W;
+        return [
+            [{ x: -1, z: 0 }, { x: 1, z: 0 }],
+            [{ x: ridge, z: 0 }, { x: L, z: W }],
+            [{ x: ridge, z: 0 }, { x: L, z: -W }],
+            [{ x: -ridge, z: 0 }, { x: -L, z: W }],
+            [{ x: -ridge, z: 0 }, { x: -L, z: -W }]
+        ];
+    }
+
+    /**
+     * Where along a segment (0-1) it crosses an infinite line; null when it doesn't
+     */
+    private intersectLine(a: RoadPoint, b: RoadPoint, p: RoadPoint, q: RoadPoint): number | null {
+        const dx = b.x - a.x;
+        const dz = b.z - a.z;
+        const lx = q.x - p.x;
+        const lz = q.z - p.z;
+        const denominator = dx * lz - dz * lx;
+        if (Math.abs(denominator) < 1e-9) return null;
+        const t = ((p.x - a.x) * lz - (p.z - a.z) * lx) / denominator;
+        return t > 0 && t < 1 ? t : null;
+    }
+
+    /**
+     * Sutherland-Hodgman: the part of a polygon inside a convex region
+     */
+    private clipPolygon(polygon: RoadPoint[], region: RoadPoint[]): RoadPoint[] {
+        // Orient the region counter-clockwise, so inside is to the left of its edges
+        const area = region.reduce((sum, point, i) => {
+            const next = region[(i + 1) % region.length];
+            return sum + point.x * next.z - next.x * point.z;
+        }, 0);
+        const clip = area < 0 ? [...region].reverse() : region;
+
+        let output = polygon;
+        for (let i = 0; i < clip.length && output.length > 0; i++) {
+            const p = clip[i];
+            const q = clip[(i + 1) % clip.length];
+            const side = (point: RoadPoint) => (q.x - p.x) * (point.z - p.z) - (q.z - p.z) * (point.x - p.x);
+
+            const input = output;
+            output = [];
+            input.forEach((current, index) => {
+                const previous = input[(index + input.length - 1) % input.length];
+                const currentSide = side(current);
+                const previousSide = side(previous);
+                if (currentSide >= 0) {
+                    if (previousSide < 0) output.push(this.lerpPoint(previous, current, previousSide / (previousSide - currentSide)));
+                    output.push(current);
+                } else if (previousSide >= 0) {
+                    output.push(this.lerpPoint(previous, current, previousSide / (previousSide - currentSide)));
+                }
+            });
+        }
+        return output;
+    }
+
+    private lerpPoint(a: RoadPoint, b: RoadPoint, t: number): RoadPoint {
+        return { x: a.x + (b.x - a.x) * t, z: a.z + (b.z - a.z) * t };
+    }
+
+    /**
+     * Non-indexed geometry from triangle positions, with flat normals and planar UVs
+     */
+    private toGeometry(positions: number[]): THREE.BufferGeometry {
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+        const uvs: number[] = [];
+        for (let i = 0; i < positions.length; i += 3) {
+            uvs.push(positions[i], positions[i + 2]);
+        }
+        geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+        geometry.computeVertexNormals();
+        return geometry;
+    }
+}
@@ -0,0 +1,72 @@
+import * as THREE from 'three';
+import type { Roundabout } from '../network/RoundaboutLayout';
+import type { RoadPoint } from '@/types';
+
+export interface RoundaboutMaterials {
+    grass: THREE.Material;
+    kerb: THREE.Material;
+    marking: THREE.Material;
+}
+
+/**
+ * Builds roundabout furniture on top of the circulating road strips: a raised, grassed
+ * central island with a kerb, and a solid line along the inside of the carriageway.
+ * Roundabouts too small for an island get a painted centre disc instead.
+ */
+export class RoundaboutGenerator {
+    private readonly islandHeight = 0.15; // meters above the road
+    private readonly markingY = 0.018;
+    private readonly lineWidth = 0.15;
+    private readonly lineInset = 0.3; // meters from the inner edge of the carriageway
+    private readonly paintedCentreRadius = 1.0; // meters, for mini roundabouts
+
+    constructor(private materials: RoundaboutMaterials) { }
+
+    /**
+     * Create the meshes for all roundabouts, each level at the ground height of its centre
+     */
+    createMeshes(roundabouts: Roundabout[], groundHeight: (point: RoadPoint) => number = () => 0): THREE.Mesh[] {
+        const meshes: THREE.Mesh[] = [];
+
+        roundabouts.forEach(roundabout => {
+            const { center } = roundabout;
+            const ground = groundHeight(center);
+            const segments = Math.max(24, Math.ceil(roundabout.laneRadius * 4));
+
+            if (roundabout.islandRadius > 0) {
+                // Grassed top, raised to kerb height
+                const top = new THREE.Mesh(new THREE.CircleGeometry(roundabout.islandRadius, segments), this.materials.grass);
+                top.rotation.x = -Math.PI / 2;
+                top.position.set(center.x, ground + this.islandHeight, center.z);
+                top.receiveShadow = true;
+                meshes.push(top);
+
+                // Kerb around the island
+                const kerbGeometry = new THREE.CylinderGeometry(roundabout.islandRadius, roundabout.islandRadius, this.islandHeight, segments, 1, true);
+                const kerb = new THREE.Mesh(kerbGeometry, this.materials.kerb);
+                kerb.position.set(center.x, ground + this.islandHeight / 2, center.z);
+                kerb.castShadow = true;
+                kerb.receiveShadow = true;
+                meshes.push(kerb);
+            } else {
+                const disc = new THREE.Mesh(new THREE.CircleGeometry(this.paintedCentreRadius, 24), this.materials.marking);
+                disc.rotation.x = -Math.PI / 2;
+                disc.position.set(center.x, ground + this.markingY, center.z);
+                meshes.push(disc);
+            }
+
+            // Solid line along the inside of the circulating carriageway
+            const lineRadius = Math.max(roundabout.innerRadius + this.lineInset, this.paintedCentreRadius + this.lineWidth);
+            const ringGeometry = new THREE.RingGeometry(lineRadius - this.lineWidth / 2, lineRadius + this.lineWidth / 2, segments);
+            const ring = new THREE.Mesh(ringGeometry, this.materials.marking);
+            ring.rotation.x = -Math.PI / 2;
+            ring.position.set(center.x, ground + this.markingY, center.z);
+            meshes.push(ring);
+        });
+
+        if (roundabouts.length > 0) {
+            console.log(`Generated ${roundabouts.length} roundabouts`);
+        }
+        return meshes;
+    }
+}
@@ -0,0 +1,160 @@
+import * as THREE from 'three';
+import type { RoadHeightProvider, RoadPoint } from '@/types';
+
+/**
+ * Draws the active navigation route as a ribbon laid over the road surface,
+ * with a marker at the destination. The ribbon follows the surface height over
+ * terrain and up onto bridge decks.
+ */
+export class RouteRenderer {
+    private routeGroup: THREE.Group;
+    private ribbon: THREE.Mesh | null = null;
+    private marker: THREE.Group | null = null;
+
+    private readonly ribbonWidth = 1.4;
+    private readonly ribbonY = 0.03; // Just above road surface and markings
+    private readonly surfaceSampleSpacing = 5; // meters between ribbon vertices on long segments
+
+    private sharedMaterials = {
+        ribbonMaterial: new THREE.MeshBasicMaterial({
+            color: 0x2b8cff,
+            transparent: true,
+            opacity: 0.75,
+            depthWrite: false,
+            side: THREE.DoubleSide,
+            polygonOffset: true,
+            polygonOffsetFactor: -2
+        }),
+        markerMaterial: new THREE.MeshStandardMaterial({
+            color: 0xff3355,
+            emissive: 0xff3355,
+            emissiveIntensity: 0.4
+        })
+    };
+
+    constructor(private scene: THREE.Scene, private surfaceHeight: RoadHeightProvider = () => 0) {
+        this.routeGroup = new THREE.Group();
+        // Mark group so it's not removed during scene clearing
+        this.routeGroup.userData.isRouteGroup = true;
+        this.scene.add(this.routeGroup);
+    }
+
+    /**
+     * Replace the displayed route (pass null to hide it)
+     */
+    setRoute(points: RoadPoint[] | null): void {
+        this.clear();
+        if (!points || points.length < 2) return;
+
+        this.ribbon = this.createRibbon(points);
+        if (this.ribbon) {
+            this.routeGroup.add(this.ribbon);
+        }
+
+        const destination = points[points.length - 1];
+        this.marker = this.createMarker(destination, this.ribbon ? this.ribbon.userData.endHeight : 0);
+        this.routeGroup.add(this.marker);
+    }
+
+    /**
+     * Build a flat ribbon following the polyline, with mitred joins
+     */
+    private createRibbon(route: RoadPoint[]): THREE.Mesh | null {
+        const points = this.densify(route);
+        const halfWidth = this.ribbonWidth / 2;
+        let height = this.surfaceHeight(points[0], 0);
+        const vertices: number[] = [];
+        const indices: number[] = [];
+
+        for (let i = 0; i < points.length; i++) {
+            const prev = points[Math.max(0, i - 1)];
+            const next = points[Math.min(points.length - 1, i + 1)];
+            const dx = next.x - prev.x;
+            const dz = next.z - prev.z;
+            const length = Math.hypot(dx, dz) || 1;
+            // Perpendicular (right-hand side) of the averaged direction
+            const px = -dz / length;
+            const pz = dx / length;
+
+            // Track the level of the previous point so the ribbon climbs ramps and stays on decks
+            height = this.surfaceHeight(points[i], height);
+            const y = height + this.ribbonY;
+            vertices.push(points[i].x + px * halfWidth, y, points[i].z + pz * halfWidth);
+            vertices.push(points[i].x - px * halfWidth, y, points[i].z - pz * halfWidth);
+        }
+
+        for (let i = 0; i < points.length - 1; i++) {
+            const base = i * 2;
+            indices.push(base, base + 2, base + 1);
+            indices.push(base + 2, base + 3, base + 1);
+        }
+
+        if (indices.length < 3) return null;
+
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(vertices), 3));
+        geometry.setIndex(new THREE.BufferAttribute(new Uint32Array(indices), 1));
+        geometry.computeVertexNormals();
+
+        const mesh = new THREE.Mesh(geometry, this.sharedMaterials.ribbonMaterial);
+        mesh.renderOrder = 1;
+        mesh.userData.endHeight = height;
+        return mesh;
+    }
+
+    /**
+     * Add intermediate points along long segments so the ribbon can follow the surface
+     */
+    private densify(points: RoadPoint[]): RoadPoint[] {
+        const result: RoadPoint[] = [points[0]];
+        for (let i = 1; i < points.length; i++) {
+            const from = points[i - 1];
+            const to = points[i];
+            const steps = Math.ceil(Math.hypot(to.x - from.x, to.z - from.z) / this.surfaceSampleSpacing);
+            for (let step = 1; step < steps; step++) {
+                const t = step / steps;
+                result.push({ x: from.x + (to.x - from.x) * t, z: from.z + (to.z - from.z) * t });
+            }
+            result.push(to);
+        }
+        return result;
+    }
+
+    /**
+     * Create a simple pin marking the destination
+     */
+    private createMarker(position: RoadPoint, height: number): THREE.Group {
+        const marker = new THREE.Group();
+
+        const pole = new THREE.Mesh(new THREE.CylinderGeometry(0.08, 0.08, 4, 8), this.sharedMaterials.markerMaterial);
+        pole.position.y = 2;
+        marker.add(pole);
+
+        const head = new THREE.Mesh(new THREE.SphereGeometry(0.6, 16, 12), this.sharedMaterials.markerMaterial);
+        head.position.y = 4.4;
+        marker.add(head);
+
+        marker.position.set(position.x, height, position.z);
+        return marker;
+    }
+
+    /**
+     * Remove the displayed route and dispose its geometry
+     */
+    clear(): void {
+        if (this.ribbon) {
+            this.ribbon.geometry.dispose();
+            this.routeGroup.remove(this.ribbon);
+            this.ribbon = null;
+        }
+        if (this.marker) {
+            this.marker.traverse(object => {
+                if (object instanceof THREE.Mesh) {
+                    object.geometry.dispose();
+                }
+            });
+            this.routeGroup.remove(this.marker);
+            this.marker = null;
+        }
+    }
+}
@@ -1,28 +1,100 @@
 import * as THREE from 'three';
 import { RoadGenerator } from './RoadGenerator';
+import type { PreparedRoadLayout } from './RoadGenerator';
 import { TreeGenerator } from './TreeGenerator';
 import { BuildingGenerator } from './BuildingGenerator';
-import type { GeoJSON } from '@/types';
+import { LandCoverGenerator } from './LandCoverGenerator';
+import { CityGeometryBuilder } from './CityGeometryBuilder';
+import type { TileGeometry } from './CityTileGenerator';
+import { TileGrid } from './TileGrid';
+import { TileStreamer } from './TileStreamer';
+import { SpeedLimitSignGenerator } from './SpeedLimitSignGenerator';
+import { TrafficControlGenerator } from './TrafficControlGenerator';
+import { MeshBatcher } from './MeshBatcher';
+import { RoadNetwork } from '../network/RoadNetwork';
+import { RoadDimensions } from '../network/RoadDimensions';
+import { TrafficControlLayout } from '../network/TrafficControlLayout';
+import type { TrafficControl } from '../network/TrafficControlLayout';
+import { TrafficSignalController } from '../rules/TrafficSignalController';
+import { SpeedLimits } from '../rules/SpeedLimits';
+import { CollisionSystem } from '../collision/CollisionSystem';
+import { Heightmap } from '../terrain/Heightmap';
+import type { GeoJSON, GeoJSONFeature, DrivingSide, FeatureLayer, LoadProgressCallback, PickedFeature, RoadPoint, RoundaboutInfo } from '@/types';
 import { CityManager } from '@/utils/cityManager';
+import type { CityConfig } from '@/utils/cityManager';
+import { CityDataLoader } from '@/utils/CityDataLoader';
+import { CityDataCache } from '@/utils/CityDataCache';
 
 export class SceneManager {
     private roadGenerator: RoadGenerator;
     private treeGenerator: TreeGenerator;
     private buildingGenerator: BuildingGenerator;
+    private landCoverGenerator: LandCoverGenerator;
+    private geometryBuilder: CityGeometryBuilder;
+    private tileGrid = new TileGrid(250);
+    private tileStreamer: TileStreamer<TileGeometry>;
+    private treeTiles = new Map<string, GeoJSONFeature[]>(); // Tree features by the tile they stand in
+    private speedLimitSignGenerator: SpeedLimitSignGenerator;
+    private trafficControlGenerator: TrafficControlGenerator;
+    private trafficControls: TrafficControl[] = [];
+    private trafficSignals: TrafficSignalController | null = null;
     private startPosition: THREE.Vector3;
     private centerLat: number = 0;
     private centerLon: number = 0;
     private currentCity: string = '';
-    private groundMesh: THREE.Mesh | null = null;
+    private groundMeshes: THREE.Mesh[] = [];
+    private terrain: Heightmap | null = null;
+    private readonly maxTerrainSegments = 256; // Per side of the terrain mesh
+    private roadNetwork: RoadNetwork | null = null;
+    private collisionSystem: CollisionSystem;
+    private drivingSide: DrivingSide = 'right';
+    private countryCode: string = '';
+    private readonly carHeight = 0.41; // Height of the car's centre above the road surface
+    private highlighted: PickedFeature | null = null;
+    private highlightMeshes: THREE.Mesh[] = [];
+    private readonly highlightMaterial = new THREE.MeshBasicMaterial({
+        color: 0xFFD54F,
+        transparent: true,
+        opacity: 0.5,
+        depthWrite: false,
+        polygonOffset: true, // Drawn over the feature's own faces
+        polygonOffsetFactor: -2,
+        polygonOffsetUnits: -2
+    });
+
+    // Share of a city load taken by each layer's data (download and parsing), by laying out
+    // the roads and by building the tiles around the start
+    private readonly loadShares: Record<FeatureLayer | 'layout' | 'tiles', number> = {
+        roads: 0.3,
+        trees: 0.1,
+        buildings: 0.15,
+        layout: 0.15,
+        tiles: 0.3
+    };
 
     constructor(private scene: THREE.Scene) {
         this.roadGenerator = new RoadGenerator(scene);
         this.treeGenerator = new TreeGenerator(scene);
         this.buildingGenerator = new BuildingGenerator(scene);
-        this.startPosition = new THREE.Vector3(0, 0.41, 0);
+        this.landCoverGenerator = new LandCoverGenerator(scene);
+        this.geometryBuilder = new CityGeometryBuilder();
+        this.tileStreamer = new TileStreamer(
+            this.tileGrid,
+            key => this.geometryBuilder.buildTile(key),
+            (key, tile) => this.addTile(key, tile),
+            key => this.removeTile(key)
+        );
+        this.speedLimitSignGenerator = new SpeedLimitSignGenerator(scene);
+        this.trafficControlGenerator = new TrafficControlGenerator(scene);
+        this.collisionSystem = new CollisionSystem();
+        this.startPosition = new THREE.Vector3(0, this.carHeight, 0);
     }
 
-    async loadCityMap(city: string, savedPosition?: { lat: number; lon: number; y?: number; }): Promise<void> {
+    async loadCityMap(
+        city: string,
+        savedPosition?: { lat: number; lon: number; y?: number; },
+        onProgress: LoadProgressCallback = () => { }
+    ): Promise<void> {
         try {
             const cityConfig = CityManager.getCityConfig(city);
             if (!cityConfig) {
@@ -32,49 +104,110 @@ export class SceneManager {
             this.currentCity = city;
             this.centerLat = cityConfig.centerLat;
             this.centerLon = cityConfig.centerLon;
+            this.drivingSide = cityConfig.drivingSide;
+            this.countryCode = cityConfig.countryCode;
+            SpeedLimits.setCityZoneLimits(cityConfig.countryCode, cityConfig.speedLimits);
+
+            // Progress runs through each layer's data, the road layout and then the tiles, in load order
+            let completed = 0; // Share of the load finished so far
+            const loadData = async (layer: FeatureLayer): Promise<GeoJSON | null> => {
+                const share = this.loadShares[layer];
+                const data = await CityDataLoader.loadLayer(city, cityConfig, layer, ({ fraction, ...progress }) => {
+                    onProgress({ ...progress, layer, fraction: completed + share * fraction });
+                });
+                completed += share;
+                return data;
+            };
+            const startBuilding = async (stage: 'roads' | 'tiles'): Promise<void> => {
+                onProgress({ stage, fraction: completed });
+                await this.nextFrame();
+            };
 
             // Load city GeoJSON data
-            const response = await fetch(`/data/roads/${cityConfig.file}`);
-            if (!response.ok) {
-                throw new Error(`Failed to load ${cityConfig.file}: ${response.status}`);
+            const geoJSON = await loadData('roads');
+            if (!geoJSON) {
+                throw new Error(`No road data found for ${cityConfig.name}`);
             }
 
-            const geoJSON: GeoJSON = await response.json();
-
             // Clear existing scene (except lights)
             this.clearScene();
 
-            // Create ground plane
+            // Load the optional elevation grid; cities without one stay flat
+            this.terrain = cityConfig.layers.includes('elevation')
+                ? await this.loadTerrain(city, cityConfig.file, cityConfig.name)
+                : null;
+
+            // Create ground plane (and the terrain surface over the elevation grid)
             this.createGround();
 
-            // Generate roads from GeoJSON
-            this.roadGenerator.generateRoadsFromGeoJSON(geoJSON, this.centerLat, this.centerLon);
-
-            // Load and generate trees
-            try {
-                const treeResponse = await fetch(`/data/trees/${cityConfig.file}`);
-                if (treeResponse.ok) {
-                    const treeGeoJSON: GeoJSON = await treeResponse.json();
-                    this.treeGenerator.generateTreesFromGeoJSON(treeGeoJSON, this.centerLat, this.centerLon);
-                } else {
-                    console.log(`No tree data found for ${cityConfig.name}`);
+            // Build the road network graph (connectivity between ways)
+            this.roadNetwork = RoadNetwork.fromGeoJSON(geoJSON, this.centerLat, this.centerLon);
+
+            // Post speed limit signs where roads start and where their limit changes
+            this.speedLimitSignGenerator.generateSigns(this.roadNetwork, this.drivingSide, this.countryCode, this.terrain);
+
+            // Place traffic signals, stop and give-way signs from the control nodes in the road data
+            this.trafficControls = TrafficControlLayout.fromGeoJSON(geoJSON, this.roadNetwork, this.centerLat, this.centerLon);
+            this.trafficSignals = new TrafficSignalController(this.trafficControls);
+            this.trafficControlGenerator.generateControls(this.trafficControls, this.drivingSide, this.terrain);
+            this.trafficControlGenerator.updateSignals(this.trafficSignals);
+
+            // Load trees; they are planted tile by tile, but collide everywhere
+            if (cityConfig.layers.includes('trees')) {
+                try {
+                    const treeGeoJSON = await loadData('trees');
+                    if (treeGeoJSON) {
+                        this.sortTreesIntoTiles(treeGeoJSON);
+                        this.collisionSystem.addTreesFromGeoJSON(treeGeoJSON, this.centerLat, this.centerLon);
+                    } else {
+                        console.log(`No tree data found for ${cityConfig.name}`);
+                    }
+                } catch (error) {
+                    console.warn(`Failed to load tree data for ${city}:`, error);
                 }
-            } catch (error) {
-                console.warn(`Failed to load tree data for ${city}:`, error);
             }
 
-            // Load and generate buildings
-            try {
-                const buildingResponse = await fetch(`/data/buildings/${cityConfig.file}`);
-                if (buildingResponse.ok) {
-                    const buildingGeoJSON: GeoJSON = await buildingResponse.json();
-                    this.buildingGenerator.generateBuildingsFromGeoJSON(buildingGeoJSON, this.centerLat, this.centerLon);
-                } else {
-                    console.log(`No building data found for ${cityConfig.name}`);
+            // Load buildings; like trees, their meshes come with the tiles
+            let buildingGeoJSON: GeoJSON | null = null;
+            if (cityConfig.layers.includes('buildings')) {
+                try {
+                    buildingGeoJSON = await loadData('buildings');
+                    if (buildingGeoJSON) {
+                        this.collisionSystem.addBuildingsFromGeoJSON(buildingGeoJSON, this.centerLat, this.centerLon);
+                    } else {
+                        console.log(`No building data found for ${cityConfig.name}`);
+                    }
+                } catch (error) {
+                    console.warn(`Failed to load building data for ${city}:`, error);
                 }
-            } catch (error) {
-                console.warn(`Failed to load building data for ${city}:`, error);
             }
+            completed = this.loadShares.roads + this.loadShares.trees + this.loadShares.buildings;
+
+            // Lay out the roads (lane markings depend on the driving side) draped over the terrain, and sort
+            // the buildings into tiles. This runs in the worker so the page keeps rendering meanwhile; the
+            // road layout comes back for height and surface lookups across the whole city, and is cached
+            // so the roads needn't be laid out again next time.
+            await startBuilding('roads');
+            this.roadGenerator.setDrivingSide(this.drivingSide);
+            this.roadGenerator.setTerrain(this.terrain);
+            const layoutCache = this.getRoadLayoutCacheEntry(cityConfig);
+            const cachedLayout = layoutCache ? await this.loadCachedRoadLayout(layoutCache.key, layoutCache.version) : null;
+            const roadLayout = await this.geometryBuilder.prepareCity(
+                geoJSON,
+                buildingGeoJSON,
+                this.centerLat,
+                this.centerLon,
+                this.drivingSide,
+                this.terrain,
+                this.tileGrid.tileSize,
+                cachedLayout
+            );
+            if (layoutCache && !cachedLayout) {
+                CityDataCache.put(layoutCache.key, layoutCache.version, roadLayout)
+                    .catch(error => console.warn(`Failed to cache ${layoutCache.key}:`, error));
+            }
+            this.roadGenerator.setRoadData(roadLayout);
+            completed += this.loadShares.layout;
 
             // Clear GeoJSON reference to allow garbage collection
             // (The geoJSON object will be garbage collected after this scope)
@@ -83,19 +216,29 @@ export class SceneManager {
             if (savedPosition) {
                 // Convert saved lat/lon position to local coordinates
                 const local = this.latLonToLocal(savedPosition.lat, savedPosition.lon);
-                this.startPosition.set(local.x, 0.41, local.z);
+                // The saved height picks the level when roads cross on bridges
+                const roadHeight = this.getRoadHeightAt(local, (savedPosition.y ?? this.carHeight) - this.carHeight);
+                this.startPosition.set(local.x, roadHeight + this.carHeight, local.z);
                 console.log(`Restored position: Lat ${savedPosition.lat.toFixed(6)}, Lon ${savedPosition.lon.toFixed(6)} -> Local (${local.x.toFixed(2)}, ${local.z.toFixed(2)})`);
             } else if (geoJSON.features.length > 0) {
-                // Use first feature coordinate
-                const firstFeature = geoJSON.features[0];
-                if (firstFeature.geometry.type === 'LineString' && firstFeature.geometry.coordinates.length > 0) {
+                // Use the first road's coordinate (point features such as traffic signals may come first)
+                const firstFeature = geoJSON.features.find(feature => feature.geometry.type === 'LineString');
+                if (firstFeature && firstFeature.geometry.type === 'LineString' && firstFeature.geometry.coordinates.length > 0) {
                     const [lon, lat] = firstFeature.geometry.coordinates[0];
                     const local = this.latLonToLocal(lat, lon);
-                    this.startPosition.set(local.x, 0.41, local.z);
+                    this.startPosition.set(local.x, this.getRoadHeightAt(local) + this.carHeight, local.z);
                     console.log(`Starting position: (${local.x.toFixed(2)}, ${local.z.toFixed(2)})`);
                 }
             }
 
+            // Build the tiles around the start; the rest stream in and out as the car drives
+            await startBuilding('tiles');
+            const tilesStart = completed;
+            await this.tileStreamer.loadAround(this.startPosition, fraction => {
+                onProgress({ stage: 'tiles', fraction: tilesStart + this.loadShares.tiles * fraction });
+            });
+            onProgress({ stage: 'tiles', fraction: 1 });
+
             console.log(`Loaded ${geoJSON.features.length} road features from ${cityConfig.name}`);
         } catch (error) {
             console.error(`Failed to load ${city} data:`, error);
@@ -103,18 +246,39 @@ export class SceneManager {
         }
     }
 
+    /**
+     * Stop the geometry worker
+     */
+    dispose(): void {
+        this.geometryBuilder.dispose();
+    }
+
+    /**
+     * Stream tiles in and out around the car (call every frame)
+     */
+    updateStreaming(position: RoadPoint): void {
+        this.tileStreamer.update(position);
+    }
+
     private clearScene(): void {
-        // Dispose ground mesh if it exists
-        if (this.groundMesh) {
-            if (this.groundMesh.geometry) {
-                this.groundMesh.geometry.dispose();
+        this.highlightFeature(null);
+
+        // Forget the streamed tiles; the generators dispose their meshes below
+        this.tileStreamer.reset();
+        this.treeTiles.clear();
+
+        // Dispose ground meshes if they exist
+        this.groundMeshes.forEach(groundMesh => {
+            if (groundMesh.geometry) {
+                groundMesh.geometry.dispose();
             }
-            if (this.groundMesh.material instanceof THREE.Material) {
-                this.groundMesh.material.dispose();
+            if (groundMesh.material instanceof THREE.Material) {
+                groundMesh.material.dispose();
             }
-            this.scene.remove(this.groundMesh);
-            this.groundMesh = null;
-        }
+            this.scene.remove(groundMesh);
+        });
+        this.groundMeshes = [];
+        this.terrain = null;
 
         // Clear road groups instead of removing them (they're needed by RoadGenerator)
         // Clear the road generator's groups
@@ -126,13 +290,26 @@ export class SceneManager {
         // Clear buildings
         this.buildingGenerator.clear();
 
-        // Remove other meshes and groups, but keep lights, camera, road groups, tree groups, and building groups
+        // Clear fields, parks and water
+        this.landCoverGenerator.clear();
+
+        // Clear speed limit signs, traffic signals and stop/give-way signs
+        this.speedLimitSignGenerator.clear();
+        this.trafficControlGenerator.clear();
+        this.trafficControls = [];
+        this.trafficSignals = null;
+
+        // Drop the previous city's road network and colliders
+        this.roadNetwork = null;
+        this.collisionSystem.clear();
+
+        // Remove other meshes and groups, but keep lights, camera, road groups, tree groups, building groups, land cover groups, sign groups and the route group
         const objectsToRemove: THREE.Object3D[] = [];
         this.scene.children.forEach((child) => {
-            // Keep lights, camera, road groups, tree groups, and building groups
+            // Keep lights, camera, road groups, tree groups, building groups, land cover groups, sign groups and the route group
             if (!(child instanceof THREE.Light) &&
                 !(child instanceof THREE.Camera) &&
-                !(child instanceof THREE.Group && (child.userData.isRoadGroup || child.userData.isTreeGroup || child.userData.isBuildingGroup))) {
+                !(child instanceof THREE.Group && (child.userData.isRoadGroup || child.userData.isTreeGroup || child.userData.isBuildingGroup || child.userData.isLandCoverGroup || child.userData.isSignGroup || child.userData.isRouteGroup))) {
                 objectsToRemove.push(child);
             }
         });
@@ -155,12 +332,133 @@ export class SceneManager {
         // Rotate to lay flat on XZ plane (Y is up)
         const { x, z } = this.latLonToLocal(this.centerLat, this.centerLon);
         ground.rotation.x = -Math.PI / 2;
-        ground.position.set(x, -1, z); // Center at origin
+        // Center at origin; with terrain, the plane continues below its lowest point
+        ground.position.set(x, (this.terrain ? this.terrain.getMinHeight() : 0) - 1, z);
         ground.receiveShadow = true;
         // Ensure ground is not culled
         ground.frustumCulled = false;
-        this.groundMesh = ground; // Store reference for disposal
+        this.groundMeshes.push(ground); // Store reference for disposal
         this.scene.add(ground);
+
+        if (this.terrain) {
+            this.groundMeshes.push(this.createTerrainMesh(this.terrain, groundMaterial));
+        }
+    }
+
+    /**
+     * Ground surface over the elevation grid, kept 1 m below the road surface like the flat ground
+     */
+    private createTerrainMesh(terrain: Heightmap, material: THREE.Material): THREE.Mesh {
+        const bounds = terrain.getBounds();
+        const segmentsX = Math.max(1, Math.min(terrain.columns - 1, this.maxTerrainSegments));
+        const segmentsZ = Math.max(1, Math.min(terrain.rows - 1, this.maxTerrainSegments));
+        const geometry = new THREE.PlaneGeometry(bounds.maxX - bounds.minX, bounds.maxZ - bounds.minZ, segmentsX, segmentsZ);
+
+        // Lay flat on XZ plane (Y is up), then lift each vertex to the ground height
+        geometry.rotateX(-Math.PI / 2);
+        geometry.translate((bounds.minX + bounds.maxX) / 2, 0, (bounds.minZ + bounds.maxZ) / 2);
+        const positions = geometry.attributes.position;
+        for (let i = 0; i < positions.count; i++) {
+            positions.setY(i, terrain.getHeight(positions.getX(i), positions.getZ(i)) - 1);
+        }
+        positions.needsUpdate = true;
+        geometry.computeVertexNormals();
+
+        const mesh = new THREE.Mesh(geometry, material);
+        mesh.receiveShadow = true;
+        this.scene.add(mesh);
+        return mesh;
+    }
+
+    /**
+     * Add a built tile's roads, buildings, ground cover and trees to the scene
+     */
+    private addTile(key: string, tile: TileGeometry): void {
+        this.roadGenerator.addRoadTile(key, tile.roads);
+        this.buildingGenerator.addBuildingTile(key, tile.buildings);
+        this.landCoverGenerator.addLandCoverTile(key, tile.landCover);
+        const trees = this.treeTiles.get(key);
+        if (trees) {
+            this.treeGenerator.addTreeTile(key, { type: 'FeatureCollection', features: trees }, this.centerLat, this.centerLon, this.terrain);
+        }
+        // A highlighted road may run on into the new tile
+        if (this.highlighted) this.highlightFeature(this.highlighted);
+    }
+
+    private removeTile(key: string): void {
+        this.roadGenerator.removeRoadTile(key);
+        this.buildingGenerator.removeBuildingTile(key);
+        this.landCoverGenerator.removeLandCoverTile(key);
+        this.treeGenerator.removeTreeTile(key);
+        if (this.highlighted) this.highlightFeature(this.highlighted);
+    }
+
+    /**
+     * Group tree features by the tile they stand in
+     */
+    private sortTreesIntoTiles(treeGeoJSON: GeoJSON): void {
+        treeGeoJSON.features.forEach(feature => {
+            if (feature.geometry.type !== 'Point' || feature.geometry.coordinates.length < 2) return;
+            const [lon, lat] = feature.geometry.coordinates;
+            const local = this.latLonToLocal(lat, lon);
+            const key = this.tileGrid.getKey(local.x, local.z);
+            const features = this.treeTiles.get(key);
+            if (features) {
+                features.push(feature);
+            } else {
+                this.treeTiles.set(key, [feature]);
+            }
+        });
+    }
+
+    /**
+     * Wait for the next frame so progress shows before blocking work such as mesh generation
+     */
+    private nextFrame(): Promise<void> {
+        return new Promise(resolve => requestAnimationFrame(() => setTimeout(resolve, 0)));
+    }
+
+    /**
+     * Where the city's road layout is cached, or null when it isn't: unversioned data may
+     * change, and a layout draped over no terrain because the elevation grid failed to load
+     * mustn't outlive this load
+     */
+    private getRoadLayoutCacheEntry(config: CityConfig): { key: string; version: string; } | null {
+        if (config.imported || config.version === undefined) return null;
+        if (config.layers.includes('elevation') && !this.terrain) return null;
+        return { key: `layout/${config.file}`, version: `${config.version}/${RoadGenerator.LAYOUT_VERSION}` };
+    }
+
+    /**
+     * The cached road layout of a city, or null when there is none at this version
+     */
+    private async loadCachedRoadLayout(key: string, version: string): Promise<PreparedRoadLayout | null> {
+        try {
+            const layout = await CityDataCache.get<PreparedRoadLayout>(key, version);
+            if (layout) console.log(`Loaded ${key} from the cache`);
+            return layout;
+        } catch (error) {
+            console.warn(`Failed to read ${key} from the cache:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Load the city's elevation grid (public/data/elevation/<city>.json and its image)
+     */
+    private async loadTerrain(city: string, file: string, name: string): Promise<Heightmap | null> {
+        try {
+            const terrain = await Heightmap.load(`/data/elevation/${file}`, this.centerLat, this.centerLon);
+            if (!terrain) {
+                console.log(`No elevation data found for ${name}`);
+                return null;
+            }
+            console.log(`Loaded ${terrain.columns}x${terrain.rows} elevation grid for ${name} (${terrain.getMinHeight().toFixed(1)} to ${terrain.getMaxHeight().toFixed(1)} m)`);
+            return terrain;
+        } catch (error) {
+            console.warn(`Failed to load elevation data for ${city}:`, error);
+            return null;
+        }
     }
 
     private latLonToLocal(lat: number, lon: number): { x: number; z: number; } {
@@ -207,7 +505,96 @@ export class SceneManager {
         // Convert centerLat/centerLon to local coordinates
         // This ensures the center position matches where the ground is positioned
         const local = this.latLonToLocal(this.centerLat, this.centerLon);
-        return new THREE.Vector3(local.x, 0.41, local.z);
+        return new THREE.Vector3(local.x, this.getRoadHeightAt(local) + this.carHeight, local.z);
+    }
+
+    /**
+     * Spawn pose for resets: on the road nearest the map center, in the lane for the
+     * city's driving side and facing along the road. Falls back to the map center.
+     */
+    getSpawnPose(): { position: THREE.Vector3; heading: number; } {
+        const center = this.getCenterPosition();
+        const nearest = this.roadNetwork?.findNearestEdge(center.x, center.z, 250);
+        if (!nearest) {
+            return { position: center, heading: 0 };
+        }
+
+        const { edge } = nearest;
+        const { point, direction } = this.roadNetwork!.getPointAlongEdge(edge, nearest.distanceAlong);
+        const laneOffset = RoadDimensions.getLaneOffset(edge.properties.highway, edge.properties.lanes, edge.twinId !== null, this.drivingSide);
+
+        // Right of travel direction (dx, dz) is (-dz, dx)
+        const x = point.x - direction.z * laneOffset;
+        const z = point.z + direction.x * laneOffset;
+        return {
+            position: new THREE.Vector3(x, this.getRoadHeightAt({ x, z }) + this.carHeight, z),
+            heading: Math.atan2(direction.x, direction.z)
+        };
+    }
+
+    getDrivingSide(): DrivingSide {
+        return this.drivingSide;
+    }
+
+    /**
+     * Height of the road surface above the ground at a position (local coordinates), raised
+     * on bridges and their ramps. Where roads cross at different levels, `nearHeight` (the
+     * surface height last driven on) picks the level.
+     */
+    getRoadHeightAt(position: RoadPoint, nearHeight: number = 0): number {
+        return this.roadGenerator.getRoadHeightAt(position, nearHeight);
+    }
+
+    /**
+     * Height of the car's centre above the road surface it rests on
+     */
+    getCarHeight(): number {
+        return this.carHeight;
+    }
+
+    /**
+     * The roundabout whose circulating carriageway contains a position (local coordinates),
+     * with the direction traffic circulates there; null when not on a roundabout
+     */
+    getRoundaboutAt(position: RoadPoint): RoundaboutInfo | null {
+        const roundabout = this.roadGenerator.getRoundaboutLayout()?.getRoundaboutAt(position.x, position.z);
+        if (!roundabout) return null;
+        return {
+            center: { ...roundabout.center },
+            radius: roundabout.radius,
+            circulation: roundabout.circulation,
+            name: roundabout.name
+        };
+    }
+
+    /**
+     * Advance the traffic signal cycles and switch the signal lamps
+     */
+    updateTrafficSignals(delta: number): void {
+        if (!this.trafficSignals) return;
+        this.trafficSignals.update(delta);
+        this.trafficControlGenerator.updateSignals(this.trafficSignals);
+    }
+
+    /**
+     * Get the traffic signal plans for the loaded city (null until a city is loaded)
+     */
+    getTrafficSignals(): TrafficSignalController | null {
+        return this.trafficSignals;
+    }
+
+    /**
+     * Get the traffic signals, stop and give-way signs of the loaded city
+     */
+    getTrafficControls(): TrafficControl[] {
+        return this.trafficControls;
+    }
+
+    /**
+     * ISO country code of the current city (selects default speed limits)
+     */
+    getCountryCode(): string {
+        return this.countryCode;
     }
 
     getCurrentCity(): string {
@@ -228,6 +615,69 @@ export class SceneManager {
         return this.roadGenerator.getLabelsVisible();
     }
 
+    /**
+     * Get the road network graph for the loaded city (null until a city is loaded)
+     */
+    getRoadNetwork(): RoadNetwork | null {
+        return this.roadNetwork;
+    }
+
+    getCollisionSystem(): CollisionSystem {
+        return this.collisionSystem;
+    }
+
+    /**
+     * The road or building under a ray, as the index of its feature in the city's GeoJSON
+     * for that layer; null when the ray hits neither
+     */
+    pickFeature(raycaster: THREE.Raycaster): PickedFeature | null {
+        const buildings = this.buildingGenerator.getBuildings();
+        const hits = raycaster.intersectObjects([...buildings, ...this.roadGenerator.getRoads()], false);
+        for (const hit of hits) {
+            const featureId = MeshBatcher.getFeatureId(hit);
+            if (featureId !== null) {
+                return { layer: buildings.includes(hit.object as THREE.Mesh) ? 'buildings' : 'roads', featureId };
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Point where a ray first meets a road (bridges included) or the ground (following the
+     * terrain); null when it misses both
+     */
+    pickSurface(raycaster: THREE.Raycaster): THREE.Vector3 | null {
+        const hit = raycaster.intersectObjects([...this.roadGenerator.getRoads(), ...this.groundMeshes], false)[0];
+        return hit ? hit.point : null;
+    }
+
+    /**
+     * Draw a road or building highlighted, across all the merged meshes holding its parts;
+     * null clears the highlight
+     */
+    highlightFeature(feature: PickedFeature | null): void {
+        this.highlightMeshes.forEach(mesh => {
+            mesh.geometry.dispose();
+            this.scene.remove(mesh);
+        });
+        this.highlightMeshes = [];
+        this.highlighted = feature;
+        if (!feature) return;
+
+        const meshes = feature.layer === 'buildings' ? this.buildingGenerator.getBuildings() : this.roadGenerator.getRoads();
+        meshes.forEach(mesh => {
+            const geometry = MeshBatcher.extractFeature(mesh, feature.featureId);
+            if (!geometry) return;
+            const highlight = new THREE.Mesh(geometry, this.highlightMaterial);
+            mesh.updateWorldMatrix(true, false);
+            highlight.matrixAutoUpdate = false;
+            highlight.matrix.copy(mesh.matrixWorld);
+            highlight.renderOrder = 1;
+            this.highlightMeshes.push(highlight);
+            this.scene.add(highlight);
+        });
+    }
+
     /**
      * Get road surface type at a world position (used for road noise)
      */
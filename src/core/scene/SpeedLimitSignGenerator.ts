@@ -0,0 +1,214 @@
+import * as THREE from 'three';
+import { RoadDimensions } from '../network/RoadDimensions';
+import { SpeedLimits } from '../rules/SpeedLimits';
+import type { RoadNetwork, RoadEdge } from '../network/RoadNetwork';
+import type { DrivingSide } from '@/types';
+import type { Heightmap } from '../terrain/Heightmap';
+
+interface SignPlacement {
+    x: number;
+    y: number; // Ground height at the foot of the pole
+    z: number;
+    rotation: number; // Yaw that turns the plate toward approaching drivers
+    limit: number; // km/h
+}
+
+/**
+ * Places speed limit signs beside the road: at the start of each road and wherever the
+ * limit changes along it. Signs stand on the driving side, facing oncoming traffic.
+ */
+export class SpeedLimitSignGenerator {
+    private signGroup: THREE.Group;
+    private signCount: number = 0;
+    private faceMaterials: Map<number, THREE.MeshStandardMaterial> = new Map();
+    private sharedGeometries: {
+        pole: THREE.CylinderGeometry;
+        plate: THREE.CircleGeometry;
+    };
+    private sharedMaterials: {
+        poleMaterial: THREE.MeshStandardMaterial;
+        backMaterial: THREE.MeshStandardMaterial;
+    };
+
+    private readonly poleHeight = 2.2; // meters
+    private readonly plateRadius = 0.35; // meters
+    private readonly setback = 4; // meters past the start of the road section
+    private readonly kerbClearance = 0.6; // meters beyond the road edge
+    private readonly minEdgeLength = 10; // meters; shorter sections get no sign
+
+    // Roads that don't carry posted limits
+    private static readonly UNSIGNED_HIGHWAYS = new Set(['service', 'track']);
+
+    constructor(private scene: THREE.Scene) {
+        this.signGroup = new THREE.Group();
+        // Mark group so it's not removed during scene clearing
+        this.signGroup.userData.isSignGroup = true;
+        this.scene.add(this.signGroup);
+
+        this.sharedGeometries = {
+            pole: new THREE.CylinderGeometry(0.04, 0.04, this.poleHeight, 6),
+            plate: new THREE.CircleGeometry(this.plateRadius, 24)
+        };
+        this.sharedMaterials = {
+            poleMaterial: new THREE.MeshStandardMaterial({ color: 0x8a8f94, roughness: 0.5, metalness: 0.6 }),
+            backMaterial: new THREE.MeshStandardMaterial({ color: 0x9aa0a6, roughness: 0.6, metalness: 0.4 })
+        };
+    }
+
+    /**
+     * Generate signs for every directed road section that starts a road or changes its limit.
+     * Poles, plates and faces are drawn as instanced meshes, one face batch per limit value.
+     */
+    generateSigns(network: RoadNetwork, drivingSide: DrivingSide, countryCode?: string, terrain: Heightmap | null = null): void {
+        const placements: SignPlacement[] = [];
+
+        network.getEdges().forEach(edge => {
+            if (edge.length < this.minEdgeLength) return;
+            if (SpeedLimitSignGenerator.UNSIGNED_HIGHWAYS.has(edge.properties.highway)) return;
+            // Nobody enters a road from a dead end
+            if (network.getNodeDegree(edge.from) <= 1) return;
+
+            const limit = SpeedLimits.getLimit(edge, countryCode);
+            if (!this.needsSign(network, edge, limit, countryCode)) return;
+
+            placements.push(this.placeSign(network, edge, limit, drivingSide, terrain));
+        });
+
+        if (placements.length > 0) {
+            this.buildMeshes(placements);
+        }
+        this.signCount = placements.length;
+
+        console.log(`Generated ${placements.length} speed limit signs`);
+    }
+
+    /**
+     * A section needs a sign if no section of the same road leads into it at the same limit
+     */
+    private needsSign(network: RoadNetwork, edge: RoadEdge, limit: number, countryCode?: string): boolean {
+        // Where only two ways meet the road simply carries on, whatever the ways are called
+        const passThrough = network.getNodeDegree(edge.from) === 2;
+        const continuations = network.getIncomingEdges(edge.from).filter(incoming =>
+            incoming.id !== edge.twinId && (passThrough || this.isSameRoad(incoming, edge)));
+        return !continuations.some(incoming => SpeedLimits.getLimit(incoming, countryCode) === limit);
+    }
+
+    private isSameRoad(a: RoadEdge, b: RoadEdge): boolean {
+        if (a.properties.name || b.properties.name) return a.properties.name === b.properties.name;
+        return a.properties.highway === b.properties.highway;
+    }
+
+    private placeSign(network: RoadNetwork, edge: RoadEdge, limit: number, drivingSide: DrivingSide, terrain: Heightmap | null): SignPlacement {
+        const { point, direction } = network.getPointAlongEdge(edge, Math.min(this.setback, edge.length / 2));
+        const halfWidth = RoadDimensions.getRoadWidth(edge.properties.highway, edge.properties.lanes) / 2;
+        const offset = (drivingSide === 'right' ? 1 : -1) * (halfWidth + this.kerbClearance);
+
+        // Right of travel direction (dx, dz) is (-dz, dx); the plate (+Z) faces back toward approaching drivers
+        const x = point.x - direction.z * offset;
+        const z = point.z + direction.x * offset;
+        return {
+            x,
+            y: terrain ? terrain.getHeight(x, z) : 0,
+            z,
+            rotation: Math.atan2(-direction.x, -direction.z),
+            limit
+        };
+    }
+
+    private buildMeshes(placements: SignPlacement[]): void {
+        const dummy = new THREE.Object3D();
+        const plateHeight = this.poleHeight - this.plateRadius * 0.5;
+
+        const setMatrices = (mesh: THREE.InstancedMesh, signs: SignPlacement[], y: number, depth: number, flip: boolean): void => {
+            signs.forEach((sign, index) => {
+                const rotation = sign.rotation + (flip ? Math.PI : 0);
+                // Offset along the sign's facing direction (sin, cos of its rotation)
+                dummy.position.set(sign.x + Math.sin(sign.rotation) * depth, sign.y + y, sign.z + Math.cos(sign.rotation) * depth);
+                dummy.rotation.set(0, rotation, 0);
+                dummy.updateMatrix();
+                mesh.setMatrixAt(index, dummy.matrix);
+            });
+            mesh.instanceMatrix.needsUpdate = true;
+            this.signGroup.add(mesh);
+        };
+
+        const poles = new THREE.InstancedMesh(this.sharedGeometries.pole, this.sharedMaterials.poleMaterial, placements.length);
+        poles.castShadow = true;
+        setMatrices(poles, placements, this.poleHeight / 2, 0, false);
+
+        const backs = new THREE.InstancedMesh(this.sharedGeometries.plate, this.sharedMaterials.backMaterial, placements.length);
+        setMatrices(backs, placements, plateHeight, 0.045, true);
+
+        const byLimit = new Map<number, SignPlacement[]>();
+        placements.forEach(sign => {
+            const signs = byLimit.get(sign.limit) ?? [];
+            signs.push(sign);
+            byLimit.set(sign.limit, signs);
+        });
+        byLimit.forEach((signs, limit) => {
+            const faces = new THREE.InstancedMesh(this.sharedGeometries.plate, this.getFaceMaterial(limit), signs.length);
+            faces.userData.speedLimit = limit;
+            setMatrices(faces, signs, plateHeight, 0.05, false);
+        });
+    }
+
+    /**
+     * Roundel face for a limit (white disc, red ring, black number), shared by all signs showing it
+     */
+    private getFaceMaterial(limit: number): THREE.MeshStandardMaterial {
+        const cached = this.faceMaterials.get(limit);
+        if (cached) return cached;
+
+        const canvas = document.createElement('canvas');
+        canvas.width = 128;
+        canvas.height = 128;
+        const context = canvas.getContext('2d')!;
+
+        context.beginPath();
+        context.arc(64, 64, 62, 0, Math.PI * 2);
+        context.fillStyle = '#d71920';
+        context.fill();
+        context.beginPath();
+        context.arc(64, 64, 48, 0, Math.PI * 2);
+        context.fillStyle = '#ffffff';
+        context.fill();
+
+        const text = String(Math.round(limit));
+        context.fillStyle = '#111111';
+        context.font = `bold ${text.length > 2 ? 40 : 52}px Arial`;
+        context.textAlign = 'center';
+        context.textBaseline = 'middle';
+        context.fillText(text, 64, 67);
+
+        const texture = new THREE.CanvasTexture(canvas);
+        texture.colorSpace = THREE.SRGBColorSpace;
+        const material = new THREE.MeshStandardMaterial({ map: texture, roughness: 0.5, metalness: 0 });
+        this.faceMaterials.set(limit, material);
+        return material;
+    }
+
+    /**
+     * Remove all signs from the scene
+     */
+    clear(): void {
+        const children = [...this.signGroup.children];
+        children.forEach(child => {
+            this.signGroup.remove(child);
+            if (child instanceof THREE.InstancedMesh) {
+                child.dispose();
+            }
+        });
+        this.signCount = 0;
+
+        // Geometries are shared; face textures are per limit and rebuilt on demand
+        this.faceMaterials.forEach(material => {
+            material.map?.dispose();
+            material.dispose();
+        });
+        this.faceMaterials.clear();
+    }
+
+    getSignCount(): number {
+        return this.signCount;
+    }
+}
@@ -0,0 +1,60 @@
+/**
+ * Square tiles over the XZ plane that the world is streamed in. Tiles are named by their
+ * column and row ("x,z"), so the worker and the main thread agree on them without
+ * sharing any state. Pure data, no Three.js dependency.
+ */
+export class TileGrid {
+    constructor(readonly tileSize: number = 250) { }
+
+    /**
+     * Key of the tile containing a position
+     */
+    getKey(x: number, z: number): string {
+        return `${Math.floor(x / this.tileSize)},${Math.floor(z / this.tileSize)}`;
+    }
+
+    /**
+     * Keys of all tiles within a radius of a position, nearest first
+     */
+    getKeysWithin(x: number, z: number, radius: number): string[] {
+        const minColumn = Math.floor((x - radius) / this.tileSize);
+        const maxColumn = Math.floor((x + radius) / this.tileSize);
+        const minRow = Math.floor((z - radius) / this.tileSize);
+        const maxRow = Math.floor((z + radius) / this.tileSize);
+
+        const tiles: Array<{ key: string; distance: number; }> = [];
+        for (let column = minColumn; column <= maxColumn; column++) {
+            for (let row = minRow; row <= maxRow; row++) {
+                const key = `${column},${row}`;
+                const distance = this.getDistance(key, x, z);
+                if (distance <= radius) tiles.push({ key, distance });
+            }
+        }
+        return tiles.sort((a, b) => a.distance - b.distance).map(tile => tile.key);
+    }
+
+    /**
+     * Keys of all tiles overlapping a rectangle
+     */
+    getKeysOverlapping(minX: number, minZ: number, maxX: number, maxZ: number): string[] {
+        const keys: string[] = [];
+        for (let column = Math.floor(minX / this.tileSize); column <= Math.floor(maxX / this.tileSize); column++) {
+            for (let row = Math.floor(minZ / this.tileSize); row <= Math.floor(maxZ / this.tileSize); row++) {
+                keys.push(`${column},${row}`);
+            }
+        }
+        return keys;
+    }
+
+    /**
+     * Distance from a position to the nearest point of a tile (0 inside it)
+     */
+    getDistance(key: string, x: number, z: number): number {
+        const [column, row] = key.split(',').map(Number);
+        const minX = column * this.tileSize;
+        const minZ = row * this.tileSize;
+        const dx = Math.max(minX - x, 0, x - (minX + this.tileSize));
+        const dz = Math.max(minZ - z, 0, z - (minZ + this.tileSize));
+        return Math.hypot(dx, dz);
+    }
+}
@@ -0,0 +1,144 @@
+import type { TileGrid } from './TileGrid';
+
+/**
+ * What the streamer needs to know about a built tile
+ */
+export interface TileContent {
+    reach?: string[]; // Other tiles the content extends into (long road strips)
+}
+
+/**
+ * Keeps the tiles around the car in the scene. Missing tiles within the load radius are
+ * built nearest first, one at a time, and tiles beyond the (larger) unload radius are
+ * removed, so driving along a tile edge doesn't reload the same tiles over and over. A tile
+ * whose content reaches into other tiles stays while any of those is within the unload
+ * radius. Building, adding and removing tiles is left to the callbacks.
+ */
+export class TileStreamer<T extends TileContent> {
+    private loadedTiles = new Map<string, string[]>(); // Loaded tiles and the tiles they reach into
+    private failedTiles = new Set<string>();
+    private loadingTile: string | null = null;
+    private position: { x: number; z: number; } | null = null;
+    private currentTile: string | null = null;
+    private needsUpdate: boolean = false;
+    private active: boolean = false; // Streaming starts once the tiles around the start are in
+    private generation: number = 0; // Bumped by reset, so tiles still building for the previous city are dropped
+
+    constructor(
+        private grid: TileGrid,
+        private build: (key: string) => Promise<T>,
+        private add: (key: string, content: T) => void,
+        private remove: (key: string) => void,
+        private readonly loadRadius: number = 1000,
+        private readonly unloadRadius: number = 1250
+    ) { }
+
+    /**
+     * Build and add every tile within the load radius of a position, then keep streaming
+     * from there. Used while a city loads, so the car starts with its surroundings in place.
+     */
+    async loadAround(position: { x: number; z: number; }, onProgress: (fraction: number) => void = () => { }): Promise<void> {
+        const generation = this.generation;
+        const keys = this.grid.getKeysWithin(position.x, position.z, this.loadRadius)
+            .filter(key => !this.loadedTiles.has(key));
+
+        // A tile that fails is left out (and not retried) rather than failing the whole load
+        let built = 0;
+        let failed = 0;
+        await Promise.all(keys.map(async key => {
+            try {
+                const content = await this.build(key);
+                if (generation !== this.generation) return;
+                this.add(key, content);
+                this.loadedTiles.set(key, content.reach ?? []);
+            } catch (error) {
+                if (generation !== this.generation) return;
+                console.warn(`Failed to build tile ${key}:`, error);
+                this.failedTiles.add(key);
+                failed++;
+            }
+            onProgress(++built / keys.length);
+        }));
+        if (generation !== this.generation) return;
+
+        console.log(`Built ${keys.length - failed} of ${keys.length} tiles around the start`);
+        this.position = { x: position.x, z: position.z };
+        this.currentTile = this.grid.getKey(position.x, position.z);
+        this.active = true;
+    }
+
+    /**
+     * Follow the car: unload far tiles and start building the nearest missing one. Cheap
+     * while the car stays within a tile, so it can run every frame.
+     */
+    update(position: { x: number; z: number; }): void {
+        if (!this.active) return;
+        this.position = { x: position.x, z: position.z };
+
+        const tile = this.grid.getKey(position.x, position.z);
+        if (tile === this.currentTile && !this.needsUpdate) return;
+        this.currentTile = tile;
+        this.needsUpdate = false;
+
+        this.loadedTiles.forEach((reach, key) => {
+            if (!this.isInRange(key, reach, position)) {
+                this.remove(key);
+                this.loadedTiles.delete(key);
+            }
+        });
+        this.loadNext();
+    }
+
+    /**
+     * Forget all tiles (the caller clears the scene) and stop streaming until loadAround
+     */
+    reset(): void {
+        this.generation++;
+        this.loadedTiles.clear();
+        this.failedTiles.clear();
+        this.loadingTile = null;
+        this.position = null;
+        this.currentTile = null;
+        this.needsUpdate = false;
+        this.active = false;
+    }
+
+    getLoadedTileCount(): number {
+        return this.loadedTiles.size;
+    }
+
+    /**
+     * Whether a tile, or any tile its content reaches into, is within the unload radius
+     */
+    private isInRange(key: string, reach: string[], position: { x: number; z: number; }): boolean {
+        return [key, ...reach].some(tile => this.grid.getDistance(tile, position.x, position.z) <= this.unloadRadius);
+    }
+
+    private loadNext(): void {
+        if (this.loadingTile !== null || !this.position) return;
+        const key = this.grid.getKeysWithin(this.position.x, this.position.z, this.loadRadius)
+            .find(candidate => !this.loadedTiles.has(candidate) && !this.failedTiles.has(candidate));
+        if (!key) return;
+
+        const generation = this.generation;
+        this.loadingTile = key;
+        this.build(key).then(content => {
+            if (generation !== this.generation) return;
+            // The car may have moved on while the tile was built
+            const position = this.position;
+            const reach = content.reach ?? [];
+            if (position && this.isInRange(key, reach, position)) {
+                this.add(key, content);
+                this.loadedTiles.set(key, reach);
+            }
+        }).catch(error => {
+            if (generation !== this.generation) return;
+            console.warn(`Failed to build tile ${key}:`, error);
+            this.failedTiles.add(key);
+        }).finally(() => {
+            if (generation !== this.generation) return;
+            this.loadingTile = null;
+            this.needsUpdate = true; // The next update picks the next tile
+        });
+    }
+}
@@ -0,0 +1,255 @@
+import * as THREE from 'three';
+import type { TrafficControl } from '../network/TrafficControlLayout';
+import type { TrafficSignalController } from '../rules/TrafficSignalController';
+import type { DrivingSide, SignalPhase } from '@/types';
+import type { Heightmap } from '../terrain/Heightmap';
+
+/**
+ * Lamps of one signal head, switched as its phase changes
+ */
+interface SignalHead {
+    id: string;
+    lamps: Record<SignalPhase, THREE.Mesh>;
+    phase: SignalPhase | null;
+}
+
+/**
+ * Places traffic signal heads, stop signs and give-way signs beside the road at their stop
+ * lines, on the driving side and facing approaching drivers. Signal lamps follow the phases
+ * of a TrafficSignalController.
+ */
+export class TrafficControlGenerator {
+    private controlGroup: THREE.Group;
+    private heads: SignalHead[] = [];
+    private signCount: number = 0;
+    private sharedGeometries: {
+        pole: THREE.CylinderGeometry;
+        signalPole: THREE.CylinderGeometry;
+        housing: THREE.BoxGeometry;
+        lamp: THREE.CircleGeometry;
+        octagon: THREE.CircleGeometry;
+        triangle: THREE.CircleGeometry;
+    };
+    private sharedMaterials: {
+        poleMaterial: THREE.MeshStandardMaterial;
+        housingMaterial: THREE.MeshStandardMaterial;
+        backMaterial: THREE.MeshStandardMaterial;
+        stopMaterial: THREE.MeshStandardMaterial;
+        giveWayMaterial: THREE.MeshStandardMaterial;
+        litLamps: Record<SignalPhase, THREE.MeshStandardMaterial>;
+        darkLamps: Record<SignalPhase, THREE.MeshStandardMaterial>;
+    };
+
+    private readonly signPoleHeight = 2.2; // meters
+    private readonly signalPoleHeight = 3.0;
+    private readonly plateRadius = 0.4;
+    private readonly kerbClearance = 0.6; // meters beyond the road edge
+    private readonly lampSpacing = 0.28; // meters between lamp centres
+
+    private static readonly LAMP_COLOURS: Record<SignalPhase, number> = {
+        red: 0xff2a1a,
+        amber: 0xffb000,
+        green: 0x22e05a
+    };
+
+    constructor(private scene: THREE.Scene) {
+        this.controlGroup = new THREE.Group();
+        // Mark group so it's not removed during scene clearing
+        this.controlGroup.userData.isSignGroup = true;
+        this.scene.add(this.controlGroup);
+
+        this.sharedGeometries = {
+            pole: new THREE.CylinderGeometry(0.04, 0.04, this.signPoleHeight, 6),
+            signalPole: new THREE.CylinderGeometry(0.06, 0.06, this.signalPoleHeight, 8),
+            housing: new THREE.BoxGeometry(0.32, this.lampSpacing * 3 + 0.08, 0.22),
+            lamp: new THREE.CircleGeometry(0.1, 16),
+            // Flat-topped octagon and a point-down triangle
+            octagon: new THREE.CircleGeometry(this.plateRadius, 8, Math.PI / 8),
+            triangle: new THREE.CircleGeometry(this.plateRadius * 1.15, 3, -Math.PI / 2)
+        };
+
+        const lampMaterials = (lit: boolean) => {
+            const materials = {} as Record<SignalPhase, THREE.MeshStandardMaterial>;
+            (Object.keys(TrafficControlGenerator.LAMP_COLOURS) as SignalPhase[]).forEach(phase => {
+                const colour = new THREE.Color(TrafficControlGenerator.LAMP_COLOURS[phase]);
+                materials[phase] = new THREE.MeshStandardMaterial({
+                    color: lit ? colour : colour.clone().multiplyScalar(0.15),
+                    emissive: lit ? colour : new THREE.Color(0x000000),
+                    emissiveIntensity: lit ? 1.5 : 0,
+                    roughness: 0.3
+                });
+            });
+            return materials;
+        };
+
+        this.sharedMaterials = {
+            poleMaterial: new THREE.MeshStandardMaterial({ color: 0x8a8f94, roughness: 0.5, metalness: 0.6 }),
+            housingMaterial: new THREE.MeshStandardMaterial({ color: 0x1c1c1c, roughness: 0.7 }),
+            backMaterial: new THREE.MeshStandardMaterial({ color: 0x9aa0a6, roughness: 0.6, metalness: 0.4 }),
+            stopMaterial: this.createSignMaterial('stop'),
+            giveWayMaterial: this.createSignMaterial('give_way'),
+            litLamps: lampMaterials(true),
+            darkLamps: lampMaterials(false)
+        };
+    }
+
+    /**
+     * Create a signal head or sign for every traffic control
+     */
+    generateControls(controls: TrafficControl[], drivingSide: DrivingSide, terrain: Heightmap | null = null): void {
+        let signals = 0;
+        controls.forEach(control => {
+            // Right of travel direction (dx, dz) is (-dz, dx)
+            const offset = (drivingSide === 'right' ? 1 : -1) * (control.halfWidth + this.kerbClearance);
+            const x = control.stopLine.x - control.direction.z * offset;
+            const z = control.stopLine.z + control.direction.x * offset;
+            const y = terrain ? terrain.getHeight(x, z) : 0;
+            // Local +Z faces back toward approaching drivers
+            const rotation = Math.atan2(-control.direction.x, -control.direction.z);
+
+            if (control.type === 'traffic_signals') {
+                this.controlGroup.add(this.createSignalHead(control.id, x, y, z, rotation));
+                signals++;
+            } else {
+                this.controlGroup.add(this.createSign(control.type, x, y, z, rotation));
+                this.signCount++;
+            }
+        });
+
+        console.log(`Generated ${signals} traffic signals and ${this.signCount} stop/give-way signs`);
+    }
+
+    /**
+     * Light each signal head's lamp for its current phase
+     */
+    updateSignals(controller: TrafficSignalController): void {
+        this.heads.forEach(head => {
+            const phase = controller.getPhase(head.id)?.phase ?? null;
+            if (phase === head.phase) return;
+            head.phase = phase;
+            (Object.keys(head.lamps) as SignalPhase[]).forEach(lamp => {
+                head.lamps[lamp].material = lamp === phase ? this.sharedMaterials.litLamps[lamp] : this.sharedMaterials.darkLamps[lamp];
+            });
+        });
+    }
+
+    private createSignalHead(id: string, x: number, y: number, z: number, rotation: number): THREE.Group {
+        const signal = new THREE.Group();
+        signal.position.set(x, y, z);
+        signal.rotation.y = rotation;
+
+        const pole = new THREE.Mesh(this.sharedGeometries.signalPole, this.sharedMaterials.poleMaterial);
+        pole.position.y = this.signalPoleHeight / 2;
+        pole.castShadow = true;
+        signal.add(pole);
+
+        const housingY = this.signalPoleHeight - this.lampSpacing * 1.5;
+        const housing = new THREE.Mesh(this.sharedGeometries.housing, this.sharedMaterials.housingMaterial);
+        housing.position.set(0, housingY, 0.14);
+        housing.castShadow = true;
+        signal.add(housing);
+
+        // Red on top, green at the bottom
+        const lamps = {} as Record<SignalPhase, THREE.Mesh>;
+        (['red', 'amber', 'green'] as SignalPhase[]).forEach((phase, index) => {
+            const lamp = new THREE.Mesh(this.sharedGeometries.lamp, this.sharedMaterials.darkLamps[phase]);
+            lamp.position.set(0, housingY + (1 - index) * this.lampSpacing, 0.26);
+            signal.add(lamp);
+            lamps[phase] = lamp;
+        });
+        this.heads.push({ id, lamps, phase: null });
+
+        return signal;
+    }
+
+    private createSign(type: 'stop' | 'give_way', x: number, y: number, z: number, rotation: number): THREE.Group {
+        const sign = new THREE.Group();
+        sign.position.set(x, y, z);
+        sign.rotation.y = rotation;
+
+        const pole = new THREE.Mesh(this.sharedGeometries.pole, this.sharedMaterials.poleMaterial);
+        pole.position.y = this.signPoleHeight / 2;
+        pole.castShadow = true;
+        sign.add(pole);
+
+        const geometry = type === 'stop' ? this.sharedGeometries.octagon : this.sharedGeometries.triangle;
+        const plateY = this.signPoleHeight - this.plateRadius * 0.5;
+
+        const face = new THREE.Mesh(geometry, type === 'stop' ? this.sharedMaterials.stopMaterial : this.sharedMaterials.giveWayMaterial);
+        face.position.set(0, plateY, 0.05);
+        sign.add(face);
+
+        const back = new THREE.Mesh(geometry, this.sharedMaterials.backMaterial);
+        back.position.set(0, plateY, 0.045);
+        back.rotation.y = Math.PI;
+        sign.add(back);
+
+        return sign;
+    }
+
+    /**
+     * Sign face texture: red octagon with STOP, or a red-bordered point-down triangle.
+     * The shapes match the plate geometries' circular UV layout.
+     */
+    private createSignMaterial(type: 'stop' | 'give_way'): THREE.MeshStandardMaterial {
+        const canvas = document.createElement('canvas');
+        canvas.width = 128;
+        canvas.height = 128;
+        const context = canvas.getContext('2d')!;
+
+        // Canvas y runs down, so the sine is negated to match the geometry
+        const polygon = (sides: number, start: number, radius: number) => {
+            context.beginPath();
+            for (let i = 0; i < sides; i++) {
+                const angle = start + i * Math.PI * 2 / sides;
+                context.lineTo(64 + Math.cos(angle) * radius, 64 - Math.sin(angle) * radius);
+            }
+            context.closePath();
+        };
+
+        if (type === 'stop') {
+            polygon(8, Math.PI / 8, 64);
+            context.fillStyle = '#ffffff';
+            context.fill();
+            polygon(8, Math.PI / 8, 58);
+            context.fillStyle = '#c8102e';
+            context.fill();
+
+            context.fillStyle = '#ffffff';
+            context.font = 'bold 34px Arial';
+            context.textAlign = 'center';
+            context.textBaseline = 'middle';
+            context.fillText('STOP', 64, 66);
+        } else {
+            polygon(3, -Math.PI / 2, 64);
+            context.fillStyle = '#c8102e';
+            context.fill();
+            polygon(3, -Math.PI / 2, 40);
+            context.fillStyle = '#ffffff';
+            context.fill();
+        }
+
+        const texture = new THREE.CanvasTexture(canvas);
+        texture.colorSpace = THREE.SRGBColorSpace;
+        return new THREE.MeshStandardMaterial({ map: texture, roughness: 0.5, metalness: 0 });
+    }
+
+    /**
+     * Remove all signals and signs from the scene
+     */
+    clear(): void {
+        // Geometries and materials are shared and reused by the next city
+        const children = [...this.controlGroup.children];
+        children.forEach(child => this.controlGroup.remove(child));
+        this.heads = [];
+        this.signCount = 0;
+    }
+
+    getSignalCount(): number {
+        return this.heads.length;
+    }
+
+    getSignCount(): number {
+        return this.signCount;
+    }
+}
@@ -1,14 +1,61 @@
 import * as THREE from 'three';
-import type { GeoJSON } from '@/types';
+import type { GeoJSON, GeoJSONFeature } from '@/types';
+import type { Heightmap } from '../terrain/Heightmap';
 
+export type TreeShape = 'palm' | 'conifer' | 'broadleaf';
+
+// How a tree of each shape is proportioned
+interface TreeArchetype {
+    heightRange: [number, number]; // Overall height (m) when the data doesn't give one
+    trunkShare: number; // Share of the height below the crown
+    trunkRadius: number; // Trunk radius at the base, per metre of height
+    crownRadius: number; // Crown radius, per metre of height
+}
+
+// A tree ready to be drawn: where it stands and how it is shaped and sized
+interface TreePlacement {
+    x: number;
+    y: number;
+    z: number;
+    shape: TreeShape;
+    height: number;
+    rotation: number;
+    crownScale: number; // Variation of the crown width
+    shade: number; // Brightness of the crown
+}
+
+/**
+ * Plants trees from OSM tree points. Each tree takes one of a few archetypes (palm, conifer
+ * or broadleaf), picked from its `genus`, `species`/`taxon` and `leaf_type` tags and otherwise
+ * at random, and is drawn as an instance of the archetype's trunk and crown, so a batch of
+ * trees takes a draw call per crown shape. Random variety is seeded by the OSM id, so every
+ * tree looks the same on each load.
+ */
 export class TreeGenerator {
-    private trees: THREE.Group[] = [];
+    private trees: THREE.InstancedMesh[] = [];
+    private tiles = new Map<string, THREE.InstancedMesh[]>(); // Trees added per streamed tile
     private treeGroup: THREE.Group;
     private sharedMaterials: {
         trunkMaterial: THREE.MeshStandardMaterial;
-        leavesMaterial: THREE.MeshStandardMaterial;
+        palmMaterial: THREE.MeshStandardMaterial;
+        coniferMaterial: THREE.MeshStandardMaterial;
+        broadleafMaterial: THREE.MeshStandardMaterial;
     };
 
+    // Unit trunk and crowns (radius 1, height 1, standing on y = 0), scaled per tree
+    private trunkGeometry: THREE.BufferGeometry;
+    private crownGeometries: Record<TreeShape, THREE.BufferGeometry>;
+
+    private readonly archetypes: Record<TreeShape, TreeArchetype> = {
+        palm: { heightRange: [5, 9], trunkShare: 0.85, trunkRadius: 0.025, crownRadius: 0.3 },
+        conifer: { heightRange: [5, 10], trunkShare: 0.2, trunkRadius: 0.035, crownRadius: 0.22 },
+        broadleaf: { heightRange: [4, 8], trunkShare: 0.4, trunkRadius: 0.04, crownRadius: 0.38 }
+    };
+
+    // Genera recognised from the genus, species or taxon tags
+    private readonly palmGenera = ['areca', 'butia', 'chamaerops', 'cocos', 'dypsis', 'livistona', 'phoenix', 'roystonea', 'sabal', 'syagrus', 'trachycarpus', 'washingtonia'];
+    private readonly coniferGenera = ['abies', 'araucaria', 'cedrus', 'cupressus', 'juniperus', 'larix', 'picea', 'pinus', 'taxus', 'thuja'];
+
     constructor(private scene: THREE.Scene) {
         this.treeGroup = new THREE.Group();
         // Mark group so it's not removed during scene clearing
@@ -22,12 +69,32 @@ export class TreeGenerator {
                 roughness: 0.9,
                 metalness: 0.1
             }),
-            leavesMaterial: new THREE.MeshStandardMaterial({
-                color: 0x228B22, // Forest green
+            palmMaterial: new THREE.MeshStandardMaterial({
+                color: 0x4F9A2F, // Yellowish green
                 roughness: 0.8,
+                metalness: 0.0,
+                side: THREE.DoubleSide // The frond canopy is open underneath
+            }),
+            coniferMaterial: new THREE.MeshStandardMaterial({
+                color: 0x1F5E2A, // Dark green
+                roughness: 0.85,
                 metalness: 0.0
+            }),
+            broadleafMaterial: new THREE.MeshStandardMaterial({
+                color: 0x228B22, // Forest green
+                roughness: 0.8,
+                metalness: 0.0,
+                flatShading: true
             })
         };
+
+        this.trunkGeometry = new THREE.CylinderGeometry(0.7, 1, 1, 6).translate(0, 0.5, 0);
+        this.crownGeometries = {
+            // A low, wide canopy of fronds drooping from the top of the trunk
+            palm: new THREE.ConeGeometry(1, 1, 9, 1, true).translate(0, 0.5, 0),
+            conifer: new THREE.ConeGeometry(1, 1, 8).translate(0, 0.5, 0),
+            broadleaf: new THREE.IcosahedronGeometry(1, 1).scale(1, 0.5, 1).translate(0, 0.5, 0)
+        };
     }
 
     /**
@@ -45,43 +112,43 @@ export class TreeGenerator {
     }
 
     /**
-     * Create a simple 3D tree model
+     * Generate trees from GeoJSON data, standing on the terrain when there is one
      */
-    private createTreeModel(): THREE.Group {
-        const tree = new THREE.Group();
-
-        // Trunk (cylinder)
-        const trunkHeight = 2.5 + Math.random() * 1.5; // Random height between 2.5-4m
-        const trunkRadius = 0.15 + Math.random() * 0.1; // Random radius between 0.15-0.25m
-        const trunkGeometry = new THREE.CylinderGeometry(trunkRadius, trunkRadius * 1.2, trunkHeight, 8);
-        const trunk = new THREE.Mesh(trunkGeometry, this.sharedMaterials.trunkMaterial);
-        trunk.position.y = trunkHeight / 2;
-        trunk.castShadow = true;
-        trunk.receiveShadow = true;
-        tree.add(trunk);
-
-        // Leaves (cone or multiple cones for more natural look)
-        const leavesHeight = trunkHeight * 0.8 + Math.random() * trunkHeight * 0.4;
-        const leavesRadius = leavesHeight * 0.6;
-        const leavesGeometry = new THREE.ConeGeometry(leavesRadius, leavesHeight, 8);
-        const leaves = new THREE.Mesh(leavesGeometry, this.sharedMaterials.leavesMaterial);
-        leaves.position.y = trunkHeight + leavesHeight / 2;
-        leaves.castShadow = true;
-        leaves.receiveShadow = true;
-        tree.add(leaves);
-        tree.scale.set(0.5, 0.5, 0.5);
-
-        // Add slight random rotation for variety
-        tree.rotation.y = Math.random() * Math.PI * 2;
-
-        return tree;
+    generateTreesFromGeoJSON(geoJSON: GeoJSON, centerLat: number, centerLon: number, terrain: Heightmap | null = null): void {
+        const placements = this.placeTrees(geoJSON, centerLat, centerLon, terrain);
+        this.createTrees(placements);
+        console.log(`Generated ${placements.length} trees`);
     }
 
     /**
-     * Generate trees from GeoJSON data
+     * Add the trees of one streamed tile
      */
-    generateTreesFromGeoJSON(geoJSON: GeoJSON, centerLat: number, centerLon: number): void {
-        let treesCreated = 0;
+    addTreeTile(key: string, geoJSON: GeoJSON, centerLat: number, centerLon: number, terrain: Heightmap | null = null): void {
+        this.removeTreeTile(key);
+        this.tiles.set(key, this.createTrees(this.placeTrees(geoJSON, centerLat, centerLon, terrain)));
+    }
+
+    /**
+     * Remove the trees of a tile and dispose their instance buffers
+     */
+    removeTreeTile(key: string): void {
+        const trees = this.tiles.get(key);
+        if (!trees) return;
+
+        const removed = new Set(trees);
+        trees.forEach(mesh => {
+            mesh.dispose();
+            this.treeGroup.remove(mesh);
+        });
+        this.trees = this.trees.filter(mesh => !removed.has(mesh));
+        this.tiles.delete(key);
+    }
+
+    /**
+     * Work out where each tree point stands and how its tree looks
+     */
+    private placeTrees(geoJSON: GeoJSON, centerLat: number, centerLon: number, terrain: Heightmap | null): TreePlacement[] {
+        const placements: TreePlacement[] = [];
 
         for (const feature of geoJSON.features) {
             if (feature.geometry.type === 'Point' && feature.geometry.coordinates.length >= 2) {
@@ -90,27 +157,148 @@ export class TreeGenerator {
                 // Convert to local coordinates
                 const local = this.latLonToLocal(lat, lon, centerLat, centerLon);
 
-                // Create tree model
-                const tree = this.createTreeModel();
-                tree.position.set(local.x, 0, local.z);
-
-                this.treeGroup.add(tree);
-                this.trees.push(tree);
-                treesCreated++;
+                const random = this.createRandom(this.getSeed(feature));
+                const shape = this.getShape(feature, random);
+                const [minHeight, maxHeight] = this.archetypes[shape].heightRange;
+                placements.push({
+                    x: local.x,
+                    y: terrain ? terrain.getHeight(local.x, local.z) : 0,
+                    z: local.z,
+                    shape,
+                    height: this.getTaggedHeight(feature) ?? minHeight + random() * (maxHeight - minHeight),
+                    rotation: random() * Math.PI * 2,
+                    crownScale: 0.85 + random() * 0.3,
+                    shade: 0.8 + random() * 0.3
+                });
             }
         }
 
-        console.log(`Generated ${treesCreated} trees`);
+        return placements;
+    }
+
+    /**
+     * Draw trees as instanced meshes: one for all trunks and one per crown shape
+     */
+    private createTrees(placements: TreePlacement[]): THREE.InstancedMesh[] {
+        if (placements.length === 0) return [];
+        const created: THREE.InstancedMesh[] = [];
+        const matrix = new THREE.Matrix4();
+        const rotation = new THREE.Quaternion();
+        const up = new THREE.Vector3(0, 1, 0);
+        const color = new THREE.Color();
+
+        const trunks = new THREE.InstancedMesh(this.trunkGeometry, this.sharedMaterials.trunkMaterial, placements.length);
+        placements.forEach((tree, index) => {
+            const archetype = this.archetypes[tree.shape];
+            const radius = tree.height * archetype.trunkRadius;
+            rotation.setFromAxisAngle(up, tree.rotation);
+            // Trunks reach into the crown so no gap shows beneath it
+            matrix.compose(new THREE.Vector3(tree.x, tree.y, tree.z), rotation, new THREE.Vector3(radius, tree.height * (archetype.trunkShare + 0.05), radius));
+            trunks.setMatrixAt(index, matrix);
+        });
+        created.push(trunks);
+
+        (Object.keys(this.crownGeometries) as TreeShape[]).forEach(shape => {
+            const trees = placements.filter(tree => tree.shape === shape);
+            if (trees.length === 0) return;
+
+            const archetype = this.archetypes[shape];
+            const crowns = new THREE.InstancedMesh(this.crownGeometries[shape], this.getCrownMaterial(shape), trees.length);
+            trees.forEach((tree, index) => {
+                const radius = tree.height * archetype.crownRadius * tree.crownScale;
+                const crownBase = tree.y + tree.height * archetype.trunkShare;
+                rotation.setFromAxisAngle(up, tree.rotation);
+                matrix.compose(new THREE.Vector3(tree.x, crownBase, tree.z), rotation, new THREE.Vector3(radius, tree.height * (1 - archetype.trunkShare), radius));
+                crowns.setMatrixAt(index, matrix);
+                crowns.setColorAt(index, color.setScalar(tree.shade));
+            });
+            created.push(crowns);
+        });
+
+        created.forEach(mesh => {
+            mesh.instanceMatrix.needsUpdate = true;
+            if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+            mesh.computeBoundingSphere();
+            mesh.castShadow = true;
+            mesh.receiveShadow = true;
+            this.treeGroup.add(mesh);
+            this.trees.push(mesh);
+        });
+
+        return created;
+    }
+
+    /**
+     * Shape of a tree from its genus or leaf type, or a seeded random pick
+     */
+    private getShape(feature: GeoJSONFeature, random: () => number): TreeShape {
+        const properties = feature.properties;
+        const names = [properties.genus, properties.species, properties.taxon]
+            .filter((name): name is string => typeof name === 'string')
+            .map(name => name.toLowerCase());
+        const isGenus = (genera: string[]) => names.some(name => genera.some(genus => name.startsWith(genus)));
+
+        if (isGenus(this.palmGenera)) return 'palm';
+        if (isGenus(this.coniferGenera)) return 'conifer';
+        if (properties.leaf_type === 'needleleaved') return 'conifer';
+        if (properties.leaf_type === 'broadleaved') return 'broadleaf';
+
+        const pick = random();
+        return pick < 0.6 ? 'broadleaf' : pick < 0.85 ? 'conifer' : 'palm';
+    }
+
+    /**
+     * Height from the `height` tag (metres, e.g. "12" or "12 m"); null when missing or implausible
+     */
+    private getTaggedHeight(feature: GeoJSONFeature): number | null {
+        const height = parseFloat(String(feature.properties.height ?? ''));
+        return height >= 1 && height <= 100 ? height : null;
+    }
+
+    private getCrownMaterial(shape: TreeShape): THREE.MeshStandardMaterial {
+        switch (shape) {
+            case 'palm':
+                return this.sharedMaterials.palmMaterial;
+            case 'conifer':
+                return this.sharedMaterials.coniferMaterial;
+            default:
+                return this.sharedMaterials.broadleafMaterial;
+        }
+    }
+
+    /**
+     * Seed for a tree's random variety: its OSM id (e.g. "node/252363250"), or its position
+     * when it has none
+     */
+    private getSeed(feature: GeoJSONFeature): number {
+        const id = feature.id ?? feature.properties['@id'] ?? feature.geometry.coordinates.join(',');
+        // FNV-1a hash of the id
+        let hash = 2166136261;
+        for (const character of String(id)) {
+            hash = Math.imul(hash ^ character.charCodeAt(0), 16777619);
+        }
+        return hash >>> 0;
+    }
+
+    /**
+     * Seeded random number generator (mulberry32), returning numbers in [0, 1)
+     */
+    private createRandom(seed: number): () => number {
+        let state = seed;
+        return () => {
+            state = (state + 0x6D2B79F5) | 0;
+            let t = Math.imul(state ^ (state >>> 15), 1 | state);
+            t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
     }
 
     /**
      * Clear all trees from the scene
      */
     clear(): void {
-        // Dispose of all tree meshes
-        this.trees.forEach(tree => {
-            this.disposeTree(tree);
-        });
+        // Release the instance buffers; the tree geometries and materials are shared
+        this.trees.forEach(mesh => mesh.dispose());
 
         // Remove all children from the group
         const children = [...this.treeGroup.children];
@@ -119,19 +307,6 @@ export class TreeGenerator {
         });
 
         this.trees = [];
-    }
-
-    /**
-     * Dispose of a tree's resources
-     */
-    private disposeTree(tree: THREE.Group): void {
-        tree.traverse((object) => {
-            if (object instanceof THREE.Mesh) {
-                if (object.geometry) {
-                    object.geometry.dispose();
-                }
-                // Don't dispose shared materials - they're reused
-            }
-        });
+        this.tiles.clear();
     }
 }
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as THREE from 'three';
+import { CityGeometryBuilder } from '../CityGeometryBuilder';
+import { MeshSerializer } from '../MeshSerializer';
+import { RoadGenerator } from '../RoadGenerator';
+import type { SerializedMesh } from '../MeshSerializer';
+import type { GeoJSON } from '@/types';
+import fixture from './fixtures/small-city.json';
+
+const roads = fixture.roads as unknown as GeoJSON;
+const buildings = fixture.buildings as unknown as GeoJSON;
+
+// Materials the road meshes of the fixture are drawn with
+const roadMaterialNames = ['roadMaterial', 'edgeLineMaterial', 'dashedLineMaterial'];
+
+function namedMaterials(names: string[]): Record<string, THREE.Material> {
+    return Object.fromEntries(names.map(name => {
+        const material = new THREE.MeshStandardMaterial();
+        material.name = name;
+        return [name, material];
+    }));
+}
+
+function vertexCounts(mesh: SerializedMesh): Record<string, number> {
+    return Object.fromEntries(Object.entries(mesh.geometry.attributes)
+        .map(([name, attribute]) => [name, attribute.array.length / attribute.itemSize]));
+}
+
+function serializedBox(): SerializedMesh {
+    const material = new THREE.MeshBasicMaterial();
+    material.name = 'box';
+    const root = new THREE.Group();
+    root.add(new THREE.Mesh(new THREE.BoxGeometry(), material));
+    return MeshSerializer.serialize(root, new Set())[0];
+}
+
+async function buildFixtureTile() {
+    // No Worker outside the browser, so the builder generates on this thread
+    const builder = new CityGeometryBuilder();
+    const layout = await builder.prepareCity(roads, buildings, 35.9, 14.4, 'right', null, 250);
+    const tile = await builder.buildTile('0,0');
+    builder.dispose();
+    return { layout, tile };
+}
+
+describe('CityGeometryBuilder', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('lays out the surface of every road', async () => {
+        const { layout } = await buildFixtureTile();
+
+        expect(layout.samples.length).toBeGreaterThan(0);
+        layout.samples.forEach(sample => {
+            expect(sample.points.length % 3).toBe(0);
+            expect(sample.halfWidth).toBeGreaterThan(0);
+        });
+        expect(layout.ways.map(way => way.name).sort()).toEqual(['Triq il-Kbira', 'Triq il-Knisja']);
+        layout.pieces.forEach(piece => expect(layout.ways[piece.wayIndex]).toBeDefined());
+    });
+
+    it('builds the same tiles from a cached road layout without laying the roads out again', async () => {
+        const { layout, tile } = await buildFixtureTile();
+        const prepareRoads = vi.spyOn(RoadGenerator.prototype, 'prepareRoadGeometry');
+
+        // Stored the way IndexedDB stores it
+        const cached = structuredClone(layout);
+        const builder = new CityGeometryBuilder();
+        await builder.prepareCity(roads, buildings, 35.9, 14.4, 'right', null, 250, cached);
+        const restored = await builder.buildTile('0,0');
+        builder.dispose();
+
+        expect(prepareRoads).not.toHaveBeenCalled();
+        expect(restored.roads.labels).toEqual(tile.roads.labels);
+        expect(restored.roads.roads.map(vertexCounts)).toEqual(tile.roads.roads.map(vertexCounts));
+        expect(restored.buildings.map(vertexCounts)).toEqual(tile.buildings.map(vertexCounts));
+    });
+
+    it('builds the roads, buildings, ground cover and labels of a tile', async () => {
+        const { tile } = await buildFixtureTile();
+
+        expect(tile.key).toBe('0,0');
+        expect(tile.reach).toEqual([]);
+        expect(tile.roads.roads.length).toBeGreaterThan(0);
+        expect(tile.roads.tunnels).toHaveLength(0);
+        expect(tile.roads.labels.map(label => label.name).sort()).toEqual(['Triq il-Kbira', 'Triq il-Knisja']);
+        tile.roads.roads.forEach(mesh => expect(roadMaterialNames).toContain(mesh.material));
+
+        // Both buildings are batched into one mesh
+        expect(tile.buildings).toHaveLength(1);
+        expect(tile.buildings[0].material).toBe('building');
+
+        // The field is drawn with its walls
+        expect(tile.landCover.map(mesh => mesh.material).sort()).toEqual(['farmland', 'wall']);
+    });
+
+    it('gives every vertex of a mesh all of its attributes', async () => {
+        const { tile } = await buildFixtureTile();
+
+        [...tile.roads.roads, ...tile.buildings, ...tile.landCover].forEach(mesh => {
+            const counts = Object.values(vertexCounts(mesh));
+            expect(counts[0]).toBeGreaterThan(0);
+            counts.forEach(count => expect(count).toBe(counts[0]));
+        });
+        expect(Object.keys(tile.buildings[0].geometry.attributes).sort())
+            .toEqual(['color', 'facade', 'featureId', 'normal', 'position', 'uv']);
+    });
+
+    it('lists the tiles a long road runs into', async () => {
+        // About 700 m east from the centre, so its middle is in tile 1,0
+        const longRoad: GeoJSON = {
+            type: 'FeatureCollection',
+            features: [{
+                type: 'Feature',
+                properties: { highway: 'primary' },
+                geometry: { type: 'LineString', coordinates: [[14.4001, 35.8995], [14.4079, 35.8995]] }
+            }]
+        };
+        const builder = new CityGeometryBuilder();
+        await builder.prepareCity(longRoad, null, 35.9, 14.4, 'right', null, 250);
+        const tile = await builder.buildTile('1,0');
+        builder.dispose();
+
+        expect(tile.roads.roads.length).toBeGreaterThan(0);
+        expect(tile.reach.sort()).toEqual(['0,0', '2,0']);
+    });
+
+    it('leaves nothing empty in a tile without content', async () => {
+        const builder = new CityGeometryBuilder();
+        await builder.prepareCity(roads, buildings, 35.9, 14.4, 'right', null, 250);
+        const tile = await builder.buildTile('5,5');
+        builder.dispose();
+
+        expect(tile.roads.roads).toHaveLength(0);
+        expect(tile.roads.labels).toHaveLength(0);
+        expect(tile.buildings).toHaveLength(0);
+        expect(tile.landCover).toHaveLength(0);
+    });
+});
+
+describe('MeshSerializer', () => {
+    it('restores the tile meshes with their attributes and materials', async () => {
+        const { tile } = await buildFixtureTile();
+        const serialized = [...tile.roads.roads, ...tile.buildings];
+
+        const meshes = MeshSerializer.deserialize(serialized, namedMaterials([...roadMaterialNames, 'building']));
+
+        expect(meshes).toHaveLength(serialized.length);
+        meshes.forEach((mesh, index) => {
+            const data = serialized[index];
+            expect((mesh.material as THREE.Material).name).toBe(data.material);
+            const counts = Object.fromEntries(Object.entries(mesh.geometry.attributes)
+                .map(([name, attribute]) => [name, attribute.count]));
+            expect(counts).toEqual(vertexCounts(data));
+            expect(mesh.geometry.index?.count).toBe(data.geometry.index?.length);
+        });
+    });
+
+    it('round-trips meshes, shared geometry and instances', () => {
+        const materials = namedMaterials(['box']);
+        const geometry = new THREE.BoxGeometry(2, 3, 4);
+        const root = new THREE.Group();
+        root.position.set(100, 0, 0);
+
+        const box = new THREE.Mesh(geometry, materials.box);
+        box.position.set(1, 2, 3);
+        box.castShadow = true;
+        box.userData.isRoadSurface = true;
+        const instances = new THREE.InstancedMesh(geometry, materials.box, 2);
+        instances.setMatrixAt(1, new THREE.Matrix4().makeTranslation(5, 0, 0));
+        root.add(box, instances);
+
+        const transfer = new Set<ArrayBuffer>();
+        const serialized = MeshSerializer.serialize(root, transfer);
+        expect(serialized).toHaveLength(2);
+        expect(serialized[0].geometry).toBe(serialized[1].geometry);
+        expect(transfer.size).toBeGreaterThan(0);
+
+        const [restoredBox, restoredInstances] = MeshSerializer.deserialize(serialized, materials);
+        expect(restoredBox.geometry).toBe(restoredInstances.geometry);
+        expect(restoredBox.geometry.getAttribute('position').count).toBe(geometry.getAttribute('position').count);
+        expect(restoredBox.geometry.getAttribute('uv').count).toBe(geometry.getAttribute('uv').count);
+        expect(restoredBox.geometry.index?.count).toBe(geometry.index?.count);
+        expect(restoredBox.geometry.groups).toHaveLength(geometry.groups.length);
+        expect(restoredBox.material).toBe(materials.box);
+        // Positions are relative to the serialized root
+        expect(restoredBox.position.toArray()).toEqual([1, 2, 3]);
+        expect(restoredBox.castShadow).toBe(true);
+        expect(restoredBox.userData.isRoadSurface).toBe(true);
+
+        expect(restoredInstances).toBeInstanceOf(THREE.InstancedMesh);
+        const matrix = new THREE.Matrix4();
+        (restoredInstances as THREE.InstancedMesh).getMatrixAt(1, matrix);
+        expect(new THREE.Vector3().setFromMatrixPosition(matrix).x).toBe(5);
+    });
+
+    it('refuses meshes without a named material', () => {
+        const root = new THREE.Group();
+        root.add(new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshBasicMaterial()));
+
+        expect(() => MeshSerializer.serialize(root, new Set())).toThrow();
+        expect(() => MeshSerializer.deserialize([{ ...serializedBox(), material: 'missing' }], {})).toThrow('Unknown material: missing');
+    });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { MeshBatcher } from '../MeshBatcher';
+
+/**
+ * Group of two 1 m boxes of features 3 and 7, side by side along x, with one material
+ */
+function twoFeatures(): THREE.Group {
+    const material = new THREE.MeshBasicMaterial();
+    const group = new THREE.Group();
+    [3, 7].forEach((featureId, index) => {
+        const box = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), material);
+        box.position.set(index * 5, 0, 0);
+        box.userData.featureId = featureId;
+        group.add(box);
+    });
+    return group;
+}
+
+/**
+ * Ray straight down onto a point
+ */
+function rayDown(x: number, z: number): THREE.Raycaster {
+    return new THREE.Raycaster(new THREE.Vector3(x, 10, z), new THREE.Vector3(0, -1, 0));
+}
+
+describe('MeshBatcher', () => {
+    it('merges meshes of one material and keeps their features', () => {
+        const group = twoFeatures();
+        const merged = MeshBatcher.batch(group);
+
+        expect(merged).toHaveLength(1);
+        expect(group.children).toEqual(merged);
+        expect(merged[0].geometry.getAttribute('featureId').count).toBe(48);
+    });
+
+    it('picks the feature of the face under a ray', () => {
+        const [mesh] = MeshBatcher.batch(twoFeatures());
+
+        expect(MeshBatcher.getFeatureId(rayDown(0, 0).intersectObject(mesh)[0])).toBe(3);
+        expect(MeshBatcher.getFeatureId(rayDown(5, 0).intersectObject(mesh)[0])).toBe(7);
+        expect(rayDown(2.5, 0).intersectObject(mesh)).toHaveLength(0);
+    });
+
+    it('extracts the triangles of one feature for highlighting', () => {
+        const [mesh] = MeshBatcher.batch(twoFeatures());
+
+        const geometry = MeshBatcher.extractFeature(mesh, 7)!;
+        geometry.computeBoundingBox();
+        // All 12 triangles of the second box, and nothing of the first
+        expect(geometry.getAttribute('position').count).toBe(36);
+        expect(geometry.boundingBox!.min.x).toBeCloseTo(4.5);
+        expect(geometry.boundingBox!.max.x).toBeCloseTo(5.5);
+
+        expect(MeshBatcher.extractFeature(mesh, 11)).toBeNull();
+    });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TileStreamer } from '../TileStreamer';
+import type { TileContent } from '../TileStreamer';
+import { TileGrid } from '../TileGrid';
+
+interface TestTile extends TileContent {
+    key: string;
+}
+
+/**
+ * A streamer over 100 m tiles loading within 100 m and unloading beyond 250 m
+ */
+function createStreamer(build: (key: string) => Promise<TestTile>) {
+    const loaded = new Set<string>();
+    const streamer = new TileStreamer<TestTile>(
+        new TileGrid(100),
+        build,
+        key => loaded.add(key),
+        key => loaded.delete(key),
+        100,
+        250
+    );
+    return { streamer, loaded };
+}
+
+// Let the tile queued by update finish building
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('TileStreamer', () => {
+    it('loads every tile within the load radius', async () => {
+        const { streamer, loaded } = createStreamer(async key => ({ key }));
+        const progress: number[] = [];
+
+        await streamer.loadAround({ x: 50, z: 50 }, fraction => progress.push(fraction));
+
+        expect(loaded.size).toBe(9);
+        expect(loaded.has('0,0')).toBe(true);
+        expect(progress[progress.length - 1]).toBe(1);
+    });
+
+    it('leaves out tiles that fail to build instead of failing the load', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const build = vi.fn(async (key: string) => {
+            if (key === '1,0') throw new Error('Out of memory');
+            return { key };
+        });
+        const { streamer, loaded } = createStreamer(build);
+
+        await expect(streamer.loadAround({ x: 50, z: 50 })).resolves.toBeUndefined();
+        expect(loaded.size).toBe(8);
+        expect(loaded.has('1,0')).toBe(false);
+
+        // Streaming goes on, without retrying the failed tile
+        build.mockClear();
+        streamer.update({ x: 150, z: 50 });
+        await settle();
+        expect(build).not.toHaveBeenCalledWith('1,0');
+        expect(warn).toHaveBeenCalledOnce();
+        warn.mockRestore();
+    });
+
+    it('unloads tiles beyond the unload radius', async () => {
+        const { streamer, loaded } = createStreamer(async key => ({ key }));
+        await streamer.loadAround({ x: 50, z: 50 });
+
+        streamer.update({ x: 450, z: 50 });
+
+        expect(loaded.has('-1,0')).toBe(false);
+        expect(loaded.has('1,0')).toBe(true);
+    });
+
+    it('keeps a tile while a tile its content reaches into is in range', async () => {
+        // A long road held by tile 0,0 runs east through tiles 1,0 to 4,0
+        const { streamer, loaded } = createStreamer(async key =>
+            key === '0,0' ? { key, reach: ['1,0', '2,0', '3,0', '4,0'] } : { key });
+        await streamer.loadAround({ x: 50, z: 50 });
+
+        streamer.update({ x: 450, z: 50 });
+        expect(loaded.has('0,0')).toBe(true);
+        expect(loaded.has('0,1')).toBe(false);
+
+        streamer.update({ x: 850, z: 50 });
+        expect(loaded.has('0,0')).toBe(false);
+    });
+
+    it('drops tiles still building for a city that was reset', async () => {
+        const pending: Array<() => void> = [];
+        const { streamer, loaded } = createStreamer(key => new Promise(resolve => {
+            pending.push(() => resolve({ key }));
+        }));
+
+        const loading = streamer.loadAround({ x: 50, z: 50 });
+        streamer.reset();
+        pending.forEach(finish => finish());
+        await loading;
+
+        expect(loaded.size).toBe(0);
+        expect(streamer.getLoadedTileCount()).toBe(0);
+    });
+});
@@ -0,0 +1,175 @@
+import { LocalProjection } from '@/utils/LocalProjection';
+import type { ElevationEncoding, ElevationMetadata } from '@/types';
+
+/**
+ * Extent of the height grid in local coordinates (outer edges of the edge cells)
+ */
+export interface HeightmapBounds {
+    minX: number;
+    maxX: number;
+    minZ: number; // North edge
+    maxZ: number; // South edge
+}
+
+/**
+ * A heightmap as plain data, to post to the geometry worker
+ */
+export interface TerrainData {
+    heights: Float32Array;
+    columns: number;
+    rows: number;
+    bounds: HeightmapBounds;
+}
+
+/**
+ * Ground height over a city from a DEM height grid, in meters relative to the ground at the
+ * city centre (so a flat city stays at 0). Heights are interpolated bilinearly between the
+ * grid cells; positions outside the grid take the height at its nearest edge.
+ * Loading decodes a PNG-encoded grid; everything else is pure data, no Three.js dependency.
+ */
+export class Heightmap {
+    private minHeight: number = Infinity;
+    private maxHeight: number = -Infinity;
+    private readonly cellWidth: number;
+    private readonly cellDepth: number;
+
+    /**
+     * @param heights Absolute heights (meters), row by row starting at the north edge
+     */
+    constructor(
+        private heights: Float32Array,
+        readonly columns: number,
+        readonly rows: number,
+        private bounds: HeightmapBounds
+    ) {
+        this.cellWidth = (bounds.maxX - bounds.minX) / columns;
+        this.cellDepth = (bounds.maxZ - bounds.minZ) / rows;
+
+        // Heights are kept relative to the city centre (local origin)
+        const datum = this.sample(0, 0);
+        for (let i = 0; i < heights.length; i++) {
+            heights[i] -= datum;
+            this.minHeight = Math.min(this.minHeight, heights[i]);
+            this.maxHeight = Math.max(this.maxHeight, heights[i]);
+        }
+    }
+
+    /**
+     * Load a city's elevation grid from its metadata file. Resolves to null when the city has
+     * no elevation data.
+     */
+    static async load(metadataUrl: string, centerLat: number, centerLon: number): Promise<Heightmap | null> {
+        const response = await fetch(metadataUrl);
+        // The dev server answers missing files with the app page rather than a 404
+        if (!response.ok || !response.headers.get('content-type')?.includes('json')) return null;
+        const metadata: ElevationMetadata = await response.json();
+
+        const imageUrl = metadataUrl.slice(0, metadataUrl.lastIndexOf('/') + 1) + metadata.image;
+        const imageResponse = await fetch(imageUrl);
+        if (!imageResponse.ok) {
+            throw new Error(`Failed to load ${metadata.image}: ${imageResponse.status}`);
+        }
+
+        // Read the raw channel values; colour management would alter the encoded heights
+        const bitmap = await createImageBitmap(await imageResponse.blob(), {
+            colorSpaceConversion: 'none',
+            premultiplyAlpha: 'none'
+        });
+        const canvas = document.createElement('canvas');
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+        const context = canvas.getContext('2d', { willReadFrequently: true })!;
+        context.drawImage(bitmap, 0, 0);
+        const { data } = context.getImageData(0, 0, bitmap.width, bitmap.height);
+        bitmap.close();
+
+        return Heightmap.fromRGBA(data, canvas.width, canvas.height, metadata, centerLat, centerLon);
+    }
+
+    /**
+     * Decode an RGBA pixel grid with heights packed into its colour channels
+     */
+    static fromRGBA(
+        pixels: Uint8ClampedArray,
+        columns: number,
+        rows: number,
+        metadata: ElevationMetadata,
+        centerLat: number,
+        centerLon: number
+    ): Heightmap {
+        const heights = new Float32Array(columns * rows);
+        const decode = Heightmap.getDecoder(metadata.encoding ?? 'terrain-rgb');
+        for (let i = 0; i < heights.length; i++) {
+            heights[i] = decode(pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2]);
+        }
+
+        const { west, south, east, north } = metadata.bounds;
+        const northWest = LocalProjection.toLocal(north, west, centerLat, centerLon);
+        const southEast = LocalProjection.toLocal(south, east, centerLat, centerLon);
+        return new Heightmap(heights, columns, rows, {
+            minX: northWest.x,
+            maxX: southEast.x,
+            minZ: northWest.z,
+            maxZ: southEast.z
+        });
+    }
+
+    /**
+     * Ground height at a local position (meters above the ground at the city centre)
+     */
+    getHeight(x: number, z: number): number {
+        return this.sample(x, z);
+    }
+
+    getMinHeight(): number {
+        return this.minHeight;
+    }
+
+    getMaxHeight(): number {
+        return this.maxHeight;
+    }
+
+    getBounds(): HeightmapBounds {
+        return { ...this.bounds };
+    }
+
+    /**
+     * Heights relative to the city centre, row by row from the north edge. A heightmap built
+     * from them is the same as this one, since their datum is already 0.
+     */
+    getHeights(): Float32Array {
+        return this.heights;
+    }
+
+    /**
+     * Bilinear interpolation between the centres of the four nearest cells
+     */
+    private sample(x: number, z: number): number {
+        const u = Math.max(0, Math.min(this.columns - 1, (x - this.bounds.minX) / this.cellWidth - 0.5));
+        const v = Math.max(0, Math.min(this.rows - 1, (z - this.bounds.minZ) / this.cellDepth - 0.5));
+        const column = Math.min(Math.floor(u), this.columns - 2);
+        const row = Math.min(Math.floor(v), this.rows - 2);
+        if (column < 0 || row < 0) {
+            // Single row or column grids
+            return this.heights[Math.round(v) * this.columns + Math.round(u)];
+        }
+
+        const tu = u - column;
+        const tv = v - row;
+        const index = row * this.columns + column;
+        const north = this.heights[index] + (this.heights[index + 1] - this.heights[index]) * tu;
+        const south = this.heights[index + this.columns] + (this.heights[index + this.columns + 1] - this.heights[index + this.columns]) * tu;
+        return north + (south - north) * tv;
+    }
+
+    /**
+     * Height (meters) from the RGB channels of an elevation pixel
+     */
+    private static getDecoder(encoding: ElevationEncoding): (r: number, g: number, b: number) => number {
+        if (encoding === 'terrarium') {
+            return (r, g, b) => r * 256 + g + b / 256 - 32768;
+        }
+        // Mapbox Terrain-RGB: 0.1 m steps from -10 km
+        return (r, g, b) => -10000 + (r * 65536 + g * 256 + b) * 0.1;
+    }
+}
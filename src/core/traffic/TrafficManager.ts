@@ -0,0 +1,377 @@
+import * as THREE from 'three';
+import { TrafficVehicle } from './TrafficVehicle';
+import type { TrafficVehicleGeometries, TrafficVehicleMaterials } from './TrafficVehicle';
+import { RoadDimensions } from '../network/RoadDimensions';
+import { RoutePlanner } from '../navigation/RoutePlanner';
+import { RoadElevation } from '../network/RoadElevation';
+import type { RoadNetwork, RoadEdge, EdgeQueryResult } from '../network/RoadNetwork';
+import type { RoadPoint, DrivingSide, RoadHeightProvider } from '@/types';
+
+export interface TrafficOptions {
+    maxVehicles: number;
+    spawnRadius: number; // meters around the player where cars may appear
+    minSpawnDistance: number; // meters; cars never pop in closer than this
+    despawnRadius: number; // meters; cars further away are removed
+    drivingSide: DrivingSide;
+}
+
+export interface TrafficPlayerState {
+    position: RoadPoint;
+    heading: RoadPoint; // Unit forward direction
+    speed: number; // km/h
+}
+
+/**
+ * Spawns AI cars around the player and drives them along the road network:
+ * they keep to their lane, follow one-way restrictions, pick turns at intersections
+ * and keep a safe gap to the vehicle ahead (including the player).
+ */
+export class TrafficManager {
+    private vehicles: TrafficVehicle[] = [];
+    private trafficGroup: THREE.Group;
+    private planner: RoutePlanner;
+    private options: TrafficOptions;
+    private spawnCandidates: EdgeQueryResult[] = [];
+    private timeSinceCandidateRefresh: number = Infinity;
+
+    // Car-following model (Intelligent Driver Model) parameters
+    private readonly maxAcceleration = 2.0; // m/s^2
+    private readonly comfortableDeceleration = 3.0; // m/s^2
+    private readonly maxDeceleration = 9.0; // m/s^2
+    private readonly minimumGap = 2.5; // meters, bumper to bumper when stopped
+    private readonly timeHeadway = 1.3; // seconds
+    private readonly lookAheadDistance = 45; // meters
+    private readonly maxCruiseSpeed = 60; // km/h cap for AI drivers in town
+
+    private sharedGeometries: TrafficVehicleGeometries = {
+        body: new THREE.BoxGeometry(1.15, 0.5, 2.6),
+        cabin: new THREE.BoxGeometry(1.0, 0.38, 1.35),
+        light: new THREE.BoxGeometry(0.22, 0.1, 0.02)
+    };
+
+    private sharedMaterials = {
+        bodyMaterials: [0xd32f2f, 0x1976d2, 0xf5f5f5, 0x212121, 0x9e9e9e, 0x388e3c, 0xfbc02d, 0x5d4037].map(color =>
+            new THREE.MeshStandardMaterial({ color, roughness: 0.5, metalness: 0.3 })
+        ),
+        cabinMaterial: new THREE.MeshStandardMaterial({ color: 0x263238, roughness: 0.2, metalness: 0.5 }),
+        brakeLightOff: new THREE.MeshStandardMaterial({ color: 0x661111 }),
+        brakeLightOn: new THREE.MeshStandardMaterial({ color: 0xff2222, emissive: 0xff0000, emissiveIntensity: 1.2 })
+    };
+
+    constructor(
+        private scene: THREE.Scene,
+        private network: RoadNetwork,
+        options: Partial<TrafficOptions> = {},
+        private roadHeight: RoadHeightProvider = () => 0
+    ) {
+        this.options = {
+            maxVehicles: 20,
+            spawnRadius: 220,
+            minSpawnDistance: 60,
+            despawnRadius: 300,
+            drivingSide: 'right',
+            ...options
+        };
+        this.planner = new RoutePlanner(network);
+        this.trafficGroup = new THREE.Group();
+        this.scene.add(this.trafficGroup);
+    }
+
+    setMaxVehicles(count: number): void {
+        this.options.maxVehicles = Math.max(0, Math.floor(count));
+        // Remove surplus cars straight away
+        while (this.vehicles.length > this.options.maxVehicles) {
+            this.removeVehicle(this.vehicles[this.vehicles.length - 1]);
+        }
+    }
+
+    getMaxVehicles(): number {
+        return this.options.maxVehicles;
+    }
+
+    getVehicleCount(): number {
+        return this.vehicles.length;
+    }
+
+    getVehicles(): readonly TrafficVehicle[] {
+        return this.vehicles;
+    }
+
+    update(delta: number, player: TrafficPlayerState): void {
+        // Avoid huge steps after tab switches
+        const dt = Math.min(delta, 0.1);
+
+        this.despawnDistantVehicles(player.position);
+        this.spawnVehicles(dt, player.position);
+
+        // Decide accelerations first so every car reacts to the same snapshot
+        const accelerations = this.vehicles.map(vehicle => this.computeAcceleration(vehicle, player));
+
+        this.vehicles.slice().forEach((vehicle, index) => {
+            const acceleration = accelerations[index];
+            vehicle.speed = Math.max(0, vehicle.speed + acceleration * dt);
+            vehicle.setBraking(acceleration < -1 || vehicle.speed < 0.1);
+            vehicle.stuckTime = vehicle.speed < 0.1 ? vehicle.stuckTime + dt : 0;
+
+            if (!this.advanceVehicle(vehicle, vehicle.speed * dt)) {
+                this.removeVehicle(vehicle);
+                return;
+            }
+            this.updateVehiclePose(vehicle, dt);
+        });
+    }
+
+    /**
+     * Intelligent Driver Model acceleration towards the cruise speed, limited by the
+     * gap to whatever is ahead and by upcoming turns
+     */
+    private computeAcceleration(vehicle: TrafficVehicle, player: TrafficPlayerState): number {
+        const desiredSpeed = this.getDesiredSpeed(vehicle);
+        const speed = vehicle.speed;
+
+        let acceleration = this.maxAcceleration * (1 - Math.pow(speed / Math.max(desiredSpeed, 0.1), 4));
+
+        const leader = this.findLeader(vehicle, player);
+        if (leader) {
+            const approachRate = speed - leader.speed;
+            const desiredGap = this.minimumGap + Math.max(0,
+                speed * this.timeHeadway + (speed * approachRate) / (2 * Math.sqrt(this.maxAcceleration * this.comfortableDeceleration))
+            );
+            const gap = Math.max(0.1, leader.gap);
+            acceleration -= this.maxAcceleration * Math.pow(desiredGap / gap, 2);
+        }
+
+        return Math.max(-this.maxDeceleration, acceleration);
+    }
+
+    /**
+     * Cruise speed (m/s) for the current edge, reduced when approaching a sharp turn
+     */
+    private getDesiredSpeed(vehicle: TrafficVehicle): number {
+        const limit = Math.min(this.planner.getTravelSpeed(vehicle.edge), this.maxCruiseSpeed);
+        let desired = (limit / 3.6) * vehicle.cruiseFactor;
+
+        if (vehicle.nextEdge) {
+            const turnAngle = this.getTurnAngle(vehicle.edge, vehicle.nextEdge);
+            const turnSpeed = turnAngle > 120 ? 2.5 : turnAngle > 60 ? 4.5 : turnAngle > 25 ? 7 : Infinity;
+            if (turnSpeed < desired) {
+                // Speed from which the car can still slow down to the turn speed in time
+                const distanceToTurn = Math.max(0, vehicle.edge.length - vehicle.distanceAlong);
+                const approachSpeed = Math.sqrt(turnSpeed * turnSpeed + 2 * this.comfortableDeceleration * distanceToTurn);
+                desired = Math.min(desired, approachSpeed);
+            }
+        }
+
+        return desired;
+    }
+
+    /**
+     * Closest vehicle (AI or player) in this car's lane ahead, as a bumper-to-bumper gap
+     */
+    private findLeader(vehicle: TrafficVehicle, player: TrafficPlayerState): { gap: number; speed: number; } | null {
+        const direction = vehicle.getDirection();
+        let best: { gap: number; speed: number; } | null = null;
+
+        const consider = (x: number, z: number, otherDirection: RoadPoint, otherSpeed: number, laneHalfWidth: number, sameDirectionOnly: boolean): void => {
+            const dx = x - vehicle.position.x;
+            const dz = z - vehicle.position.z;
+            const forward = dx * direction.x + dz * direction.z;
+            if (forward <= 0 || forward > this.lookAheadDistance) return;
+            const lateral = Math.abs(dx * direction.z - dz * direction.x);
+            if (lateral > laneHalfWidth) return;
+
+            const alignment = otherDirection.x * direction.x + otherDirection.z * direction.z;
+            // Crossing or oncoming AI traffic is in another lane; only queue behind cars going our way
+            if (sameDirectionOnly && alignment < 0.3) return;
+
+            const gap = forward - vehicle.length;
+            if (!best || gap < best.gap) {
+                best = { gap, speed: Math.max(0, otherSpeed * alignment) };
+            }
+        };
+
+        this.vehicles.forEach(other => {
+            if (other === vehicle) return;
+            consider(other.position.x, other.position.z, other.getDirection(), other.speed, 1.3, true);
+        });
+
+        // Always brake for the player, whichever way they are facing
+        consider(player.position.x, player.position.z, player.heading, Math.abs(player.speed) / 3.6, 1.6, false);
+
+        return best;
+    }
+
+    /**
+     * Move a vehicle along its path, switching edges at intersections.
+     * Returns false if the vehicle has nowhere left to go.
+     */
+    private advanceVehicle(vehicle: TrafficVehicle, distance: number): boolean {
+        vehicle.distanceAlong += distance;
+
+        while (vehicle.distanceAlong > vehicle.edge.length) {
+            const next = vehicle.nextEdge ?? this.chooseNextEdge(vehicle.edge);
+            if (!next) return false;
+            vehicle.distanceAlong -= vehicle.edge.length;
+            vehicle.edge = next;
+            vehicle.nextEdge = this.chooseNextEdge(next);
+        }
+
+        return true;
+    }
+
+    /**
+     * Pick the edge to take at the end of the current one, preferring to go straight on.
+     * Only outgoing edges are considered, so one-way streets are never entered the wrong way.
+     */
+    private chooseNextEdge(edge: RoadEdge): RoadEdge | null {
+        const options = this.network.getOutgoingEdges(edge.to).filter(candidate => candidate.id !== edge.twinId);
+        if (options.length === 0) {
+            // Dead end: turn around if the road is two-way
+            return edge.twinId !== null ? this.network.getEdge(edge.twinId) ?? null : null;
+        }
+
+        const weights = options.map(candidate => {
+            const turnAngle = this.getTurnAngle(edge, candidate);
+            return 0.4 + Math.max(0, Math.cos(turnAngle * Math.PI / 180));
+        });
+        const total = weights.reduce((sum, weight) => sum + weight, 0);
+        let pick = Math.random() * total;
+        for (let i = 0; i < options.length; i++) {
+            pick -= weights[i];
+            if (pick <= 0) return options[i];
+        }
+        return options[options.length - 1];
+    }
+
+    /**
+     * Absolute change of direction (degrees) between the end of one edge and the start of the next
+     */
+    private getTurnAngle(from: RoadEdge, to: RoadEdge): number {
+        const incoming = this.network.getPointAlongEdge(from, from.length).direction;
+        const outgoing = this.network.getPointAlongEdge(to, 0).direction;
+        const dot = Math.max(-1, Math.min(1, incoming.x * outgoing.x + incoming.z * outgoing.z));
+        return Math.acos(dot) * 180 / Math.PI;
+    }
+
+    /**
+     * Lateral offset (meters to the right of the centreline) of the lane a car drives in
+     */
+    private getLaneOffset(edge: RoadEdge): number {
+        return RoadDimensions.getLaneOffset(edge.properties.highway, edge.properties.lanes, edge.twinId !== null, this.options.drivingSide);
+    }
+
+    private updateVehiclePose(vehicle: TrafficVehicle, dt: number): void {
+        const { point, direction } = this.network.getPointAlongEdge(vehicle.edge, vehicle.distanceAlong);
+
+        // Ease between lane offsets and headings so edge changes don't snap
+        const targetOffset = this.getLaneOffset(vehicle.edge);
+        vehicle.laneOffset += (targetOffset - vehicle.laneOffset) * Math.min(1, dt * 3);
+
+        const targetHeading = Math.atan2(direction.x, direction.z);
+        let headingDelta = targetHeading - vehicle.heading;
+        while (headingDelta > Math.PI) headingDelta -= Math.PI * 2;
+        while (headingDelta < -Math.PI) headingDelta += Math.PI * 2;
+        const heading = vehicle.heading + headingDelta * Math.min(1, dt * 8);
+
+        // Right of travel direction (dx, dz) is (-dz, dx)
+        const x = point.x - direction.z * vehicle.laneOffset;
+        const z = point.z + direction.x * vehicle.laneOffset;
+        vehicle.setPose(x, z, heading, this.roadHeight({ x, z }, vehicle.position.y));
+    }
+
+    private spawnVehicles(dt: number, playerPosition: RoadPoint): void {
+        if (this.vehicles.length >= this.options.maxVehicles) return;
+
+        // Refresh the list of nearby edges once a second rather than every frame
+        this.timeSinceCandidateRefresh += dt;
+        if (this.timeSinceCandidateRefresh >= 1) {
+            this.timeSinceCandidateRefresh = 0;
+            this.spawnCandidates = this.network.findEdgesWithinRadius(playerPosition.x, playerPosition.z, this.options.spawnRadius)
+                .filter(candidate => candidate.edge.length > 10);
+        }
+        if (this.spawnCandidates.length === 0) return;
+
+        // A few attempts per frame keeps the cost per frame bounded
+        for (let attempt = 0; attempt < 3 && this.vehicles.length < this.options.maxVehicles; attempt++) {
+            const candidate = this.spawnCandidates[Math.floor(Math.random() * this.spawnCandidates.length)];
+            const edge = candidate.edge;
+            const distanceAlong = Math.random() * edge.length;
+            const { point } = this.network.getPointAlongEdge(edge, distanceAlong);
+
+            const distanceToPlayer = Math.hypot(point.x - playerPosition.x, point.z - playerPosition.z);
+            if (distanceToPlayer < this.options.minSpawnDistance || distanceToPlayer > this.options.spawnRadius) continue;
+            const occupied = this.vehicles.some(other =>
+                Math.hypot(other.position.x - point.x, other.position.z - point.z) < 15
+            );
+            if (occupied) continue;
+
+            this.addVehicle(edge, distanceAlong);
+        }
+    }
+
+    private addVehicle(edge: RoadEdge, distanceAlong: number): void {
+        const bodyMaterials = this.sharedMaterials.bodyMaterials;
+        const materials: TrafficVehicleMaterials = {
+            body: bodyMaterials[Math.floor(Math.random() * bodyMaterials.length)],
+            cabin: this.sharedMaterials.cabinMaterial,
+            brakeLightOff: this.sharedMaterials.brakeLightOff,
+            brakeLightOn: this.sharedMaterials.brakeLightOn
+        };
+
+        const vehicle = new TrafficVehicle(edge, distanceAlong, this.sharedGeometries, materials);
+        vehicle.nextEdge = this.chooseNextEdge(edge);
+        vehicle.laneOffset = this.getLaneOffset(edge);
+        vehicle.speed = (Math.min(this.planner.getTravelSpeed(edge), this.maxCruiseSpeed) / 3.6) * vehicle.cruiseFactor * 0.5;
+
+        const { point, direction } = this.network.getPointAlongEdge(edge, distanceAlong);
+        const x = point.x - direction.z * vehicle.laneOffset;
+        const z = point.z + direction.x * vehicle.laneOffset;
+        // Start on the deck when spawning on a bridge (deck heights are above the ground under it)
+        const ground = this.roadHeight({ x, z }, -Infinity);
+        vehicle.setPose(x, z, Math.atan2(direction.x, direction.z), this.roadHeight({ x, z }, ground + RoadElevation.getDeckHeight(edge.properties)));
+
+        this.vehicles.push(vehicle);
+        this.trafficGroup.add(vehicle.mesh);
+    }
+
+    private despawnDistantVehicles(playerPosition: RoadPoint): void {
+        this.vehicles.slice().forEach(vehicle => {
+            const distance = Math.hypot(vehicle.position.x - playerPosition.x, vehicle.position.z - playerPosition.z);
+            // Also recycle cars that have been stuck for a long time out of the player's way
+            const stuck = vehicle.stuckTime > 30 && distance > this.options.minSpawnDistance;
+            if (distance > this.options.despawnRadius || stuck) {
+                this.removeVehicle(vehicle);
+            }
+        });
+    }
+
+    private removeVehicle(vehicle: TrafficVehicle): void {
+        const index = this.vehicles.indexOf(vehicle);
+        if (index !== -1) {
+            this.vehicles.splice(index, 1);
+        }
+        this.trafficGroup.remove(vehicle.mesh);
+    }
+
+    /**
+     * Remove all AI vehicles
+     */
+    clear(): void {
+        this.vehicles.slice().forEach(vehicle => this.removeVehicle(vehicle));
+        this.spawnCandidates = [];
+        this.timeSinceCandidateRefresh = Infinity;
+    }
+
+    /**
+     * Remove all vehicles and release shared GPU resources
+     */
+    dispose(): void {
+        this.clear();
+        this.scene.remove(this.trafficGroup);
+        Object.values(this.sharedGeometries).forEach(geometry => geometry.dispose());
+        this.sharedMaterials.bodyMaterials.forEach(material => material.dispose());
+        this.sharedMaterials.cabinMaterial.dispose();
+        this.sharedMaterials.brakeLightOff.dispose();
+        this.sharedMaterials.brakeLightOn.dispose();
+    }
+}
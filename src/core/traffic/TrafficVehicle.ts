@@ -0,0 +1,101 @@
+import * as THREE from 'three';
+import type { RoadEdge } from '../network/RoadNetwork';
+
+export interface TrafficVehicleMaterials {
+    body: THREE.Material;
+    cabin: THREE.Material;
+    brakeLightOff: THREE.Material;
+    brakeLightOn: THREE.Material;
+}
+
+export interface TrafficVehicleGeometries {
+    body: THREE.BufferGeometry;
+    cabin: THREE.BufferGeometry;
+    light: THREE.BufferGeometry;
+}
+
+/**
+ * A single AI car: its position along the road network and a low-poly proxy mesh.
+ * Movement decisions are made by TrafficManager; the vehicle only holds state and draws itself.
+ */
+export class TrafficVehicle {
+    readonly mesh: THREE.Group;
+    readonly length = 2.6; // meters, matches the player car
+    readonly width = 1.15;
+
+    edge: RoadEdge;
+    nextEdge: RoadEdge | null = null;
+    distanceAlong: number; // meters from the start of the current edge
+    speed: number = 0; // m/s
+    cruiseFactor: number; // Fraction of the speed limit this driver likes to travel at
+    laneOffset: number = 0; // Current lateral offset from the centreline (meters, positive = right)
+    stuckTime: number = 0; // Seconds spent stationary
+
+    position: THREE.Vector3 = new THREE.Vector3();
+    heading: number = 0; // Yaw in radians (0 = +Z)
+
+    private brakeLights: THREE.Mesh[] = [];
+    private isBraking: boolean = false;
+
+    constructor(
+        edge: RoadEdge,
+        distanceAlong: number,
+        geometries: TrafficVehicleGeometries,
+        private materials: TrafficVehicleMaterials
+    ) {
+        this.edge = edge;
+        this.distanceAlong = distanceAlong;
+        this.cruiseFactor = 0.8 + Math.random() * 0.25;
+        this.mesh = this.createMesh(geometries);
+    }
+
+    private createMesh(geometries: TrafficVehicleGeometries): THREE.Group {
+        const group = new THREE.Group();
+
+        const body = new THREE.Mesh(geometries.body, this.materials.body);
+        body.position.y = 0.42;
+        body.castShadow = true;
+        group.add(body);
+
+        const cabin = new THREE.Mesh(geometries.cabin, this.materials.cabin);
+        cabin.position.set(0, 0.82, -0.15);
+        cabin.castShadow = true;
+        group.add(cabin);
+
+        // Brake lights on the rear face (vehicle faces +Z)
+        [-0.4, 0.4].forEach(x => {
+            const light = new THREE.Mesh(geometries.light, this.materials.brakeLightOff);
+            light.position.set(x, 0.5, -this.length / 2 - 0.01);
+            group.add(light);
+            this.brakeLights.push(light);
+        });
+
+        return group;
+    }
+
+    /**
+     * Place the mesh at a world position and yaw (y is the road surface height)
+     */
+    setPose(x: number, z: number, heading: number, y: number = 0): void {
+        this.position.set(x, y, z);
+        this.heading = heading;
+        this.mesh.position.copy(this.position);
+        this.mesh.rotation.y = heading;
+    }
+
+    setBraking(braking: boolean): void {
+        if (braking === this.isBraking) return;
+        this.isBraking = braking;
+        const material = braking ? this.materials.brakeLightOn : this.materials.brakeLightOff;
+        this.brakeLights.forEach(light => {
+            light.material = material;
+        });
+    }
+
+    /**
+     * Unit forward direction on the XZ plane
+     */
+    getDirection(): { x: number; z: number; } {
+        return { x: Math.sin(this.heading), z: Math.cos(this.heading) };
+    }
+}
@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import type { RoadHeightProvider } from '@/types';
 
 export class Car {
     private mesh: THREE.Group = new THREE.Group();
@@ -25,6 +26,15 @@ export class Car {
     private readonly maxBrakeDecel: number = 64.8; // km/h per s (converted from 18 m/s^2)
     private readonly maxReverseSpeed: number = 50.4; // km/h (converted from 14 m/s)
 
+    // Slope properties
+    private surfaceHeight: RoadHeightProvider | null = null;
+    private rideHeight: number = 0;
+    private pitch: number = 0; // radians, nose up positive
+    private fallSpeed: number = 0; // m/s, while dropping off a raised road
+    private readonly gravity: number = 9.81; // m/s^2
+    private readonly maxSurfaceDrop: number = 0.3; // meters followed down at once; bigger drops are a fall
+    private readonly rollAwayGrade: number = this.engineBraking / (this.gravity * 3.6); // Gentler slopes can't overcome engine braking, so a stopped car stays put
+
     // Drift/handbrake properties
     private handbrakeActive: boolean = false;
     private readonly driftSteeringMultiplier: number = 1.5; // More steering response during drift
@@ -179,7 +189,10 @@ export class Car {
         const engineBrake = Math.abs(throttle) < 0.05 ? this.engineBraking * speedSign : 0;
         const brakeDecel = speedSign !== 0 ? brake * this.maxBrakeDecel * speedSign : 0;
 
-        const netAccel = engineAccel - drag - rolling - engineBrake - brakeDecel;
+        // Gravity along the slope: slows the car uphill, speeds it up downhill
+        const slopeAccel = -this.gravity * Math.sin(this.pitch) * 3.6; // km/h per s
+
+        const netAccel = engineAccel - drag - rolling - engineBrake - brakeDecel + slopeAccel;
         this.speed += netAccel * delta;
 
         // Prevent brake from oscillating around zero speed
@@ -195,8 +208,8 @@ export class Car {
             this.speed = Math.max(this.speed, -this.maxReverseSpeed);
         }
 
-        // Stop very slow movement
-        if (Math.abs(this.speed) < 0.2 && Math.abs(throttle) < 0.05) {
+        // Stop very slow movement (unless the slope is steep enough to roll the car away)
+        if (Math.abs(this.speed) < 0.2 && Math.abs(throttle) < 0.05 && Math.abs(Math.sin(this.pitch)) < this.rollAwayGrade) {
             this.speed = 0;
         }
 
@@ -235,9 +248,12 @@ export class Car {
         const movement = direction.multiplyScalar(speedMps * delta);
         this.position.add(movement);
 
-        // Update mesh position and rotation
+        // Ride on the road or terrain surface
+        this.followSurface(delta);
+
+        // Update mesh position and rotation (yaw, then pitch along the slope)
         this.mesh.position.copy(this.position);
-        this.mesh.quaternion.copy(this.rotation);
+        this.updateMeshRotation();
 
         // Animate wheels (rotate when moving)
         if (this.gltfWheelSpinMeshes.length > 0) {
@@ -264,6 +280,50 @@ export class Car {
         }
     }
 
+    /**
+     * Keep the car at its ride height above the surface, pitched between the surface heights
+     * under the front and rear axles. When the surface drops away (driving off a bridge) the
+     * car falls until it lands.
+     */
+    private followSurface(delta: number): void {
+        if (!this.surfaceHeight) return;
+
+        const surface = this.position.y - this.rideHeight;
+        const axle = this.getDirection().multiplyScalar(this.wheelBase / 2);
+        const front = this.surfaceHeight({ x: this.position.x + axle.x, z: this.position.z + axle.z }, surface);
+        const rear = this.surfaceHeight({ x: this.position.x - axle.x, z: this.position.z - axle.z }, surface);
+        const targetY = (front + rear) / 2 + this.rideHeight;
+
+        if (this.position.y - targetY > this.maxSurfaceDrop || (this.fallSpeed > 0 && this.position.y > targetY)) {
+            this.fallSpeed += this.gravity * delta;
+            this.position.y = Math.max(targetY, this.position.y - this.fallSpeed * delta);
+            return;
+        }
+
+        this.fallSpeed = 0;
+        this.position.y = targetY;
+        this.pitch = Math.atan2(front - rear, this.wheelBase);
+    }
+
+    private updateMeshRotation(): void {
+        // Rotating about local X by -pitch lifts the nose (+Z)
+        const pitchRotation = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), -this.pitch);
+        this.mesh.quaternion.copy(this.rotation).multiply(pitchRotation);
+    }
+
+    /**
+     * Height of the road or terrain surface under the car, used to follow slopes and bridge
+     * decks; the car's centre stays `rideHeight` above it. Null keeps the car at a fixed height.
+     */
+    setSurfaceHeightProvider(provider: RoadHeightProvider | null, rideHeight: number): void {
+        this.surfaceHeight = provider;
+        this.rideHeight = rideHeight;
+    }
+
+    getPitch(): number {
+        return this.pitch;
+    }
+
     setThrottle(value: number): void {
         this.throttleInput = Math.max(-1, Math.min(1, value));
     }
@@ -331,7 +391,7 @@ export class Car {
         // Reset rotation to default (facing forward/North)
         // y is rotation around Y-axis in radians
         this.rotation.setFromAxisAngle(new THREE.Vector3(0, 1, 0), y);
-        this.mesh.setRotationFromQuaternion(this.rotation);
+        this.updateMeshRotation();
         this.steeringAngle = 0;
     }
 
@@ -341,11 +401,33 @@ export class Car {
         this.brakeInput = 0;
     }
 
+    /**
+     * Apply a collision response: push the car out of the obstacle, scale its speed
+     * and yaw it along the obstacle surface for glancing hits
+     */
+    applyCollision(correctionX: number, correctionZ: number, speedFactor: number, yawDelta: number): void {
+        this.position.x += correctionX;
+        this.position.z += correctionZ;
+        this.speed *= THREE.MathUtils.clamp(speedFactor, 0, 1);
+        if (Math.abs(this.speed) < 0.5) {
+            this.speed = 0;
+        }
+
+        if (yawDelta !== 0) {
+            const rotationDelta = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), yawDelta);
+            this.rotation.multiply(rotationDelta);
+        }
+
+        this.mesh.position.copy(this.position);
+        this.updateMeshRotation();
+    }
+
     /**
      * Reset car physics state (speed, steering, etc.)
      */
     resetPhysics(): void {
         this.speed = 0;
+        this.fallSpeed = 0;
         this.throttleInput = 0;
         this.brakeInput = 0;
         this.steeringAngle = 0;
@@ -121,7 +121,18 @@ export class CarControls {
         return this.cameraZoomDistance;
     }
 
+    /**
+     * Whether a key event comes from a form field (e.g. the navigation search box)
+     */
+    private isTypingTarget(target: EventTarget | null): boolean {
+        return target instanceof HTMLInputElement ||
+            target instanceof HTMLTextAreaElement ||
+            target instanceof HTMLSelectElement;
+    }
+
     private handleKeyDown(e: KeyboardEvent): void {
+        if (this.isTypingTarget(e.target)) return;
+
         switch (e.key.toLowerCase()) {
             case 'w':
             case 'arrowup':
@@ -159,6 +170,7 @@ export class CarControls {
     }
 
     private handleKeyUp(e: KeyboardEvent): void {
+        // Key releases are never ignored so keys can't get stuck when focus moves into a field
         switch (e.key.toLowerCase()) {
             case 'w':
             case 'arrowup':
@@ -224,6 +236,14 @@ export class CarControls {
         this.currentSurface = surface || 'asphalt';
     }
 
+    /**
+     * Play a collision sound scaled by impact speed (km/h)
+     */
+    playImpactSound(impactSpeed: number): void {
+        if (!this.soundManager.getEnabled()) return;
+        this.roadSoundGenerator.playImpact(impactSpeed / 60);
+    }
+
     update(delta: number): void {
         // Smooth camera angles to reduce jank
         this.cameraAngle = THREE.MathUtils.damp(this.cameraAngle, this.cameraAngleTarget, this.cameraSmoothRate, delta);
@@ -41,19 +41,40 @@ export interface OSMNode {
     id: number;
     lat: number;
     lon: number;
+    tags?: {
+        [key: string]: string | undefined;
+    };
 }
 
 export interface OSMWay {
     type: 'way';
     id: number;
     nodes: number[];  // Array of node IDs
+    geometry?: Array<{ lat: number; lon: number; }>; // Inline node positions (Overpass "out geom")
     tags?: {
         highway?: string;
         [key: string]: string | undefined;
     };
 }
 
-export type OSMElement = OSMNode | OSMWay;
+export interface OSMRelationMember {
+    type: 'node' | 'way' | 'relation';
+    ref: number;
+    role: string; // 'outer' / 'inner' for multipolygon rings
+    geometry?: Array<{ lat: number; lon: number; }>; // Inline way positions (Overpass "out geom")
+}
+
+export interface OSMRelation {
+    type: 'relation';
+    id: number;
+    members: OSMRelationMember[];
+    tags?: {
+        type?: string;
+        [key: string]: string | undefined;
+    };
+}
+
+export type OSMElement = OSMNode | OSMWay | OSMRelation;
 
 export interface OSMData {
     elements: OSMElement[];
@@ -98,9 +119,177 @@ export interface MouseState {
     isDown: boolean;
 }
 
+export type DrivingSide = 'left' | 'right';
+
 export type SpeedUpdateCallback = (speed: number) => void;
 export type LoadCompleteCallback = () => void;
 
+// Stages of loading a city: downloading and parsing each data layer, then building its meshes
+export type LoadStage = 'fetching' | 'parsing' | 'roads' | 'tiles';
+
+export interface LoadProgress {
+    stage: LoadStage;
+    layer?: FeatureLayer; // Layer being fetched or parsed
+    loadedBytes?: number; // While fetching
+    totalBytes?: number; // While fetching; 0 when the server sends no length
+    fraction: number; // Progress of the whole city load (0-1)
+}
+
+export type LoadProgressCallback = (progress: LoadProgress) => void;
+
+// Navigation types
+export type RouteMode = 'shortest' | 'fastest';
+
+// How picking a destination on the map ended
+export type DestinationPickResult = 'routed' | 'no-route' | 'cancelled';
+
+export type ManoeuvreType =
+    | 'depart'
+    | 'continue'
+    | 'slight-left'
+    | 'left'
+    | 'sharp-left'
+    | 'slight-right'
+    | 'right'
+    | 'sharp-right'
+    | 'u-turn'
+    | 'arrive';
+
+export interface NavigationState {
+    destinationName: string;
+    mode: RouteMode;
+    instruction: string; // e.g. "In 120 m turn left onto Triq il-Kbira"
+    manoeuvre: ManoeuvreType;
+    roadName?: string; // Road the next manoeuvre leads onto
+    distanceToManoeuvre: number; // meters
+    remainingDistance: number; // meters
+    remainingTime: number; // seconds
+    offRoute: boolean;
+    arrived: boolean;
+}
+
+export type NavigationUpdateCallback = (state: NavigationState | null) => void;
+
+// Collision types
+export type ObstacleType = 'building' | 'tree';
+
+export interface CollisionEvent {
+    obstacle: ObstacleType;
+    position: RoadPoint; // Contact point in local coordinates
+    impactSpeed: number; // km/h at the moment of impact
+    impactAngle: number; // degrees from the obstacle surface normal (0 = head-on)
+}
+
+export type CollisionCallback = (event: CollisionEvent) => void;
+
+// Driver warning types (shown as overlays while the condition lasts)
+export type DriverWarningType = 'keep-left' | 'keep-right' | 'wrong-way' | 'roundabout-wrong-way';
+
+export interface DriverWarning {
+    type: DriverWarningType;
+    message: string; // e.g. "Keep left"
+    detail?: string;
+}
+
+export type WarningsUpdateCallback = (warnings: DriverWarning[]) => void;
+
+// Direction traffic travels around a roundabout, seen from above with north up
+export type Circulation = 'clockwise' | 'counterclockwise';
+
+export interface RoundaboutInfo {
+    center: RoadPoint; // Local coordinates
+    radius: number; // Outer edge of the circulating carriageway (meters)
+    circulation: Circulation;
+    name?: string;
+}
+
+// A rendered road's tags, as returned by road lookups
+export interface RoadInfo {
+    featureIndex: number; // Index of the road's feature in the city's road GeoJSON
+    name?: string;
+    highway: string;
+    surface: string;
+    lanes: number;
+    maxspeed?: string;
+}
+
+// A road found by a road lookup
+export interface RoadHit {
+    road: RoadInfo;
+    distance: number; // From the road's centreline (meters)
+    point: RoadPoint; // Nearest point on the centreline
+    height: number; // Height of the road surface there
+    elevated: boolean; // On a bridge or its ramp
+}
+
+// Traffic control nodes in the road data (OSM highway=traffic_signals, stop and give_way)
+export type TrafficControlType = 'traffic_signals' | 'stop' | 'give_way';
+
+// Light a traffic signal shows to its approach
+export type SignalPhase = 'green' | 'amber' | 'red';
+
+// Traffic rule violation types
+export type ViolationType = 'speeding' | 'wrong-way' | 'off-road' | 'wrong-side' | 'red-light' | 'stop-sign';
+export type ViolationSeverity = 'minor' | 'major' | 'severe';
+
+export interface TrafficViolation {
+    type: ViolationType;
+    severity: ViolationSeverity;
+    message: string; // e.g. "Speeding: 62 km/h in a 50 km/h zone"
+    position: RoadPoint; // Car position in local coordinates
+    roadName?: string;
+    speed: number; // km/h at the time of the violation
+    speedLimit?: number; // km/h, for speeding violations
+    time: number; // Seconds since the rule engine started
+}
+
+export type ViolationCallback = (violation: TrafficViolation) => void;
+
+// Legal limit (km/h) on the road under the car, null when off-road
+export type SpeedLimitUpdateCallback = (speedLimit: number | null) => void;
+
+// Height of the road surface at a position; nearHeight picks the level where roads cross
+export type RoadHeightProvider = (position: RoadPoint, nearHeight: number) => number;
+
+// How the heights of an elevation image are packed into its RGB channels
+export type ElevationEncoding = 'terrain-rgb' | 'terrarium';
+
+// Metadata of a city's elevation grid (public/data/elevation/<city>.json)
+export interface ElevationMetadata {
+    image: string; // PNG height grid, relative to the metadata file
+    bounds: { west: number; south: number; east: number; north: number; }; // Outer edges of the grid (degrees)
+    encoding?: ElevationEncoding; // Default 'terrain-rgb'
+}
+
+// Data layers a city can provide, each loaded from public/data/<layer>/<city file>
+export type CityLayer = 'roads' | 'buildings' | 'trees' | 'elevation';
+
+// Layers held as GeoJSON feature collections (everything but the elevation grid)
+export type FeatureLayer = Exclude<CityLayer, 'elevation'>;
+
+// A road or building found under the pointer, by its index in the layer's GeoJSON
+export interface PickedFeature {
+    layer: 'roads' | 'buildings';
+    featureId: number;
+}
+
+// Entry of the city registry (public/data/cities.json), keyed by city id
+export interface CityManifestEntry {
+    name: string;
+    center: { lat: number; lon: number; }; // Origin of the local coordinates
+    drivingSide: DrivingSide;
+    countryCode: string; // ISO 3166-1 alpha-2
+    speedLimits?: Record<string, number>; // Default limits (km/h) per limit zone (urban, rural, motorway, living_street)
+    layers: CityLayer[]; // Must include 'roads'
+    file?: string; // Data file name in each layer folder, default '<id>.json'
+    version?: string | number; // Data version; change it when the files change. Only versioned data is cached locally
+    thumbnail?: string; // Image shown in the city menu, relative to public/data/
+}
+
+export interface CityManifest {
+    cities: Record<string, CityManifestEntry>;
+}
+
 // Generic GeoJSON types (can be used for other cities too)
 export interface GeoJSONPoint {
     type: 'Point';
@@ -117,7 +306,12 @@ export interface GeoJSONPolygon {
     coordinates: Array<Array<[number, number]>>;
 }
 
-export type GeoJSONGeometry = GeoJSONPoint | GeoJSONLineString | GeoJSONPolygon;
+export interface GeoJSONMultiPolygon {
+    type: 'MultiPolygon';
+    coordinates: Array<Array<Array<[number, number]>>>; // Polygons, each an outer ring followed by its holes
+}
+
+export type GeoJSONGeometry = GeoJSONPoint | GeoJSONLineString | GeoJSONPolygon | GeoJSONMultiPolygon;
 
 export interface GeoJSONFeature {
     type: 'Feature';
@@ -0,0 +1,34 @@
+import { LocalDatabase } from './LocalDatabase';
+import type { GeoJSON } from '@/types';
+
+interface CachedCityData<T> {
+    key: string; // Data file path, e.g. 'roads/rabat.json', or 'layout/rabat.json' for its road layout
+    version: string;
+    data: T;
+}
+
+/**
+ * Parsed (and converted) city data files, and the road layouts prepared from them, kept in
+ * IndexedDB, so loading a city again skips the download, the parsing and laying out the
+ * roads. Entries are keyed by file and only used while the city's data version matches.
+ *
+ * Built tiles are not cached: the tile meshes are many times the size of the source data,
+ * so storing them would cost more quota than the tile builds they save.
+ */
+export class CityDataCache {
+    /**
+     * Cached data for a file, or null when it isn't cached at this version
+     */
+    static async get<T = GeoJSON>(key: string, version: string): Promise<T | null> {
+        const entry = await LocalDatabase.request<CachedCityData<T> | undefined>(LocalDatabase.CITY_DATA_CACHE, 'readonly', store => store.get(key));
+        return entry && entry.version === version ? entry.data : null;
+    }
+
+    /**
+     * Store the data for a file, replacing any other version
+     */
+    static async put<T = GeoJSON>(key: string, version: string, data: T): Promise<void> {
+        const entry: CachedCityData<T> = { key, version, data };
+        await LocalDatabase.request(LocalDatabase.CITY_DATA_CACHE, 'readwrite', store => store.put(entry));
+    }
+}
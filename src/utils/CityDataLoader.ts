@@ -0,0 +1,113 @@
+import { CityDataCache } from './CityDataCache';
+import { ImportedCityStore } from './ImportedCityStore';
+import { OSMConverter } from './OSMConverter';
+import type { CityConfig } from './cityManager';
+import type { FeatureLayer, GeoJSON, MapData } from '@/types';
+
+/**
+ * Progress through loading one data layer: `fraction` runs from 0 to 1 over the download
+ * and the parsing
+ */
+export interface LayerLoadProgress {
+    stage: 'fetching' | 'parsing';
+    fraction: number;
+    loadedBytes?: number;
+    totalBytes?: number;
+}
+
+/**
+ * Loads a city's GeoJSON data layers: from the local store for imported cities, otherwise
+ * from the local cache or from public/data. Data files may hold overpass-turbo GeoJSON
+ * exports or raw Overpass [out:json] results; downloaded data of versioned cities is cached
+ * after parsing and conversion.
+ */
+export class CityDataLoader {
+    private static readonly fetchShare = 0.8; // Share of a layer's progress taken by the download
+
+    /**
+     * Load one layer of a city; resolves to null when the city has no data for it
+     */
+    static async loadLayer(
+        city: string,
+        config: CityConfig,
+        layer: FeatureLayer,
+        onProgress: (progress: LayerLoadProgress) => void = () => { }
+    ): Promise<GeoJSON | null> {
+        if (config.imported) {
+            const data = await ImportedCityStore.getLayer(city, layer);
+            onProgress({ stage: 'parsing', fraction: 1 });
+            return data;
+        }
+
+        const key = `${layer}/${config.file}`;
+        if (config.version !== undefined) {
+            const cached = await CityDataCache.get(key, config.version).catch(error => {
+                console.warn(`Failed to read ${key} from the cache:`, error);
+                return null;
+            });
+            if (cached) {
+                console.log(`Loaded ${key} from the cache`);
+                onProgress({ stage: 'parsing', fraction: 1 });
+                return cached;
+            }
+        }
+
+        const text = await this.fetchText(`/data/${key}`, (loadedBytes, totalBytes) => {
+            const downloaded = totalBytes > 0 ? Math.min(1, loadedBytes / totalBytes) : 0;
+            onProgress({ stage: 'fetching', fraction: downloaded * this.fetchShare, loadedBytes, totalBytes });
+        });
+        if (text === null) return null;
+
+        onProgress({ stage: 'parsing', fraction: this.fetchShare });
+        // Let the progress show before the (blocking) parse
+        await new Promise(resolve => setTimeout(resolve, 0));
+        const parsed: GeoJSON | MapData = JSON.parse(text);
+        const data = OSMConverter.isOSMData(parsed) ? OSMConverter.convert(parsed)[layer] : parsed;
+        onProgress({ stage: 'parsing', fraction: 1 });
+
+        if (config.version !== undefined) {
+            CityDataCache.put(key, config.version, data).catch(error => console.warn(`Failed to cache ${key}:`, error));
+        }
+        return data;
+    }
+
+    /**
+     * Download a file as text, reporting the bytes received. Resolves to null for missing files.
+     */
+    private static async fetchText(url: string, onBytes: (loadedBytes: number, totalBytes: number) => void): Promise<string | null> {
+        const response = await fetch(url);
+        if (!response.ok) {
+            if (response.status !== 404) {
+                throw new Error(`Failed to load ${url}: ${response.status}`);
+            }
+            return null;
+        }
+
+        // Compressed responses report the compressed length, so the count can overshoot
+        const totalBytes = Number(response.headers.get('content-length')) || 0;
+        if (!response.body) {
+            const text = await response.text();
+            onBytes(text.length, totalBytes);
+            return text;
+        }
+
+        const reader = response.body.getReader();
+        const chunks: Uint8Array[] = [];
+        let loadedBytes = 0;
+        for (; ;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            chunks.push(value);
+            loadedBytes += value.length;
+            onBytes(loadedBytes, totalBytes);
+        }
+
+        const bytes = new Uint8Array(loadedBytes);
+        let offset = 0;
+        chunks.forEach(chunk => {
+            bytes.set(chunk, offset);
+            offset += chunk.length;
+        });
+        return new TextDecoder().decode(bytes);
+    }
+}
@@ -0,0 +1,154 @@
+import { OSMConverter } from './OSMConverter';
+import { ImportedCityStore } from './ImportedCityStore';
+import { CityManager, type CityConfig } from './cityManager';
+import type { DrivingSide, FeatureLayer, GeoJSON, GeoJSONFeature } from '@/types';
+
+export interface CityImportOptions {
+    name: string;
+    drivingSide: DrivingSide;
+    countryCode?: string; // ISO 3166-1 alpha-2, selects the default speed limits
+}
+
+/**
+ * Builds a city from files the user drops into the city menu: road, building and tree
+ * GeoJSON files (as exported by overpass-turbo) or raw Overpass JSON holding any mix of
+ * them. Features are sorted into layers by their tags, the city is centred on the bounding
+ * box of its roads and the result is saved locally and added to the city list.
+ */
+export class CityImporter {
+    private static readonly CONTROL_TYPES = new Set<string>(['traffic_signals', 'stop', 'give_way']);
+
+    /**
+     * Import the files as a new city; resolves to the new city's id
+     */
+    static async importFiles(files: File[], options: CityImportOptions): Promise<string> {
+        const name = options.name.trim();
+        if (!name) {
+            throw new Error('Enter a name for the city');
+        }
+
+        const features: Record<FeatureLayer, GeoJSONFeature[]> = { roads: [], buildings: [], trees: [] };
+        for (const file of files) {
+            let data: unknown;
+            try {
+                data = JSON.parse(await file.text());
+            } catch {
+                throw new Error(`${file.name} is not a JSON file`);
+            }
+
+            const layers = this.readLayers(data);
+            if (!layers) {
+                throw new Error(`${file.name} is neither GeoJSON nor an Overpass JSON result`);
+            }
+            (Object.keys(features) as FeatureLayer[]).forEach(layer => features[layer].push(...layers[layer]));
+        }
+
+        if (!features.roads.some(feature => feature.geometry.type === 'LineString')) {
+            throw new Error('The files contain no roads (ways with a highway tag)');
+        }
+
+        const center = this.getCenter(features.roads);
+        const id = this.createId(name);
+        const data: Partial<Record<FeatureLayer, GeoJSON>> = {};
+        (Object.keys(features) as FeatureLayer[]).forEach(layer => {
+            if (features[layer].length > 0) {
+                data[layer] = { type: 'FeatureCollection', features: features[layer] };
+            }
+        });
+
+        const config: CityConfig = {
+            name,
+            file: `${id}.json`,
+            centerLat: center.lat,
+            centerLon: center.lon,
+            drivingSide: options.drivingSide,
+            countryCode: options.countryCode?.trim().toUpperCase() ?? '',
+            layers: Object.keys(data) as FeatureLayer[],
+            imported: true
+        };
+        await ImportedCityStore.save(id, config, data);
+        CityManager.addCity(id, config);
+
+        console.log(`Imported ${name}: ${features.roads.length} road, ${features.buildings.length} building and ${features.trees.length} tree features`);
+        return id;
+    }
+
+    /**
+     * Features of a parsed file sorted into layers, or null for unknown formats
+     */
+    private static readLayers(data: unknown): Record<FeatureLayer, GeoJSONFeature[]> | null {
+        if (OSMConverter.isOSMData(data)) {
+            const converted = OSMConverter.convert(data);
+            return {
+                roads: converted.roads.features,
+                buildings: converted.buildings.features,
+                trees: converted.trees.features
+            };
+        }
+
+        const geoJSON = data as GeoJSON;
+        if (geoJSON?.type !== 'FeatureCollection' || !Array.isArray(geoJSON.features)) return null;
+
+        const layers: Record<FeatureLayer, GeoJSONFeature[]> = { roads: [], buildings: [], trees: [] };
+        geoJSON.features.forEach(feature => {
+            const layer = this.getLayer(feature);
+            if (layer) layers[layer].push(feature);
+        });
+        return layers;
+    }
+
+    /**
+     * Layer a GeoJSON feature belongs to (null for features the simulator doesn't use)
+     */
+    private static getLayer(feature: GeoJSONFeature): FeatureLayer | null {
+        const properties = feature.properties ?? {};
+        const highway = typeof properties.highway === 'string' ? properties.highway : undefined;
+        switch (feature.geometry?.type) {
+            case 'LineString':
+                return highway ? 'roads' : null;
+            case 'Polygon':
+            case 'MultiPolygon':
+                return properties.building ? 'buildings' : null;
+            case 'Point':
+                if (properties.natural === 'tree') return 'trees';
+                return highway && this.CONTROL_TYPES.has(highway) ? 'roads' : null;
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Centre of the bounding box of the road ways
+     */
+    private static getCenter(roads: GeoJSONFeature[]): { lat: number; lon: number; } {
+        let minLat = Infinity, maxLat = -Infinity, minLon = Infinity, maxLon = -Infinity;
+        roads.forEach(feature => {
+            if (feature.geometry.type !== 'LineString') return;
+            feature.geometry.coordinates.forEach(([lon, lat]) => {
+                minLat = Math.min(minLat, lat);
+                maxLat = Math.max(maxLat, lat);
+                minLon = Math.min(minLon, lon);
+                maxLon = Math.max(maxLon, lon);
+            });
+        });
+        return { lat: (minLat + maxLat) / 2, lon: (minLon + maxLon) / 2 };
+    }
+
+    /**
+     * City id from its name, unique among the known cities
+     */
+    private static createId(name: string): string {
+        const slug = name
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '') // Drop accents
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '') || 'city';
+        const base = `imported-${slug}`;
+        let id = base;
+        for (let suffix = 2; CityManager.getCityConfig(id); suffix++) {
+            id = `${base}-${suffix}`;
+        }
+        return id;
+    }
+}
@@ -0,0 +1,44 @@
+import type { FeatureLayer, GeoJSON } from '@/types';
+import { LocalDatabase } from './LocalDatabase';
+import type { CityConfig } from './cityManager';
+
+interface ImportedCityRecord {
+    id: string;
+    config: CityConfig;
+    layers: Partial<Record<FeatureLayer, GeoJSON>>;
+}
+
+/**
+ * Keeps cities imported from the user's own files in IndexedDB, so they stay in the city
+ * list between visits. City data is far too large for localStorage.
+ */
+export class ImportedCityStore {
+    /**
+     * Configs of all imported cities, keyed by city id
+     */
+    static async getConfigs(): Promise<Record<string, CityConfig>> {
+        const records = await LocalDatabase.request<ImportedCityRecord[]>(LocalDatabase.IMPORTED_CITIES, 'readonly', store => store.getAll());
+        const configs: Record<string, CityConfig> = {};
+        records.forEach(record => {
+            configs[record.id] = record.config;
+        });
+        return configs;
+    }
+
+    /**
+     * One data layer of an imported city (null when the city has no such layer)
+     */
+    static async getLayer(id: string, layer: FeatureLayer): Promise<GeoJSON | null> {
+        const record = await LocalDatabase.request<ImportedCityRecord | undefined>(LocalDatabase.IMPORTED_CITIES, 'readonly', store => store.get(id));
+        return record?.layers[layer] ?? null;
+    }
+
+    static async save(id: string, config: CityConfig, layers: Partial<Record<FeatureLayer, GeoJSON>>): Promise<void> {
+        const record: ImportedCityRecord = { id, config, layers };
+        await LocalDatabase.request(LocalDatabase.IMPORTED_CITIES, 'readwrite', store => store.put(record));
+    }
+
+    static async remove(id: string): Promise<void> {
+        await LocalDatabase.request(LocalDatabase.IMPORTED_CITIES, 'readwrite', store => store.delete(id));
+    }
+}
@@ -0,0 +1,59 @@
+/**
+ * The app's IndexedDB database: cities imported from the user's files and the cache of
+ * downloaded city data, one object store each (keyed by their 'id' and 'key' fields).
+ */
+export class LocalDatabase {
+    static readonly IMPORTED_CITIES = 'importedCities';
+    static readonly CITY_DATA_CACHE = 'cityDataCache';
+
+    private static readonly DB_NAME = 'cityDrivingSim';
+    private static readonly DB_VERSION = 2;
+
+    private static database: Promise<IDBDatabase> | null = null;
+
+    /**
+     * Run one request against an object store and resolve to its result
+     */
+    static async request<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const database = await this.open();
+        return new Promise((resolve, reject) => {
+            const request = run(database.transaction(storeName, mode).objectStore(storeName));
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    private static open(): Promise<IDBDatabase> {
+        if (!this.database) {
+            this.database = new Promise((resolve, reject) => {
+                const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const database = request.result;
+                    if (!database.objectStoreNames.contains(this.IMPORTED_CITIES)) {
+                        database.createObjectStore(this.IMPORTED_CITIES, { keyPath: 'id' });
+                    }
+                    if (!database.objectStoreNames.contains(this.CITY_DATA_CACHE)) {
+                        database.createObjectStore(this.CITY_DATA_CACHE, { keyPath: 'key' });
+                    }
+                };
+                request.onsuccess = () => {
+                    const database = request.result;
+                    // Another tab is upgrading the database: let it, and reopen on the next request
+                    database.onversionchange = () => {
+                        database.close();
+                        this.database = null;
+                    };
+                    resolve(database);
+                };
+                request.onerror = () => reject(request.error);
+                // An older version is still open in another tab; callers fall back to working without the database
+                request.onblocked = () => reject(new Error('Database upgrade blocked by another open tab'));
+            });
+            // Allow a retry after a failed open
+            this.database.catch(() => {
+                this.database = null;
+            });
+        }
+        return this.database;
+    }
+}
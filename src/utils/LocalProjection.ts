@@ -0,0 +1,39 @@
+/**
+ * Projects [lon, lat] coordinates onto the local ground plane around a city centre, in
+ * meters with x to the east and z to the south (the projection used across the scene).
+ */
+export class LocalProjection {
+    private static readonly earthRadius = 6371000; // meters
+    private static readonly closingTolerance = 1e-10; // degrees between a ring's first and last point
+
+    /**
+     * Convert lat/lon to local coordinates
+     */
+    static toLocal(lat: number, lon: number, centerLat: number, centerLon: number): { x: number; z: number; } {
+        const R = LocalProjection.earthRadius;
+        const dLat = (lat - centerLat) * Math.PI / 180;
+        const dLon = (lon - centerLon) * Math.PI / 180;
+
+        const x = dLon * R * Math.cos(centerLat * Math.PI / 180);
+        const z = -dLat * R;
+
+        return { x, z };
+    }
+
+    /**
+     * Convert a GeoJSON polygon ring to local coordinates, without its closing point
+     */
+    static ringToLocal(ring: Array<[number, number]>, centerLat: number, centerLon: number): Array<{ x: number; z: number; }> {
+        if (!ring || ring.length === 0) return [];
+
+        // Rings repeat their first point at the end (allowing for floating point noise)
+        const first = ring[0];
+        const last = ring[ring.length - 1];
+        const isClosed = ring.length > 3 &&
+            Math.abs(first[0] - last[0]) < LocalProjection.closingTolerance &&
+            Math.abs(first[1] - last[1]) < LocalProjection.closingTolerance;
+        const points = isClosed ? ring.slice(0, -1) : ring;
+
+        return points.map(([lon, lat]) => LocalProjection.toLocal(lat, lon, centerLat, centerLon));
+    }
+}
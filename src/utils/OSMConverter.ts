@@ -0,0 +1,209 @@
+import type { FeatureLayer, GeoJSON, GeoJSONFeature, GeoJSONGeometry, MapData, OSMNode, OSMRelation, OSMWay } from '@/types';
+
+type Ring = Array<[number, number]>; // [longitude, latitude] positions
+
+/**
+ * Converts raw Overpass API results ([out:json]) to the GeoJSON feature collections the
+ * loaders use, in the same shape overpass-turbo exports: way node references are resolved
+ * to coordinates (or taken inline from "out geom" results) and the elements are split into
+ * roads (with their traffic control nodes and land cover areas), buildings and trees.
+ * Building and land cover multipolygon relations become polygons with holes.
+ */
+export class OSMConverter {
+    private static readonly CONTROL_TYPES = new Set<string>(['traffic_signals', 'stop', 'give_way']);
+
+    static isOSMData(data: unknown): data is MapData {
+        return typeof data === 'object' && data !== null && Array.isArray((data as MapData).elements);
+    }
+
+    /**
+     * Split an Overpass result into one feature collection per layer
+     */
+    static convert(data: MapData): Record<FeatureLayer, GeoJSON> {
+        const nodes = new Map<number, OSMNode>();
+        const ways = new Map<number, OSMWay>();
+        data.elements.forEach(element => {
+            if (element.type === 'node') nodes.set(element.id, element);
+            if (element.type === 'way') ways.set(element.id, element);
+        });
+
+        const layers: Record<FeatureLayer, GeoJSONFeature[]> = { roads: [], buildings: [], trees: [] };
+        let unresolved = 0;
+
+        data.elements.forEach(element => {
+            const tags = element.tags;
+            if (!tags) return;
+
+            if (element.type === 'node') {
+                const geometry: GeoJSONGeometry = { type: 'Point', coordinates: [element.lon, element.lat] };
+                if (tags.natural === 'tree') {
+                    layers.trees.push(OSMConverter.createFeature('node', element.id, tags, geometry));
+                } else if (tags.highway && OSMConverter.CONTROL_TYPES.has(tags.highway)) {
+                    layers.roads.push(OSMConverter.createFeature('node', element.id, tags, geometry));
+                }
+                return;
+            }
+
+            if (element.type === 'relation') {
+                if (tags.type !== 'multipolygon' || (!tags.building && !OSMConverter.isLandCover(tags))) return;
+                const layer = tags.building ? layers.buildings : layers.roads;
+                const polygons = OSMConverter.resolveMultipolygon(element, ways, nodes);
+                if (polygons.length === 0) unresolved++;
+                // Each outer ring becomes its own feature; number them apart when there are several
+                polygons.forEach((coordinates, index) => {
+                    const part = polygons.length > 1 ? index + 1 : undefined;
+                    layer.push(OSMConverter.createFeature('relation', element.id, tags, { type: 'Polygon', coordinates }, part));
+                });
+                return;
+            }
+
+            if (!tags.highway && !tags.building && !OSMConverter.isLandCover(tags)) return;
+            const coordinates = OSMConverter.resolveWay(element, nodes);
+            if (!coordinates) {
+                unresolved++;
+                return;
+            }
+
+            if (tags.highway) {
+                layers.roads.push(OSMConverter.createFeature('way', element.id, tags, { type: 'LineString', coordinates }));
+            } else if (OSMConverter.isClosed(coordinates)) {
+                // Land cover areas travel with the roads, as in the packaged road data
+                const layer = tags.building ? layers.buildings : layers.roads;
+                layer.push(OSMConverter.createFeature('way', element.id, tags, { type: 'Polygon', coordinates: [coordinates] }));
+            }
+        });
+
+        if (unresolved > 0) {
+            console.warn(`Skipped ${unresolved} OSM ways and relations with missing nodes (query with "out geom" or recurse down with ">")`);
+        }
+
+        return {
+            roads: OSMConverter.createCollection(layers.roads),
+            buildings: OSMConverter.createCollection(layers.buildings),
+            trees: OSMConverter.createCollection(layers.trees)
+        };
+    }
+
+    /**
+     * Coordinates of a way, from its inline geometry or its node references.
+     * Null when any node is missing from the result.
+     */
+    private static resolveWay(way: OSMWay, nodes: Map<number, OSMNode>): Ring | null {
+        if (way.geometry && way.geometry.length >= 2) {
+            return way.geometry.map(point => [point.lon, point.lat]);
+        }
+
+        const coordinates: Ring = [];
+        for (const id of way.nodes ?? []) {
+            const node = nodes.get(id);
+            if (!node) return null;
+            coordinates.push([node.lon, node.lat]);
+        }
+        return coordinates.length >= 2 ? coordinates : null;
+    }
+
+    /**
+     * Polygons (outer ring followed by its holes) of a multipolygon relation. Member ways
+     * are joined end to end into closed rings; rings that can't be closed are dropped.
+     */
+    private static resolveMultipolygon(relation: OSMRelation, ways: Map<number, OSMWay>, nodes: Map<number, OSMNode>): Ring[][] {
+        const outerSegments: Ring[] = [];
+        const innerSegments: Ring[] = [];
+        relation.members.forEach(member => {
+            if (member.type !== 'way') return;
+            const way = ways.get(member.ref);
+            const coordinates = member.geometry && member.geometry.length >= 2
+                ? member.geometry.map(point => [point.lon, point.lat] as [number, number])
+                : way ? OSMConverter.resolveWay(way, nodes) : null;
+            if (!coordinates) return;
+            (member.role === 'inner' ? innerSegments : outerSegments).push(coordinates);
+        });
+
+        const polygons: Ring[][] = OSMConverter.joinRings(outerSegments).map(outer => [outer]);
+        OSMConverter.joinRings(innerSegments).forEach(inner => {
+            const polygon = polygons.find(([outer]) => OSMConverter.containsPoint(outer, inner[0]));
+            polygon?.push(inner);
+        });
+        return polygons;
+    }
+
+    /**
+     * Join way segments that share end points into closed rings
+     */
+    private static joinRings(segments: Ring[]): Ring[] {
+        const rings: Ring[] = [];
+        const open = segments.slice();
+        const samePosition = (a: [number, number], b: [number, number]) => a[0] === b[0] && a[1] === b[1];
+
+        while (open.length > 0) {
+            let ring = open.pop()!;
+            while (!OSMConverter.isClosed(ring)) {
+                const end = ring[ring.length - 1];
+                const index = open.findIndex(segment => samePosition(segment[0], end) || samePosition(segment[segment.length - 1], end));
+                if (index === -1) break;
+                const [segment] = open.splice(index, 1);
+                const oriented = samePosition(segment[0], end) ? segment : segment.slice().reverse();
+                ring = ring.concat(oriented.slice(1));
+            }
+            if (OSMConverter.isClosed(ring)) rings.push(ring);
+        }
+        return rings;
+    }
+
+    /**
+     * Even-odd test of a position against a closed ring
+     */
+    private static containsPoint(ring: Ring, [x, y]: [number, number]): boolean {
+        let inside = false;
+        for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+            const [xi, yi] = ring[i];
+            const [xj, yj] = ring[j];
+            if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) {
+                inside = !inside;
+            }
+        }
+        return inside;
+    }
+
+    /**
+     * Areas drawn as ground cover: landuse, leisure and natural areas, and car parks
+     */
+    private static isLandCover(tags: Record<string, string | undefined>): boolean {
+        return !!(tags.landuse || tags.leisure || (tags.natural && tags.natural !== 'tree') || tags.amenity === 'parking');
+    }
+
+    private static isClosed(coordinates: Ring): boolean {
+        const first = coordinates[0];
+        const last = coordinates[coordinates.length - 1];
+        return coordinates.length >= 4 && first[0] === last[0] && first[1] === last[1];
+    }
+
+    /**
+     * Feature for an OSM element. `@id` is always the element's; the feature id gets the
+     * part number of a relation split into several polygons, so that it stays unique.
+     */
+    private static createFeature(
+        type: 'node' | 'way' | 'relation',
+        id: number,
+        tags: Record<string, string | undefined>,
+        geometry: GeoJSONGeometry,
+        part?: number
+    ): GeoJSONFeature {
+        const osmId = `${type}/${id}`;
+        return {
+            type: 'Feature',
+            id: part === undefined ? osmId : `${osmId}/${part}`,
+            properties: { '@id': osmId, ...tags },
+            geometry
+        };
+    }
+
+    private static createCollection(features: GeoJSONFeature[]): GeoJSON {
+        return {
+            type: 'FeatureCollection',
+            generator: 'OSMConverter',
+            copyright: 'The data included in this document is from www.openstreetmap.org. The data is made available under ODbL.',
+            features
+        };
+    }
+}
@@ -127,6 +127,42 @@ export class RoadSoundGenerator {
         }
     }
 
+    /**
+     * Play a short thud for a collision; intensity is 0-1
+     */
+    playImpact(intensity: number): void {
+        if (!this.isEnabled || !this.audioContext || !this.masterGain) return;
+
+        const now = this.audioContext.currentTime;
+        const level = Math.min(1, Math.max(0, intensity));
+        const duration = 0.25 + level * 0.35;
+
+        const length = Math.floor(this.audioContext.sampleRate * duration);
+        const impactBuffer = this.audioContext.createBuffer(1, length, this.audioContext.sampleRate);
+        const output = impactBuffer.getChannelData(0);
+        for (let i = 0; i < length; i++) {
+            // Noise burst with a fast exponential decay
+            output[i] = (Math.random() * 2 - 1) * Math.exp(-6 * i / length);
+        }
+
+        const source = this.audioContext.createBufferSource();
+        source.buffer = impactBuffer;
+
+        const filter = this.audioContext.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.frequency.value = 300 + level * 900;
+
+        const gain = this.audioContext.createGain();
+        gain.gain.setValueAtTime(0.3 + level * 0.7, now);
+        gain.gain.exponentialRampToValueAtTime(0.001, now + duration);
+
+        source.connect(filter);
+        filter.connect(gain);
+        gain.connect(this.masterGain);
+        source.start(now);
+        source.stop(now + duration);
+    }
+
     setEnabled(enabled: boolean): void {
         this.isEnabled = enabled;
         if (!enabled) {
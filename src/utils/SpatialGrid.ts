@@ -0,0 +1,77 @@
+export interface GridBounds {
+    minX: number;
+    minZ: number;
+    maxX: number;
+    maxZ: number;
+}
+
+/**
+ * Uniform grid spatial index over the XZ plane.
+ * Items are registered by bounding box and returned by box queries without duplicates.
+ */
+export class SpatialGrid<T> {
+    private cells: Map<string, T[]> = new Map();
+    private itemCount = 0;
+
+    constructor(private readonly cellSize: number = 25) { }
+
+    get size(): number {
+        return this.itemCount;
+    }
+
+    /**
+     * Register an item covering the given bounds
+     */
+    insert(item: T, bounds: GridBounds): void {
+        const minCellX = Math.floor(bounds.minX / this.cellSize);
+        const maxCellX = Math.floor(bounds.maxX / this.cellSize);
+        const minCellZ = Math.floor(bounds.minZ / this.cellSize);
+        const maxCellZ = Math.floor(bounds.maxZ / this.cellSize);
+
+        for (let cx = minCellX; cx <= maxCellX; cx++) {
+            for (let cz = minCellZ; cz <= maxCellZ; cz++) {
+                const key = `${cx},${cz}`;
+                const cell = this.cells.get(key);
+                if (cell) {
+                    cell.push(item);
+                } else {
+                    this.cells.set(key, [item]);
+                }
+            }
+        }
+        this.itemCount++;
+    }
+
+    /**
+     * Get all items whose cells overlap the given bounds
+     */
+    query(bounds: GridBounds): T[] {
+        const minCellX = Math.floor(bounds.minX / this.cellSize);
+        const maxCellX = Math.floor(bounds.maxX / this.cellSize);
+        const minCellZ = Math.floor(bounds.minZ / this.cellSize);
+        const maxCellZ = Math.floor(bounds.maxZ / this.cellSize);
+
+        const found = new Set<T>();
+        for (let cx = minCellX; cx <= maxCellX; cx++) {
+            for (let cz = minCellZ; cz <= maxCellZ; cz++) {
+                const cell = this.cells.get(`${cx},${cz}`);
+                if (cell) {
+                    cell.forEach(item => found.add(item));
+                }
+            }
+        }
+        return [...found];
+    }
+
+    /**
+     * Get all items near a point (within the given radius, at cell granularity)
+     */
+    queryRadius(x: number, z: number, radius: number): T[] {
+        return this.query({ minX: x - radius, minZ: z - radius, maxX: x + radius, maxZ: z + radius });
+    }
+
+    clear(): void {
+        this.cells.clear();
+        this.itemCount = 0;
+    }
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { OSMConverter } from '../OSMConverter';
+import type { MapData } from '@/types';
+
+/**
+ * Closed ring of a small square as inline way geometry
+ */
+function square(lon: number, lat: number, size: number = 0.0002): Array<{ lat: number; lon: number; }> {
+    return [
+        { lat, lon },
+        { lat, lon: lon + size },
+        { lat: lat - size, lon: lon + size },
+        { lat: lat - size, lon },
+        { lat, lon }
+    ];
+}
+
+describe('OSMConverter', () => {
+    it('numbers the parts of a multipolygon with several outer rings', () => {
+        const data: MapData = {
+            elements: [
+                {
+                    type: 'relation',
+                    id: 7,
+                    tags: { type: 'multipolygon', building: 'yes' },
+                    members: [
+                        { type: 'way', ref: 1, role: 'outer', geometry: square(14.4, 35.9) },
+                        { type: 'way', ref: 2, role: 'outer', geometry: square(14.401, 35.9) },
+                        { type: 'way', ref: 3, role: 'inner', geometry: square(14.40005, 35.89995, 0.0001) }
+                    ]
+                },
+                {
+                    type: 'relation',
+                    id: 8,
+                    tags: { type: 'multipolygon', landuse: 'farmland' },
+                    members: [{ type: 'way', ref: 4, role: 'outer', geometry: square(14.402, 35.9) }]
+                }
+            ]
+        };
+
+        const { buildings, roads } = OSMConverter.convert(data);
+
+        expect(buildings.features.map(feature => feature.id).sort()).toEqual(['relation/7/1', 'relation/7/2']);
+        buildings.features.forEach(feature => expect(feature.properties['@id']).toBe('relation/7'));
+        // The hole goes with the outer ring it lies in
+        const ringCounts = buildings.features.map(feature => feature.geometry.type === 'Polygon' ? feature.geometry.coordinates.length : 0);
+        expect(ringCounts.sort()).toEqual([1, 2]);
+
+        expect(roads.features.map(feature => feature.id)).toEqual(['relation/8']);
+    });
+});
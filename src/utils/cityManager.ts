@@ -1,3 +1,6 @@
+import { ImportedCityStore } from './ImportedCityStore';
+import type { CityLayer, CityManifest, CityManifestEntry, DrivingSide } from '@/types';
+
 export interface SavedPosition {
     lat: number;
     lon: number;
@@ -9,39 +12,24 @@ export interface CityConfig {
     file: string;
     centerLat: number;
     centerLon: number;
+    drivingSide: DrivingSide; // Side of the road traffic keeps to
+    countryCode: string; // ISO 3166-1 alpha-2, selects the default speed limits
+    speedLimits?: Record<string, number>; // Overrides the country's default limits per zone (km/h)
+    layers: CityLayer[]; // Data layers the city provides
+    thumbnail?: string; // URL of the city menu image
+    imported?: boolean; // Imported from the user's files; data is kept in ImportedCityStore
+    version?: string; // Data version from the registry; versioned data is cached locally
 }
 
-// Available cities configuration
-export const CITY_CONFIGS: Record<string, CityConfig> = {
-    monaco: {
-        name: 'Monaco',
-        file: 'monaco.json',
-        centerLat: 43.7384,
-        centerLon: 7.4246
-    },
-    rabat: {
-        name: 'Rabat',
-        file: 'rabat.json',
-        centerLat: 35.8807,
-        centerLon: 14.3977
-    },
-    balzan: {
-        name: 'Ħal Balzan',
-        file: 'balzan.json',
-        centerLat: 35.9005,
-        centerLon: 14.4504
-    },
-    qrendi: {
-        name: 'Il-Qrendi',
-        file: 'qrendi.json',
-        centerLat: 35.8343,
-        centerLon: 14.4579
-    }
-};
+const CITY_LAYERS: CityLayer[] = ['roads', 'buildings', 'trees', 'elevation'];
 
 export class CityManager {
     private static readonly STORAGE_KEY_CITY = 'cityDrivingSim_selectedCity';
     private static readonly STORAGE_KEY_POSITION = 'cityDrivingSim_lastPosition';
+    private static readonly MANIFEST_URL = '/data/cities.json';
+
+    // Cities from the registry and the user's imports, filled by loadCities()
+    private static cities: Map<string, CityConfig> = new Map();
 
     static getSelectedCity(): string | null {
         return localStorage.getItem(this.STORAGE_KEY_CITY);
@@ -68,30 +56,130 @@ export class CityManager {
     }
 
     static getCityConfig(city: string): CityConfig | null {
-        return CITY_CONFIGS[city] || null;
+        return this.cities.get(city) || null;
     }
 
     static getAvailableCities(): string[] {
-        return Object.keys(CITY_CONFIGS);
+        return [...this.cities.keys()];
+    }
+
+    static hasLayer(city: string, layer: CityLayer): boolean {
+        return this.cities.get(city)?.layers.includes(layer) ?? false;
+    }
+
+    /**
+     * Add a city to the list (used for cities imported at runtime)
+     */
+    static addCity(id: string, config: CityConfig): void {
+        this.cities.set(id, config);
+    }
+
+    /**
+     * Delete an imported city and its saved data, including the preference for it as the selected city
+     */
+    static async removeImportedCity(id: string): Promise<void> {
+        if (!this.cities.get(id)?.imported) return;
+        await ImportedCityStore.remove(id);
+        this.cities.delete(id);
+        localStorage.removeItem(`${this.STORAGE_KEY_POSITION}_${id}`);
+        if (this.getSelectedCity() === id) {
+            localStorage.removeItem(this.STORAGE_KEY_CITY);
+        }
     }
 
-    static async detectAvailableCities(): Promise<string[]> {
-        // Try to fetch each city config to see which files exist
-        const available: string[] = [];
-        const cities = Object.keys(CITY_CONFIGS);
-
-        for (const city of cities) {
-            const config = CITY_CONFIGS[city];
-            try {
-                const response = await fetch(`/data/roads/${config.file}`, { method: 'HEAD' });
-                if (response.ok) {
-                    available.push(city);
-                }
-            } catch {
-                // File doesn't exist, skip
+    /**
+     * Load the city registry (public/data/cities.json) followed by the cities the user has
+     * imported. Entries that fail validation are skipped with a warning; returns the ids of
+     * the valid cities.
+     */
+    static async loadCities(): Promise<string[]> {
+        const response = await fetch(this.MANIFEST_URL);
+        if (!response.ok) {
+            throw new Error(`Failed to load city registry: ${response.status}`);
+        }
+
+        const manifest: CityManifest = await response.json();
+        if (!manifest || typeof manifest.cities !== 'object' || manifest.cities === null) {
+            throw new Error('City registry has no "cities" object');
+        }
+
+        this.cities.clear();
+        Object.entries(manifest.cities).forEach(([id, entry]) => {
+            const errors = this.validateEntry(entry);
+            if (errors.length > 0) {
+                console.warn(`Skipping city "${id}" in cities.json: ${errors.join('; ')}`);
+                return;
             }
+            this.cities.set(id, {
+                name: entry.name,
+                file: entry.file ?? `${id}.json`,
+                centerLat: entry.center.lat,
+                centerLon: entry.center.lon,
+                drivingSide: entry.drivingSide,
+                countryCode: entry.countryCode.toUpperCase(),
+                speedLimits: entry.speedLimits,
+                layers: entry.layers,
+                thumbnail: entry.thumbnail ? `/data/${entry.thumbnail}` : undefined,
+                version: entry.version !== undefined ? String(entry.version) : undefined
+            });
+        });
+
+        console.log(`Loaded ${this.cities.size} cities from the city registry`);
+
+        // Imported cities are a bonus; the registry still works without IndexedDB
+        try {
+            const imported = await ImportedCityStore.getConfigs();
+            Object.entries(imported).forEach(([id, config]) => this.cities.set(id, config));
+        } catch (error) {
+            console.warn('Failed to load imported cities:', error);
         }
 
-        return available.length > 0 ? available : cities; // Fallback to config list
+        return this.getAvailableCities();
     }
-}
\ No newline at end of file
+
+    /**
+     * Problems with a registry entry (empty when it is valid)
+     */
+    private static validateEntry(entry: CityManifestEntry): string[] {
+        if (!entry || typeof entry !== 'object') return ['entry is not an object'];
+
+        const errors: string[] = [];
+        if (typeof entry.name !== 'string' || entry.name.trim() === '') {
+            errors.push('missing name');
+        }
+        const { lat, lon } = entry.center ?? {};
+        if (!Number.isFinite(lat) || Math.abs(lat) > 90 || !Number.isFinite(lon) || Math.abs(lon) > 180) {
+            errors.push('center needs a valid lat and lon');
+        }
+        if (entry.drivingSide !== 'left' && entry.drivingSide !== 'right') {
+            errors.push(`drivingSide must be "left" or "right"`);
+        }
+        if (typeof entry.countryCode !== 'string' || !/^[a-z]{2}$/i.test(entry.countryCode)) {
+            errors.push('countryCode must be a two-letter ISO code');
+        }
+        if (entry.speedLimits !== undefined && (
+            typeof entry.speedLimits !== 'object' || entry.speedLimits === null || Array.isArray(entry.speedLimits) ||
+            !Object.values(entry.speedLimits).every(limit => Number.isFinite(limit) && limit > 0)
+        )) {
+            errors.push('speedLimits must map zones to positive km/h values');
+        }
+        if (!Array.isArray(entry.layers) || !entry.layers.includes('roads')) {
+            errors.push('layers must include "roads"');
+        } else {
+            const unknown = entry.layers.filter(layer => !CITY_LAYERS.includes(layer));
+            if (unknown.length > 0) {
+                errors.push(`unknown layers ${unknown.join(', ')}`);
+            }
+        }
+        if (entry.file !== undefined && (typeof entry.file !== 'string' || !entry.file.endsWith('.json'))) {
+            errors.push('file must be a .json file name');
+        }
+        if (entry.version !== undefined && typeof entry.version !== 'string' && typeof entry.version !== 'number') {
+            errors.push('version must be a string or number');
+        }
+        if (entry.thumbnail !== undefined && typeof entry.thumbnail !== 'string') {
+            errors.push('thumbnail must be a path');
+        }
+        return errors;
+    }
+}